@@ -0,0 +1,195 @@
+import React, { useImperativeHandle, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Hash, User } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { getActiveToken } from '@/lib/rich-text';
+import { Input } from '@/components/ui/input';
+import VerifiedBadge from '@/components/ui/VerifiedBadge';
+
+interface Suggestion {
+  key: string;
+  insert: string;
+  label: string;
+  detail: string | null;
+  avatarUrl?: string | null;
+  verifiedType?: string | null;
+}
+
+interface MentionInputProps extends Omit<React.ComponentProps<'input'>, 'value' | 'onChange'> {
+  value: string;
+  onValueChange: (value: string) => void;
+  // Composers pinned to the bottom of the screen open the list upwards
+  suggestionsPosition?: 'above' | 'below';
+}
+
+const SUGGESTION_LIMIT = 6;
+
+// ilike treats _ and % as wildcards
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, c => `\\${c}`);
+
+// Text input that autocompletes @usernames and #hashtags at the caret
+const MentionInput = React.forwardRef<HTMLInputElement, MentionInputProps>(
+  ({ value, onValueChange, suggestionsPosition = 'below', onKeyDown, onBlur, onFocus, ...props }, ref) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    useImperativeHandle(ref, () => inputRef.current!);
+
+    const [caret, setCaret] = useState(0);
+    const [dismissed, setDismissed] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const token = dismissed ? null : getActiveToken(value, caret);
+
+    const { data: suggestions = [] } = useQuery({
+      queryKey: ['mention-suggestions', token?.trigger, token?.query],
+      queryFn: async (): Promise<Suggestion[]> => {
+        const prefix = `${escapeLike(token!.query)}%`;
+        if (token!.trigger === '@') {
+          const { data } = await supabase
+            .from('profiles')
+            .select('id, username, display_name, avatar_url, verified_type')
+            .ilike('username', prefix)
+            .order('username')
+            .limit(SUGGESTION_LIMIT);
+          return (data || []).map(p => ({
+            key: p.id,
+            insert: `@${p.username}`,
+            label: p.username,
+            detail: p.display_name,
+            avatarUrl: p.avatar_url,
+            verifiedType: p.verified_type,
+          }));
+        }
+
+        const { data } = await supabase
+          .from('hashtags')
+          .select('id, tag, post_count')
+          .ilike('tag', prefix.toLowerCase())
+          .order('post_count', { ascending: false })
+          .limit(SUGGESTION_LIMIT);
+        return (data || []).map(h => ({
+          key: h.id,
+          insert: `#${h.tag}`,
+          label: `#${h.tag}`,
+          detail: `${h.post_count} ${h.post_count === 1 ? 'post' : 'posts'}`,
+        }));
+      },
+      enabled: !!token && token.query.length > 0,
+      staleTime: 30 * 1000,
+    });
+
+    const isOpen = !!token && token.query.length > 0 && suggestions.length > 0;
+
+    const syncCaret = () => {
+      setCaret(inputRef.current?.selectionStart ?? value.length);
+    };
+
+    const applySuggestion = (suggestion: Suggestion) => {
+      if (!token) return;
+      const before = value.slice(0, token.start);
+      const after = value.slice(token.end).replace(/^\s*/, '');
+      const next = `${before}${suggestion.insert} ${after}`;
+      const nextCaret = before.length + suggestion.insert.length + 1;
+      onValueChange(next);
+      setCaret(nextCaret);
+      setHighlighted(0);
+      requestAnimationFrame(() => {
+        inputRef.current?.focus();
+        inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+      });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (isOpen) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlighted(i => (i + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setDismissed(true);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative flex-1">
+        <Input
+          {...props}
+          ref={inputRef}
+          value={value}
+          onChange={e => {
+            onValueChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setDismissed(false);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={syncCaret}
+          onClick={syncCaret}
+          onBlur={e => {
+            setDismissed(true);
+            onBlur?.(e);
+          }}
+          onFocus={e => {
+            setDismissed(false);
+            onFocus?.(e);
+          }}
+          autoComplete="off"
+        />
+        {isOpen && (
+          <div
+            className={cn(
+              'absolute left-0 right-0 z-50 max-h-64 overflow-y-auto rounded-md border border-border bg-popover text-popover-foreground shadow-md py-1',
+              suggestionsPosition === 'above' ? 'bottom-full mb-1' : 'top-full mt-1'
+            )}
+          >
+            {suggestions.map((suggestion, idx) => (
+              <button
+                key={suggestion.key}
+                type="button"
+                // Keep focus in the input so the blur handler doesn't close the list first
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => applySuggestion(suggestion)}
+                onMouseEnter={() => setHighlighted(idx)}
+                className={cn(
+                  'w-full flex items-center gap-3 px-3 py-2 text-left text-sm',
+                  idx === highlighted && 'bg-secondary'
+                )}
+              >
+                <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                  {suggestion.avatarUrl ? (
+                    <img src={suggestion.avatarUrl} alt="" className="w-full h-full object-cover" />
+                  ) : token?.trigger === '#' ? (
+                    <Hash className="w-4 h-4 text-muted-foreground" />
+                  ) : (
+                    <User className="w-4 h-4 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate flex items-center gap-1">
+                    {suggestion.label}
+                    <VerifiedBadge type={suggestion.verifiedType} size="sm" />
+                  </p>
+                  {suggestion.detail && <p className="text-xs text-muted-foreground truncate">{suggestion.detail}</p>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+MentionInput.displayName = 'MentionInput';
+
+export default MentionInput;
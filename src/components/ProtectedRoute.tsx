@@ -1,13 +1,16 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, isLoading } = useAuth();
+  const { user, profile, isAdmin, isLoading, signOut } = useAuth();
 
   if (isLoading) {
     return (
@@ -21,6 +24,19 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/auth" replace />;
   }
 
+  if (!isAdmin && profile?.suspended_until && new Date(profile.suspended_until) > new Date()) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <Ban className="w-16 h-16 text-destructive" />
+        <h1 className="text-2xl font-semibold">Your account is suspended</h1>
+        <p className="text-muted-foreground max-w-sm">
+          Your account was suspended for going against our community guidelines. You can use PotatoGram again on {format(new Date(profile.suspended_until), 'MMMM d, yyyy h:mm a')}.
+        </p>
+        <Button variant="secondary" onClick={signOut}>Log out</Button>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { parseRichText } from '@/lib/rich-text';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+  // Override for surfaces where the primary colour doesn't read, e.g. own chat bubbles
+  linkClassName?: string;
+}
+
+const RichText: React.FC<RichTextProps> = ({ text, className, linkClassName }) => {
+  const tokens = useMemo(() => parseRichText(text), [text]);
+  const linkClass = cn('text-primary hover:underline', linkClassName);
+
+  return (
+    <span className={cn('whitespace-pre-wrap break-words', className)}>
+      {tokens.map((token, idx) => {
+        if (token.type === 'mention') {
+          return (
+            <Link key={idx} to={`/profile/${token.username}`} onClick={e => e.stopPropagation()} className={linkClass}>
+              {token.value}
+            </Link>
+          );
+        }
+        if (token.type === 'hashtag') {
+          return (
+            <Link key={idx} to={`/tags/${encodeURIComponent(token.tag)}`} onClick={e => e.stopPropagation()} className={linkClass}>
+              {token.value}
+            </Link>
+          );
+        }
+        if (token.type === 'link') {
+          // Links back into the app (e.g. shared post permalinks) stay in the router
+          if (token.href.startsWith(window.location.origin)) {
+            return (
+              <Link key={idx} to={token.href.slice(window.location.origin.length) || '/'} onClick={e => e.stopPropagation()} className={linkClass}>
+                {token.value}
+              </Link>
+            );
+          }
+          return (
+            <a key={idx} href={token.href} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className={linkClass}>
+              {token.value}
+            </a>
+          );
+        }
+        return <React.Fragment key={idx}>{token.value}</React.Fragment>;
+      })}
+    </span>
+  );
+};
+
+export default RichText;
@@ -1,10 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { formatDistanceToNow, format } from 'date-fns';
+import { format, startOfDay } from 'date-fns';
 import { 
-  User, 
   Phone, 
   Video, 
   Info, 
@@ -14,96 +14,321 @@ import {
   Smile,
   Mic,
   Check,
-  CheckCheck
+  CheckCheck,
+  CalendarDays,
+  ArrowDown,
+  X
 } from 'lucide-react';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useVoiceRecorder } from '@/hooks/use-voice-recorder';
+import { useActivityStatus } from '@/hooks/use-activity-status';
+import { useTypingIndicator } from '@/hooks/use-typing-indicator';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { useMessageHistory, type ChatMessage } from '@/hooks/use-message-history';
 import { cn } from '@/lib/utils';
+import MentionInput from '@/components/MentionInput';
+import RichText from '@/components/RichText';
+import SharedContentCard from './SharedContentCard';
+import MessageAttachment from './MessageAttachment';
+import ConversationAvatar from './ConversationAvatar';
+import GroupDetailsDialog from './GroupDetailsDialog';
+import VoiceMessagePlayer from './VoiceMessagePlayer';
+import SwipeableMessage from './SwipeableMessage';
+import MessageActions from './MessageActions';
+import MessageReactions from './MessageReactions';
+import {
+  CHAT_MEDIA_BUCKET,
+  MAX_ATTACHMENT_SIZE,
+  canEditMessage,
+  formatDuration,
+  formatFileSize,
+  getAttachmentPath,
+  getAttachmentType,
+  getMessageSummary,
+  getSignedAttachmentUrls,
+  isAttachmentMessage,
+  isShareMessage,
+  isStoragePath,
+  uploadChatAttachment,
+  type AttachmentType,
+} from '@/lib/messages';
+import { MEDIA_PRESETS, isProcessableImage, prepareMedia } from '@/lib/media-pipeline';
+import { fetchConversationDetails, getConversationTitle, getOtherMembers } from '@/lib/conversations';
 
-interface Participant {
-  id: string;
-  username: string;
-  display_name: string;
-  avatar_url: string | null;
-  last_seen: string;
-}
+const MIN_VOICE_MESSAGE_SECONDS = 1;
+// How far from the bottom still counts as "at the latest message"
+const NEAR_BOTTOM_PX = 150;
 
-interface Message {
+interface PendingUpload {
   id: string;
-  content: string | null;
-  message_type: string;
-  file_url: string | null;
-  file_name: string | null;
-  is_read: boolean;
-  created_at: string;
-  sender_id: string;
+  name: string;
+  progress: number;
 }
 
 interface ChatAreaProps {
   conversationId: string;
-  participant: Participant;
 }
 
-const ChatArea: React.FC<ChatAreaProps> = ({ conversationId, participant }) => {
-  const { profile } = useAuth();
+const ChatArea: React.FC<ChatAreaProps> = ({ conversationId }) => {
+  const { user, profile } = useAuth();
+  const navigate = useNavigate();
+  const [detailsOpen, setDetailsOpen] = useState(false);
   const [message, setMessage] = useState('');
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  // ChatMessage whose reaction picker is open, from hover or a long-press
+  const [reactingToId, setReactingToId] = useState<string | null>(null);
+  // Start of the day picked in "jump to date"; null shows the latest messages
+  const [anchor, setAnchor] = useState<string | null>(null);
+  const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [isNearBottom, setIsNearBottom] = useState(true);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const voiceRecorder = useVoiceRecorder();
+  const { typingIds, notifyTyping, stopTyping } = useTypingIndicator(conversationId);
+
+  const { data: conversation, isError: conversationMissing } = useQuery({
+    queryKey: ['conversation', conversationId],
+    queryFn: () => fetchConversationDetails(conversationId),
+    enabled: !!conversationId,
+  });
+
+  const otherMembers = conversation ? getOtherMembers(conversation, profile?.id) : [];
+  const isGroup = !!conversation?.is_group;
+  // The other person in a 1:1 conversation
+  const participant = isGroup ? null : otherMembers[0] ?? null;
+  const getActivityStatus = useActivityStatus(otherMembers.map(m => m.id));
+
+  const {
+    messages,
+    isLoading,
+    hasOlder,
+    hasNewer,
+    isFetchingOlder,
+    isFetchingNewer,
+    fetchOlder,
+    fetchNewer,
+  } = useMessageHistory(conversationId, anchor);
 
-  const { data: messages = [], isLoading } = useQuery({
-    queryKey: ['messages', conversationId],
+  // Where the user had read up to when the conversation was opened. Not
+  // refetched, so the "New messages" divider stays put while reading.
+  const { data: readMarker, isSuccess: readMarkerLoaded } = useQuery({
+    queryKey: ['read-marker', conversationId],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('messages')
-        .select('*')
+        .from('conversation_reads')
+        .select('last_read_at')
         .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
+        .eq('profile_id', profile.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.last_read_at ?? null;
+    },
+    enabled: !!conversationId && !!profile?.id,
+    staleTime: Infinity,
+    gcTime: 0,
+  });
+
+  const firstUnreadId = readMarker
+    ? messages.find(m =>
+      m.sender_id !== profile?.id &&
+      m.message_type !== 'system' &&
+      new Date(m.created_at).getTime() > new Date(readMarker).getTime()
+    )?.id
+    : undefined;
 
+  // Attachments are private; resolve their storage paths to short-lived signed URLs
+  const attachmentPaths = messages
+    .filter(m => m.file_url && isStoragePath(m.file_url))
+    .map(m => m.file_url as string);
+
+  const { data: signedUrls = {} } = useQuery({
+    queryKey: ['chat-media-urls', conversationId, attachmentPaths],
+    queryFn: () => getSignedAttachmentUrls(attachmentPaths),
+    enabled: attachmentPaths.length > 0,
+    staleTime: 50 * 60 * 1000,
+  });
+
+  const getAttachmentUrl = (fileUrl: string | null) => {
+    if (!fileUrl) return undefined;
+    return isStoragePath(fileUrl) ? signedUrls[fileUrl] : fileUrl;
+  };
+
+  // Other participants' read positions; empty unless both sides allow read receipts
+  const { data: readState = [] } = useQuery({
+    queryKey: ['conversation-read-state', conversationId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_conversation_read_state', { _conversation_id: conversationId });
       if (error) throw error;
-      return data as Message[];
+      return data || [];
     },
     enabled: !!conversationId,
-    refetchInterval: 2000,
+    refetchInterval: 5000,
   });
 
-  // Mark messages as read
+  // Opening a request doesn't mark it read; the sender only sees it was seen
+  // once it's accepted
+  const { data: isPendingRequest, isSuccess: requestStatusLoaded } = useQuery({
+    queryKey: ['message-requests', profile?.id, 'pending', conversationId],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('message_requests')
+        .select('*', { count: 'exact', head: true })
+        .eq('conversation_id', conversationId)
+        .eq('receiver_id', profile.id)
+        .eq('status', 'pending');
+      if (error) throw error;
+      return (count || 0) > 0;
+    },
+    enabled: !!conversationId && !!profile?.id,
+    refetchInterval: 5000,
+  });
+
+  // Mark the conversation as read up to the newest incoming message, once the
+  // read marker has been captured and the latest messages are on screen
+  const lastMarkedRef = useRef<string | null>(null);
   useEffect(() => {
-    if (messages.length > 0 && profile?.id) {
-      const unreadMessages = messages.filter(
-        m => !m.is_read && m.sender_id !== profile.id
-      );
-      
-      if (unreadMessages.length > 0) {
-        supabase
-          .from('messages')
-          .update({ is_read: true })
-          .in('id', unreadMessages.map(m => m.id))
-          .then(() => {
-            queryClient.invalidateQueries({ queryKey: ['conversations'] });
-          });
+    if (!profile?.id || !readMarkerLoaded || !requestStatusLoaded || isPendingRequest || hasNewer) return;
+    const latestIncoming = [...messages].reverse().find(m => m.sender_id !== profile.id);
+    if (!latestIncoming || latestIncoming.id === lastMarkedRef.current) return;
+
+    lastMarkedRef.current = latestIncoming.id;
+    supabase
+      .rpc('mark_conversation_read', { _conversation_id: conversationId })
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      });
+  }, [messages, conversationId, profile?.id, readMarkerLoaded, requestStatusLoaded, isPendingRequest, hasNewer, queryClient]);
+
+  const getSeenBy = (msg: ChatMessage) =>
+    readState.filter(reader => new Date(reader.last_read_at).getTime() >= new Date(msg.created_at).getTime());
+
+  const lastSentMessageId = [...messages].reverse().find(m => m.sender_id === profile?.id && m.message_type !== 'system')?.id;
+
+  const getSeenLabel = (msg: ChatMessage) => {
+    const seenBy = getSeenBy(msg);
+    if (seenBy.length === 0) return null;
+    if (!isGroup) return 'Seen';
+    if (seenBy.length === otherMembers.length) return 'Seen by everyone';
+    return `Seen by ${seenBy.map(reader => reader.username).join(', ')}`;
+  };
+
+  // Older pages are prepended above the viewport; keep what the user was
+  // looking at in place by restoring the distance from the bottom
+  const scrollRestoreRef = useRef<number | null>(null);
+  const loadOlder = () => {
+    const el = scrollRef.current;
+    if (el) scrollRestoreRef.current = el.scrollHeight - el.scrollTop;
+    fetchOlder();
+  };
+
+  const olderSentinelRef = useInfiniteScroll(loadOlder, hasOlder && !isFetchingOlder);
+  const newerSentinelRef = useInfiniteScroll(() => fetchNewer(), hasNewer && !isFetchingNewer);
+
+  const oldestMessageId = messages[0]?.id;
+  const newestMessage = messages[messages.length - 1];
+  const initialScrollDoneRef = useRef(false);
+  const newestMessageIdRef = useRef<string | undefined>();
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || scrollRestoreRef.current === null) return;
+    el.scrollTop = el.scrollHeight - scrollRestoreRef.current;
+    scrollRestoreRef.current = null;
+  }, [oldestMessageId]);
+
+  // First render of a page of history: open at the unread divider, the picked
+  // date or the bottom. After that, follow new messages only if already at the bottom.
+  useLayoutEffect(() => {
+    if (isLoading || !readMarkerLoaded || !newestMessage) return;
+
+    if (!initialScrollDoneRef.current) {
+      initialScrollDoneRef.current = true;
+      newestMessageIdRef.current = newestMessage.id;
+      const target = anchor ? messages[0]?.id : firstUnreadId;
+      if (target) {
+        document.getElementById(`message-${target}`)?.scrollIntoView({ block: anchor ? 'start' : 'center' });
+      } else {
+        messagesEndRef.current?.scrollIntoView();
       }
+      return;
     }
-  }, [messages, profile?.id, queryClient]);
 
-  // Scroll to bottom on new messages
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (newestMessage.id === newestMessageIdRef.current) return;
+    newestMessageIdRef.current = newestMessage.id;
+    if (!hasNewer && (isNearBottom || newestMessage.sender_id === profile?.id)) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [isLoading, readMarkerLoaded, newestMessage, messages, anchor, firstUnreadId, hasNewer, isNearBottom, profile?.id]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setIsNearBottom(el.scrollHeight - el.scrollTop - el.clientHeight < NEAR_BOTTOM_PX);
+  };
+
+  const jumpToDate = (date: Date | undefined) => {
+    setDatePickerOpen(false);
+    if (!date) return;
+    initialScrollDoneRef.current = false;
+    setAnchor(startOfDay(date).toISOString());
+  };
 
-  // Realtime subscription
+  const jumpToLatest = () => {
+    if (anchor) {
+      initialScrollDoneRef.current = false;
+      setAnchor(null);
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  };
+
+  // Lets the realtime handlers tell whether a change touches a loaded message
+  const loadedIdsRef = useRef(new Set<string>());
+  loadedIdsRef.current = new Set(messages.map(m => m.id));
+
+  // Realtime subscription. Invalidating refetches every loaded page, and the
+  // cursors are recomputed as it goes, so new messages can't open gaps.
+  // Deletes can't be filtered by conversation, so they're matched against the loaded ids.
   useEffect(() => {
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
     const channel = supabase
       .channel(`messages-${conversationId}`)
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
           table: 'messages',
           filter: `conversation_id=eq.${conversationId}`,
         },
-        () => {
-          queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+        invalidate
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        payload => {
+          const row = payload.old as { id?: string };
+          if (row.id && loadedIdsRef.current.has(row.id)) invalidate();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'message_reactions' },
+        payload => {
+          const row = (payload.new && 'message_id' in payload.new ? payload.new : payload.old) as { message_id?: string };
+          if (!row.message_id || loadedIdsRef.current.has(row.message_id)) invalidate();
         }
       )
       .subscribe();
@@ -122,45 +347,296 @@ const ChatArea: React.FC<ChatAreaProps> = ({ conversationId, participant }) => {
         sender_id: profile.id,
         content: message.trim(),
         message_type: 'text',
+        reply_to_id: replyingTo?.id ?? null,
       });
 
       if (error) throw error;
+    },
+    onSuccess: () => {
+      setMessage('');
+      setReplyingTo(null);
+      stopTyping();
+      if (anchor) jumpToLatest();
+      queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+
+  const editMessageMutation = useMutation({
+    mutationFn: async () => {
+      if (!editingMessage || !message.trim()) return;
+
+      const { error } = await supabase
+        .from('messages')
+        .update({ content: message.trim() })
+        .eq('id', editingMessage.id);
 
-      // Update conversation timestamp
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', conversationId);
+      if (error) throw error;
     },
     onSuccess: () => {
       setMessage('');
+      setEditingMessage(null);
+      stopTyping();
+      queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+    onError: (error: Error) => toast({ title: 'Failed to edit message', description: error.message, variant: 'destructive' }),
+  });
+
+  const unsendMutation = useMutation({
+    mutationFn: async (msg: ChatMessage) => {
+      const { error } = await supabase.from('messages').delete().eq('id', msg.id);
+      if (error) throw error;
+
+      if (msg.file_url && isStoragePath(msg.file_url)) {
+        await supabase.storage.from(CHAT_MEDIA_BUCKET).remove([msg.file_url]);
+      }
+    },
+    onSuccess: (_, msg) => {
+      if (replyingTo?.id === msg.id) setReplyingTo(null);
+      if (editingMessage?.id === msg.id) cancelEdit();
       queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
       queryClient.invalidateQueries({ queryKey: ['conversations'] });
     },
+    onError: () => toast({ title: 'Failed to unsend message', variant: 'destructive' }),
   });
 
+  // One reaction per person: picking the same emoji again removes it, another one replaces it
+  const reactMutation = useMutation({
+    mutationFn: async ({ msg, emoji }: { msg: ChatMessage; emoji: string }) => {
+      if (!profile?.id) return;
+      const mine = msg.reactions.find(r => r.profile_id === profile.id);
+
+      const { error } = mine?.emoji === emoji
+        ? await supabase.from('message_reactions').delete().eq('id', mine.id)
+        : await supabase
+          .from('message_reactions')
+          .upsert({ message_id: msg.id, profile_id: profile.id, emoji }, { onConflict: 'message_id,profile_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+    },
+    onError: () => toast({ title: 'Failed to react', variant: 'destructive' }),
+  });
+
+  const startReply = (msg: ChatMessage) => {
+    if (editingMessage) cancelEdit();
+    setReplyingTo(msg);
+  };
+
+  const startEdit = (msg: ChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(msg);
+    setMessage(msg.content || '');
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setMessage('');
+    stopTyping();
+  };
+
+  const copyMessage = (msg: ChatMessage) => {
+    navigator.clipboard.writeText(msg.content || '');
+    toast({ title: 'Copied' });
+  };
+
+  const scrollToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const sendAttachment = async (
+    file: File,
+    messageType: AttachmentType,
+    metadata: { media_duration?: number; waveform?: number[] } = {}
+  ) => {
+    if (!profile?.id || !user?.id) return;
+
+    const uploadId = `${Date.now()}-${file.name}`;
+    const setProgress = (progress: number) =>
+      setUploads(prev => prev.map(u => (u.id === uploadId ? { ...u, progress } : u)));
+
+    setUploads(prev => [...prev, { id: uploadId, name: messageType === 'audio' ? 'Voice message' : file.name, progress: 0 }]);
+    try {
+      const processed = messageType === 'image' ? (await prepareMedia(file, MEDIA_PRESETS.chat)).file : file;
+      if (processed.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+      }
+
+      const path = await uploadChatAttachment(
+        getAttachmentPath(conversationId, user.id, processed),
+        processed,
+        setProgress
+      );
+
+      const { error } = await supabase.from('messages').insert({
+        conversation_id: conversationId,
+        sender_id: profile.id,
+        message_type: messageType,
+        file_url: path,
+        file_name: file.name,
+        file_size: processed.size,
+        file_mime_type: processed.type || null,
+        ...metadata,
+      });
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: ['messages', conversationId] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    } catch (error) {
+      toast({
+        title: messageType === 'audio' ? 'Failed to send voice message' : 'Failed to send attachment',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setUploads(prev => prev.filter(u => u.id !== uploadId));
+    }
+  };
+
+  const sendAttachments = async (files: File[]) => {
+    for (const file of files) {
+      // Images are downscaled first, so only reject them if they are still too big afterwards
+      if (!isProcessableImage(file) && file.size > MAX_ATTACHMENT_SIZE) {
+        toast({ title: `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`, variant: 'destructive' });
+        continue;
+      }
+      await sendAttachment(file, getAttachmentType(file));
+    }
+  };
+
+  // Push-to-talk: hold the mic to record, release to send, release off the button to cancel
+  const handleRecordStart = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    try {
+      await voiceRecorder.start();
+    } catch {
+      toast({ title: 'Microphone access is needed to record voice messages', variant: 'destructive' });
+    }
+  };
+
+  const handleRecordEnd = async (e: React.PointerEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const released =
+      e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom;
+
+    if (!released) {
+      voiceRecorder.cancel();
+      return;
+    }
+
+    const recording = await voiceRecorder.stop();
+    if (!recording) return;
+    if (recording.duration < MIN_VOICE_MESSAGE_SECONDS) {
+      toast({ title: 'Hold to record, release to send' });
+      return;
+    }
+    sendAttachment(recording.file, 'audio', {
+      media_duration: Math.round(recording.duration * 10) / 10,
+      waveform: recording.waveform,
+    });
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    sendAttachments(files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    sendAttachments(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    sendAttachments(Array.from(e.dataTransfer.files));
+  };
+
   const handleSend = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim()) {
+    if (!message.trim()) return;
+    if (editingMessage) {
+      editMessageMutation.mutate();
+    } else {
       sendMessageMutation.mutate();
     }
   };
 
-  const isOnline = () => {
-    const diff = Date.now() - new Date(participant.last_seen).getTime();
-    return diff < 5 * 60 * 1000;
+  const activity = participant ? getActivityStatus(participant.id) : null;
+  const typingMembers = otherMembers.filter(m => typingIds.includes(m.id));
+  const isTyping = typingMembers.length > 0;
+  const membersById = new Map(conversation?.members.map(m => [m.id, m]) ?? []);
+  const getMemberName = (profileId: string) => membersById.get(profileId)?.username || 'Former member';
+
+  const getReplyLabel = (msg: ChatMessage) => {
+    const target = msg.reply_to;
+    if (!target) return null;
+    const isSent = msg.sender_id === profile?.id;
+    const targetName = target.sender_id === profile?.id
+      ? (isSent ? 'yourself' : 'you')
+      : target.sender_id === msg.sender_id ? 'themself' : getMemberName(target.sender_id);
+    return `${isSent ? 'You' : getMemberName(msg.sender_id)} replied to ${targetName}`;
   };
 
-  const getStatusText = () => {
-    if (isOnline()) return 'Active now';
-    const diff = Date.now() - new Date(participant.last_seen).getTime();
-    if (diff < 60 * 60 * 1000) return `Active ${Math.floor(diff / 60000)}m ago`;
-    if (diff < 24 * 60 * 60 * 1000) return `Active ${Math.floor(diff / 3600000)}h ago`;
-    return formatDistanceToNow(new Date(participant.last_seen), { addSuffix: true });
+  const getTypingText = () => {
+    if (!isGroup) return 'typing…';
+    if (typingMembers.length === 1) return `${typingMembers[0].username} is typing…`;
+    return 'Several people are typing…';
   };
 
+  const getHeaderStatus = () => {
+    if (isTyping) return getTypingText();
+    if (isGroup) {
+      const activeCount = otherMembers.filter(m => getActivityStatus(m.id).state === 'online').length;
+      return `${conversation.members.length} members${activeCount > 0 ? ` · ${activeCount} active` : ''}`;
+    }
+    return activity?.text;
+  };
+
+  const handleOpenDetails = () => {
+    if (isGroup) {
+      setDetailsOpen(true);
+    } else if (participant) {
+      navigate(`/profile/${participant.username}`);
+    }
+  };
+
+  if (conversationMissing) {
+    return (
+      <div className="flex-1 flex items-center justify-center h-screen text-muted-foreground">
+        This conversation isn't available
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="flex-1 flex items-center justify-center h-screen text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
   const groupMessagesByDate = () => {
-    const groups: { date: string; messages: Message[] }[] = [];
+    const groups: { date: string; messages: ChatMessage[] }[] = [];
     let currentDate = '';
 
     messages.forEach(msg => {
@@ -177,76 +653,88 @@ const ChatArea: React.FC<ChatAreaProps> = ({ conversationId, participant }) => {
   };
 
   return (
-    <div className="flex-1 flex flex-col h-screen bg-background">
+    <div
+      className="flex-1 flex flex-col h-screen bg-background relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-20 m-4 flex items-center justify-center rounded-2xl border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+          <p className="font-medium">Drop files to send</p>
+        </div>
+      )}
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-card">
         <div className="flex items-center gap-3">
           <div className="relative">
-            <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
-              {participant.avatar_url ? (
-                <img 
-                  src={participant.avatar_url} 
-                  alt={participant.username}
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <User className="w-5 h-5 text-muted-foreground" />
-              )}
-            </div>
-            {isOnline() && (
+            <ConversationAvatar conversation={conversation} myProfileId={profile?.id} className="w-10 h-10" />
+            {activity?.state === 'online' && (
               <div className="absolute bottom-0 right-0 online-indicator" />
             )}
           </div>
           <div>
-            <h3 className="font-semibold">{participant.display_name}</h3>
+            <h3 className="font-semibold">{getConversationTitle(conversation, profile?.id)}</h3>
             <p className={cn(
               'text-xs',
-              isOnline() ? 'text-active' : 'text-muted-foreground'
+              isTyping || activity?.state === 'online' ? 'text-active' : 'text-muted-foreground'
             )}>
-              {getStatusText()}
+              {getHeaderStatus()}
             </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <button className="p-2 hover:bg-accent rounded-full transition-colors" aria-label="Jump to date">
+                <CalendarDays className="w-5 h-5" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-auto p-0 bg-card">
+              <Calendar
+                mode="single"
+                selected={anchor ? new Date(anchor) : undefined}
+                onSelect={jumpToDate}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
           <button className="p-2 hover:bg-accent rounded-full transition-colors">
             <Phone className="w-5 h-5" />
           </button>
           <button className="p-2 hover:bg-accent rounded-full transition-colors">
             <Video className="w-5 h-5" />
           </button>
-          <button className="p-2 hover:bg-accent rounded-full transition-colors">
+          <button onClick={handleOpenDetails} className="p-2 hover:bg-accent rounded-full transition-colors">
             <Info className="w-5 h-5" />
           </button>
         </div>
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 scrollbar-thin">
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 scrollbar-thin">
         {isLoading ? (
           <div className="flex items-center justify-center h-full text-muted-foreground">
             Loading messages...
           </div>
         ) : messages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-center">
-            <div className="w-20 h-20 rounded-full bg-muted flex items-center justify-center mb-4">
-              {participant.avatar_url ? (
-                <img 
-                  src={participant.avatar_url} 
-                  alt={participant.username}
-                  className="w-full h-full object-cover rounded-full"
-                />
-              ) : (
-                <User className="w-10 h-10 text-muted-foreground" />
-              )}
-            </div>
-            <h4 className="font-semibold text-lg">{participant.display_name}</h4>
-            <p className="text-muted-foreground text-sm">@{participant.username}</p>
+            <ConversationAvatar conversation={conversation} myProfileId={profile?.id} className="w-20 h-20 mb-4" />
+            <h4 className="font-semibold text-lg">{getConversationTitle(conversation, profile?.id)}</h4>
+            <p className="text-muted-foreground text-sm">
+              {participant ? `@${participant.username}` : `${conversation.members.length} members`}
+            </p>
             <p className="text-muted-foreground text-sm mt-2">
               Send a message to start the conversation
             </p>
           </div>
         ) : (
           <>
+            <div ref={olderSentinelRef} />
+            {isFetchingOlder && (
+              <p className="text-xs text-muted-foreground text-center py-2">Loading earlier messages...</p>
+            )}
             {groupMessagesByDate().map(group => (
               <div key={group.date}>
                 <div className="flex items-center justify-center my-4">
@@ -258,95 +746,316 @@ const ChatArea: React.FC<ChatAreaProps> = ({ conversationId, participant }) => {
                   const isSent = msg.sender_id === profile?.id;
                   const showTime = idx === group.messages.length - 1 || 
                     group.messages[idx + 1]?.sender_id !== msg.sender_id;
+                  // In groups, label each run of messages from someone else
+                  const showSender = isGroup && !isSent &&
+                    (idx === 0 || group.messages[idx - 1].sender_id !== msg.sender_id || group.messages[idx - 1].message_type === 'system');
+
+                  if (msg.message_type === 'system') {
+                    return (
+                      <p key={msg.id} className="text-xs text-muted-foreground text-center my-3 px-8">
+                        {msg.content}
+                      </p>
+                    );
+                  }
+
+                  const myReaction = msg.reactions.find(r => r.profile_id === profile?.id)?.emoji;
 
                   return (
-                    <div
-                      key={msg.id}
-                      className={cn(
-                        'flex mb-1',
-                        isSent ? 'justify-end' : 'justify-start'
+                    <React.Fragment key={msg.id}>
+                      {msg.id === firstUnreadId && (
+                        <div className="flex items-center gap-3 my-4 text-xs font-medium text-primary">
+                          <div className="flex-1 h-px bg-primary/40" />
+                          New messages
+                          <div className="flex-1 h-px bg-primary/40" />
+                        </div>
                       )}
-                    >
-                      <div className={cn(
-                        'max-w-[70%]',
-                        isSent ? 'items-end' : 'items-start'
-                      )}>
-                        <div className={cn(
-                          'px-4 py-2',
-                          isSent ? 'message-bubble-sent' : 'message-bubble-received'
-                        )}>
-                          {msg.message_type === 'image' && msg.file_url && (
-                            <img 
-                              src={msg.file_url} 
-                              alt="Shared image"
-                              className="max-w-full rounded-lg mb-1"
-                            />
-                          )}
-                          {msg.content && (
-                            <p className="text-sm break-words">{msg.content}</p>
+                      <SwipeableMessage
+                        onSwipeReply={() => startReply(msg)}
+                        onLongPress={() => setReactingToId(msg.id)}
+                      >
+                        <div
+                          id={`message-${msg.id}`}
+                          className={cn(
+                            'flex items-center gap-1 mb-1 group',
+                            isSent ? 'flex-row-reverse' : 'flex-row'
                           )}
-                        </div>
-                        {showTime && (
+                        >
                           <div className={cn(
-                            'flex items-center gap-1 mt-1 px-2',
-                            isSent ? 'justify-end' : 'justify-start'
+                            'max-w-[70%] flex flex-col',
+                            isSent ? 'items-end' : 'items-start'
                           )}>
-                            <span className="text-[10px] text-muted-foreground">
-                              {format(new Date(msg.created_at), 'h:mm a')}
-                            </span>
-                            {isSent && (
-                              msg.is_read ? (
-                                <CheckCheck className="w-3 h-3 text-primary" />
-                              ) : (
-                                <Check className="w-3 h-3 text-muted-foreground" />
-                              )
+                            {showSender && (
+                              <p className="text-xs text-muted-foreground px-3 mb-0.5">
+                                {getMemberName(msg.sender_id)}
+                              </p>
+                            )}
+                            {msg.reply_to && (
+                              <button
+                                onClick={() => scrollToMessage(msg.reply_to.id)}
+                                className={cn('flex flex-col max-w-full mb-0.5 text-left', isSent ? 'items-end' : 'items-start')}
+                              >
+                                <span className="text-[11px] text-muted-foreground px-3 mb-0.5">{getReplyLabel(msg)}</span>
+                                <span className="text-xs text-muted-foreground bg-secondary rounded-2xl px-3 py-1.5 line-clamp-2 break-words opacity-80">
+                                  {getMessageSummary(msg.reply_to, false)}
+                                </span>
+                              </button>
+                            )}
+                            {isShareMessage(msg.message_type) && (
+                              <div className={cn(msg.content && 'mb-1')}>
+                                <SharedContentCard
+                                  messageType={msg.message_type}
+                                  post={msg.shared_post}
+                                  story={msg.shared_story}
+                                  profile={msg.shared_profile}
+                                  isSent={isSent}
+                                />
+                              </div>
+                            )}
+                            {(!isShareMessage(msg.message_type) || msg.content) && (
+                              <div className={cn(
+                                'px-4 py-2',
+                                isSent ? 'message-bubble-sent' : 'message-bubble-received'
+                              )}>
+                                {msg.message_type === 'audio' && msg.file_url && (
+                                  <VoiceMessagePlayer
+                                    url={getAttachmentUrl(msg.file_url)}
+                                    duration={msg.media_duration}
+                                    waveform={msg.waveform}
+                                    isSent={isSent}
+                                  />
+                                )}
+                                {isAttachmentMessage(msg.message_type) && msg.message_type !== 'audio' && msg.file_url && (
+                                  <MessageAttachment
+                                    messageType={msg.message_type}
+                                    url={getAttachmentUrl(msg.file_url)}
+                                    fileName={msg.file_name}
+                                    fileSize={msg.file_size}
+                                    isSent={isSent}
+                                  />
+                                )}
+                                {msg.content && (
+                                  <p className="text-sm break-words">
+                                    <RichText text={msg.content} linkClassName={isSent ? 'text-inherit underline' : undefined} />
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                            <MessageReactions
+                              reactions={msg.reactions}
+                              myProfileId={profile?.id}
+                              isSent={isSent}
+                              getName={getMemberName}
+                              onToggle={emoji => reactMutation.mutate({ msg, emoji })}
+                            />
+                            {(showTime || msg.edited_at) && (
+                              <div className={cn(
+                                'flex items-center gap-1 mt-1 px-2',
+                                isSent ? 'justify-end' : 'justify-start'
+                              )}>
+                                {msg.edited_at && (
+                                  <span className="text-[10px] text-muted-foreground">Edited{showTime && ' ·'}</span>
+                                )}
+                                {showTime && (
+                                  <span className="text-[10px] text-muted-foreground">
+                                    {format(new Date(msg.created_at), 'h:mm a')}
+                                  </span>
+                                )}
+                                {showTime && isSent && (
+                                  getSeenBy(msg).length > 0 ? (
+                                    <CheckCheck className="w-3 h-3 text-primary" />
+                                  ) : (
+                                    <Check className="w-3 h-3 text-muted-foreground" />
+                                  )
+                                )}
+                              </div>
+                            )}
+                            {msg.id === lastSentMessageId && getSeenLabel(msg) && (
+                              <p className="text-[10px] text-muted-foreground text-right px-2 mt-0.5">
+                                {getSeenLabel(msg)}
+                              </p>
                             )}
                           </div>
-                        )}
-                      </div>
-                    </div>
+                          <MessageActions
+                            isSent={isSent}
+                            myReaction={myReaction}
+                            pickerOpen={reactingToId === msg.id}
+                            onPickerOpenChange={open => setReactingToId(open ? msg.id : null)}
+                            onReact={emoji => reactMutation.mutate({ msg, emoji })}
+                            onReply={() => startReply(msg)}
+                            onCopy={msg.content ? () => copyMessage(msg) : undefined}
+                            onEdit={isSent && canEditMessage(msg) ? () => startEdit(msg) : undefined}
+                            onUnsend={isSent ? () => unsendMutation.mutate(msg) : undefined}
+                          />
+                        </div>
+                      </SwipeableMessage>
+                    </React.Fragment>
                   );
                 })}
               </div>
             ))}
+            {isFetchingNewer && (
+              <p className="text-xs text-muted-foreground text-center py-2">Loading newer messages...</p>
+            )}
+            <div ref={newerSentinelRef} />
+            {isTyping && !hasNewer && (
+              <div className="flex justify-start mb-1">
+                <div className="message-bubble-received px-4 py-3 flex items-center gap-1" aria-label={getTypingText()}>
+                  {[0, 150, 300].map(delay => (
+                    <span
+                      key={delay}
+                      className="w-1.5 h-1.5 rounded-full bg-muted-foreground animate-bounce"
+                      style={{ animationDelay: `${delay}ms` }}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
             <div ref={messagesEndRef} />
+            {(hasNewer || !isNearBottom) && (
+              <div className="sticky bottom-0 flex justify-center pointer-events-none">
+                <button
+                  onClick={jumpToLatest}
+                  className="pointer-events-auto flex items-center gap-1 px-3 py-1.5 rounded-full bg-card border border-border shadow-md text-xs font-medium hover:bg-accent transition-colors"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                  Jump to latest
+                </button>
+              </div>
+            )}
           </>
         )}
       </div>
 
       {/* Input */}
       <form onSubmit={handleSend} className="p-4 border-t border-border bg-card">
-        <div className="flex items-center gap-2">
-          <button type="button" className="p-2 hover:bg-accent rounded-full transition-colors">
-            <Smile className="w-5 h-5 text-muted-foreground" />
-          </button>
-          <div className="flex-1 relative">
-            <Input
-              value={message}
-              onChange={e => setMessage(e.target.value)}
-              placeholder="Message..."
-              className="bg-secondary border-0 pr-20"
-            />
-            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
-              <button type="button" className="p-1 hover:bg-accent rounded transition-colors">
-                <ImageIcon className="w-5 h-5 text-muted-foreground" />
-              </button>
-              <button type="button" className="p-1 hover:bg-accent rounded transition-colors">
-                <Paperclip className="w-5 h-5 text-muted-foreground" />
-              </button>
+        {(replyingTo || editingMessage) && (
+          <div className="flex items-center gap-3 mb-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">
+                {editingMessage
+                  ? 'Editing message'
+                  : `Replying to ${replyingTo.sender_id === profile?.id ? 'yourself' : getMemberName(replyingTo.sender_id)}`}
+              </p>
+              {replyingTo && (
+                <p className="text-xs text-muted-foreground truncate">{getMessageSummary(replyingTo, false)}</p>
+              )}
             </div>
+            <button
+              type="button"
+              onClick={() => (editingMessage ? cancelEdit() : setReplyingTo(null))}
+              className="p-1 hover:bg-accent rounded-full transition-colors"
+              aria-label="Cancel"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {uploads.length > 0 && (
+          <div className="space-y-2 mb-3">
+            {uploads.map(upload => (
+              <div key={upload.id} className="flex items-center gap-3 text-sm">
+                <span className="truncate flex-1 min-w-0">{upload.name}</span>
+                <Progress value={upload.progress} className="h-1.5 w-32" />
+                <span className="w-9 text-right text-xs text-muted-foreground">{upload.progress}%</span>
+              </div>
+            ))}
           </div>
+        )}
+        <input
+          ref={mediaInputRef}
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+        <div className="flex items-center gap-2">
+          {voiceRecorder.isRecording ? (
+            <div className="flex-1 flex items-center gap-3 h-10 px-3 rounded-md bg-secondary">
+              <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse flex-shrink-0" />
+              <span className="text-sm tabular-nums w-10">{formatDuration(voiceRecorder.duration)}</span>
+              <div className="flex-1 flex items-center justify-end gap-[2px] h-6 overflow-hidden">
+                {voiceRecorder.levels.map((level, idx) => (
+                  <div key={idx} className="w-1 rounded-full bg-primary" style={{ height: `${Math.max(level, 0.08) * 100}%` }} />
+                ))}
+              </div>
+              <span className="hidden sm:inline text-xs text-muted-foreground">Release to send, slide away to cancel</span>
+            </div>
+          ) : (
+            <>
+              <button type="button" className="p-2 hover:bg-accent rounded-full transition-colors">
+                <Smile className="w-5 h-5 text-muted-foreground" />
+              </button>
+              <div className="flex-1 relative">
+                <MentionInput
+                  value={message}
+                  onValueChange={value => {
+                    setMessage(value);
+                    if (value.trim()) {
+                      notifyTyping();
+                    } else {
+                      stopTyping();
+                    }
+                  }}
+                  onPaste={handlePaste}
+                  suggestionsPosition="above"
+                  placeholder="Message..."
+                  className="bg-secondary border-0 pr-20"
+                />
+                <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => mediaInputRef.current?.click()}
+                    className="p-1 hover:bg-accent rounded transition-colors"
+                    aria-label="Send photo or video"
+                  >
+                    <ImageIcon className="w-5 h-5 text-muted-foreground" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-1 hover:bg-accent rounded transition-colors"
+                    aria-label="Send file"
+                  >
+                    <Paperclip className="w-5 h-5 text-muted-foreground" />
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
           {message.trim() ? (
-            <Button type="submit" size="icon" disabled={sendMessageMutation.isPending}>
-              <Send className="w-5 h-5" />
+            <Button type="submit" size="icon" disabled={sendMessageMutation.isPending || editMessageMutation.isPending}>
+              {editingMessage ? <Check className="w-5 h-5" /> : <Send className="w-5 h-5" />}
             </Button>
           ) : (
-            <button type="button" className="p-2 hover:bg-accent rounded-full transition-colors">
-              <Mic className="w-5 h-5 text-muted-foreground" />
+            <button
+              type="button"
+              onPointerDown={handleRecordStart}
+              onPointerUp={handleRecordEnd}
+              onPointerCancel={() => voiceRecorder.cancel()}
+              onContextMenu={e => e.preventDefault()}
+              className={cn(
+                'p-2 rounded-full transition-colors touch-none select-none',
+                voiceRecorder.isRecording ? 'bg-destructive text-destructive-foreground scale-110' : 'hover:bg-accent text-muted-foreground'
+              )}
+              aria-label="Hold to record a voice message"
+            >
+              <Mic className="w-5 h-5" />
             </button>
           )}
         </div>
       </form>
+
+      {isGroup && (
+        <GroupDetailsDialog open={detailsOpen} onOpenChange={setDetailsOpen} conversation={conversation} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,45 @@
+import React from 'react';
+import { User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getOtherMembers, type ConversationDetails } from '@/lib/conversations';
+
+interface ConversationAvatarProps {
+  conversation: ConversationDetails;
+  myProfileId: string | undefined;
+  // Tailwind size classes for the outer box, e.g. "w-14 h-14"
+  className?: string;
+}
+
+const AvatarImage: React.FC<{ url: string | null; alt: string; className?: string }> = ({ url, alt, className }) => (
+  <div className={cn('rounded-full bg-muted flex items-center justify-center overflow-hidden', className)}>
+    {url ? (
+      <img src={url} alt={alt} className="w-full h-full object-cover" />
+    ) : (
+      <User className="w-1/2 h-1/2 text-muted-foreground" />
+    )}
+  </div>
+);
+
+// Group photo, or two overlapping member avatars for groups without one
+const ConversationAvatar: React.FC<ConversationAvatarProps> = ({ conversation, myProfileId, className = 'w-10 h-10' }) => {
+  const others = getOtherMembers(conversation, myProfileId);
+
+  if (!conversation.is_group || conversation.avatar_url) {
+    const url = conversation.is_group ? conversation.avatar_url : others[0]?.avatar_url ?? null;
+    return <AvatarImage url={url} alt={conversation.name || others[0]?.username || ''} className={className} />;
+  }
+
+  const [first, second] = others;
+  return (
+    <div className={cn('relative flex-shrink-0', className)}>
+      <AvatarImage url={first?.avatar_url ?? null} alt={first?.username || ''} className="absolute top-0 right-0 w-[70%] h-[70%]" />
+      <AvatarImage
+        url={second?.avatar_url ?? null}
+        alt={second?.username || ''}
+        className="absolute bottom-0 left-0 w-[70%] h-[70%] ring-2 ring-card"
+      />
+    </div>
+  );
+};
+
+export default ConversationAvatar;
@@ -1,22 +1,25 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence } from '@/contexts/PresenceContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
-import { User, Search, Edit } from 'lucide-react';
+import { Search, Edit } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import { getMessageSummary } from '@/lib/messages';
+import {
+  CONVERSATION_DETAILS_SELECT,
+  getConversationTitle,
+  getOtherMembers,
+  toConversationDetails,
+  type ConversationDetails,
+} from '@/lib/conversations';
+import ConversationAvatar from './ConversationAvatar';
+import MessageRequestsList from './MessageRequestsList';
 
-interface Conversation {
-  id: string;
+interface Conversation extends ConversationDetails {
   updated_at: string;
-  participant: {
-    id: string;
-    username: string;
-    display_name: string;
-    avatar_url: string | null;
-    last_seen: string;
-  };
   lastMessage: {
     content: string | null;
     message_type: string;
@@ -28,13 +31,15 @@ interface Conversation {
 
 interface ConversationListProps {
   selectedId: string | null;
-  onSelect: (id: string, participant: Conversation['participant']) => void;
+  onSelect: (id: string) => void;
   onNewConversation: () => void;
 }
 
 const ConversationList: React.FC<ConversationListProps> = ({ selectedId, onSelect, onNewConversation }) => {
   const { profile } = useAuth();
+  const { getPresence } = usePresence();
   const [search, setSearch] = React.useState('');
+  const [showRequests, setShowRequests] = React.useState(false);
 
   const { data: conversations = [], isLoading } = useQuery({
     queryKey: ['conversations', profile?.id],
@@ -46,36 +51,40 @@ const ConversationList: React.FC<ConversationListProps> = ({ selectedId, onSelec
         .select(`
           conversation_id,
           conversations!inner (
-            id,
-            updated_at
+            updated_at,
+            ${CONVERSATION_DETAILS_SELECT}
           )
         `)
         .eq('profile_id', profile.id);
 
       if (!participantData || participantData.length === 0) return [];
 
-      const conversationIds = participantData.map(p => p.conversation_id);
+      // Conversations started by a message request stay in Requests until accepted
+      const { data: incomingRequests } = await supabase
+        .from('message_requests')
+        .select('conversation_id')
+        .eq('receiver_id', profile.id)
+        .neq('status', 'accepted');
+
+      const requestConversationIds = new Set((incomingRequests || []).map(r => r.conversation_id));
+
+      const { data: reads } = await supabase
+        .from('conversation_reads')
+        .select('conversation_id, last_read_at')
+        .eq('profile_id', profile.id);
+
+      const lastReadAt = new Map((reads || []).map(r => [r.conversation_id, r.last_read_at]));
+      const conversationIds = participantData
+        .map(p => p.conversation_id)
+        .filter(id => !requestConversationIds.has(id));
 
       const conversationsWithDetails: Conversation[] = [];
 
       for (const convId of conversationIds) {
-        // Get other participant
-        const { data: otherParticipant } = await supabase
-          .from('conversation_participants')
-          .select(`
-            profiles (
-              id,
-              username,
-              display_name,
-              avatar_url,
-              last_seen
-            )
-          `)
-          .eq('conversation_id', convId)
-          .neq('profile_id', profile.id)
-          .single();
+        const conv = participantData.find(p => p.conversation_id === convId);
+        const details = toConversationDetails(conv.conversations);
 
-        if (!otherParticipant?.profiles) continue;
+        if (!details.is_group && getOtherMembers(details, profile.id).length === 0) continue;
 
         // Get last message
         const { data: lastMsg } = await supabase
@@ -86,20 +95,20 @@ const ConversationList: React.FC<ConversationListProps> = ({ selectedId, onSelec
           .limit(1)
           .maybeSingle();
 
-        // Get unread count
-        const { count } = await supabase
+        // Get unread count: messages from others since we last read the conversation
+        let unreadQuery = supabase
           .from('messages')
           .select('*', { count: 'exact', head: true })
           .eq('conversation_id', convId)
-          .eq('is_read', false)
           .neq('sender_id', profile.id);
-
-        const conv = participantData.find(p => p.conversation_id === convId);
+        if (lastReadAt.has(convId)) {
+          unreadQuery = unreadQuery.gt('created_at', lastReadAt.get(convId));
+        }
+        const { count } = await unreadQuery;
 
         conversationsWithDetails.push({
-          id: convId,
-          updated_at: (conv?.conversations as any)?.updated_at || '',
-          participant: otherParticipant.profiles as any,
+          ...details,
+          updated_at: conv.conversations.updated_at || '',
           lastMessage: lastMsg,
           unreadCount: count || 0,
         });
@@ -113,34 +122,43 @@ const ConversationList: React.FC<ConversationListProps> = ({ selectedId, onSelec
     refetchInterval: 5000,
   });
 
-  const filteredConversations = conversations.filter(conv =>
-    conv.participant.username.toLowerCase().includes(search.toLowerCase()) ||
-    conv.participant.display_name.toLowerCase().includes(search.toLowerCase())
-  );
+  const { data: requestsCount = 0 } = useQuery({
+    queryKey: ['message-requests', profile?.id, 'count'],
+    queryFn: async () => {
+      if (!profile?.id) return 0;
+      const { count } = await supabase
+        .from('message_requests')
+        .select('*', { count: 'exact', head: true })
+        .eq('receiver_id', profile.id)
+        .eq('status', 'pending');
+      return count || 0;
+    },
+    enabled: !!profile?.id,
+    refetchInterval: 5000,
+  });
 
-  const isOnline = (lastSeen: string) => {
-    const diff = Date.now() - new Date(lastSeen).getTime();
-    return diff < 5 * 60 * 1000; // 5 minutes
-  };
+  const filteredConversations = conversations.filter(conv => {
+    const term = search.toLowerCase();
+    return (
+      getConversationTitle(conv, profile?.id).toLowerCase().includes(term) ||
+      getOtherMembers(conv, profile?.id).some(m =>
+        m.username.toLowerCase().includes(term) || m.display_name.toLowerCase().includes(term)
+      )
+    );
+  });
 
-  const getLastSeenText = (lastSeen: string) => {
-    const diff = Date.now() - new Date(lastSeen).getTime();
-    if (diff < 5 * 60 * 1000) return 'Active now';
-    if (diff < 60 * 60 * 1000) return `Active ${Math.floor(diff / 60000)}m ago`;
-    if (diff < 24 * 60 * 60 * 1000) return `Active ${Math.floor(diff / 3600000)}h ago`;
-    return formatDistanceToNow(new Date(lastSeen), { addSuffix: true });
-  };
+  // 1:1 conversations show the other person's presence; groups show their size
+  const isOtherOnline = (conv: Conversation) =>
+    !conv.is_group && getPresence(getOtherMembers(conv, profile?.id)[0]?.id) === 'online';
 
   const getMessagePreview = (conv: Conversation) => {
     if (!conv.lastMessage) return 'No messages yet';
-    if (conv.lastMessage.message_type === 'image') {
-      return conv.lastMessage.sender_id === profile?.id ? 'You sent a photo' : 'Sent a photo';
-    }
-    if (conv.lastMessage.message_type === 'file') {
-      return conv.lastMessage.sender_id === profile?.id ? 'You sent a file' : 'Sent a file';
-    }
-    const prefix = conv.lastMessage.sender_id === profile?.id ? 'You: ' : '';
-    return prefix + (conv.lastMessage.content || '');
+    const isOwn = conv.lastMessage.sender_id === profile?.id;
+    const summary = getMessageSummary(conv.lastMessage, isOwn);
+    if (!conv.is_group || isOwn || conv.lastMessage.message_type === 'system') return summary;
+
+    const sender = conv.members.find(m => m.id === conv.lastMessage.sender_id);
+    return sender ? `${sender.username}: ${summary}` : summary;
   };
 
   return (
@@ -166,76 +184,85 @@ const ConversationList: React.FC<ConversationListProps> = ({ selectedId, onSelec
         </div>
       </div>
 
-      <div className="flex items-center justify-between px-4 py-2">
-        <span className="font-semibold text-sm">Messages</span>
-        <button className="text-muted-foreground text-sm hover:text-foreground">
-          Requests
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-y-auto scrollbar-thin">
-        {isLoading ? (
-          <div className="p-4 text-center text-muted-foreground">
-            Loading...
-          </div>
-        ) : filteredConversations.length === 0 ? (
-          <div className="p-4 text-center text-muted-foreground">
-            {search ? 'No conversations found' : 'No messages yet'}
-          </div>
-        ) : (
-          filteredConversations.map(conv => (
-            <div
-              key={conv.id}
-              onClick={() => onSelect(conv.id, conv.participant)}
+      {showRequests ? (
+        <MessageRequestsList
+          selectedId={selectedId}
+          onSelect={onSelect}
+          onBack={() => setShowRequests(false)}
+        />
+      ) : (
+        <>
+          <div className="flex items-center justify-between px-4 py-2">
+            <span className="font-semibold text-sm">Messages</span>
+            <button
+              onClick={() => setShowRequests(true)}
               className={cn(
-                'conversation-item',
-                selectedId === conv.id && 'conversation-item-active'
+                'text-sm hover:text-foreground',
+                requestsCount > 0 ? 'text-primary font-medium' : 'text-muted-foreground'
               )}
             >
-              <div className="relative">
-                <div className="w-14 h-14 rounded-full bg-muted flex items-center justify-center overflow-hidden">
-                  {conv.participant.avatar_url ? (
-                    <img 
-                      src={conv.participant.avatar_url} 
-                      alt={conv.participant.username}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <User className="w-6 h-6 text-muted-foreground" />
-                  )}
-                </div>
-                {isOnline(conv.participant.last_seen) && (
-                  <div className="absolute bottom-0 right-0 online-indicator" />
-                )}
+              Requests{requestsCount > 0 && ` (${requestsCount})`}
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto scrollbar-thin">
+            {isLoading ? (
+              <div className="p-4 text-center text-muted-foreground">
+                Loading...
               </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center justify-between">
-                  <span className="font-medium truncate">{conv.participant.display_name}</span>
-                  {conv.lastMessage && (
-                    <span className="text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(conv.lastMessage.created_at), { addSuffix: false })}
-                    </span>
-                  )}
-                </div>
-                <div className="flex items-center gap-2">
-                  <p className={cn(
-                    'text-sm truncate',
-                    conv.unreadCount > 0 ? 'text-foreground font-medium' : 'text-muted-foreground'
-                  )}>
-                    {getMessagePreview(conv)}
-                  </p>
-                  {conv.unreadCount > 0 && (
-                    <span className="w-2 h-2 bg-primary rounded-full flex-shrink-0" />
+            ) : filteredConversations.length === 0 ? (
+              <div className="p-4 text-center text-muted-foreground">
+                {search ? 'No conversations found' : 'No messages yet'}
+              </div>
+            ) : (
+              filteredConversations.map(conv => (
+                <div
+                  key={conv.id}
+                  onClick={() => onSelect(conv.id)}
+                  className={cn(
+                    'conversation-item',
+                    selectedId === conv.id && 'conversation-item-active'
                   )}
+                >
+                  <div className="relative">
+                    <ConversationAvatar conversation={conv} myProfileId={profile?.id} className="w-14 h-14" />
+                    {isOtherOnline(conv) && (
+                      <div className="absolute bottom-0 right-0 online-indicator" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium truncate">{getConversationTitle(conv, profile?.id)}</span>
+                      {conv.lastMessage && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(conv.lastMessage.created_at), { addSuffix: false })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <p className={cn(
+                        'text-sm truncate',
+                        conv.unreadCount > 0 ? 'text-foreground font-medium' : 'text-muted-foreground'
+                      )}>
+                        {getMessagePreview(conv)}
+                      </p>
+                      {conv.unreadCount > 0 && (
+                        <span className="w-2 h-2 bg-primary rounded-full flex-shrink-0" />
+                      )}
+                    </div>
+                    {isOtherOnline(conv) && (
+                      <p className="text-xs text-active">Active now</p>
+                    )}
+                    {conv.is_group && (
+                      <p className="text-xs text-muted-foreground">{conv.members.length} members</p>
+                    )}
+                  </div>
                 </div>
-                {isOnline(conv.participant.last_seen) && (
-                  <p className="text-xs text-active">Active now</p>
-                )}
-              </div>
-            </div>
-          ))
-        )}
-      </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { User, Search, MoreHorizontal, UserPlus, LogOut } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import ImageUpload from '@/components/profile/ImageUpload';
+import {
+  MAX_GROUP_SIZE,
+  isConversationAdmin,
+  type ConversationDetails,
+  type ConversationRole,
+} from '@/lib/conversations';
+
+interface GroupDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: ConversationDetails;
+}
+
+const GroupDetailsDialog: React.FC<GroupDetailsDialogProps> = ({ open, onOpenChange, conversation }) => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState(conversation.name || '');
+  const [addSearch, setAddSearch] = useState('');
+  const [showAdd, setShowAdd] = useState(false);
+  const isAdmin = isConversationAdmin(conversation, profile?.id);
+  const memberIds = new Set(conversation.members.map(m => m.id));
+
+  useEffect(() => {
+    setName(conversation.name || '');
+  }, [conversation.name]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['conversation', conversation.id] });
+    queryClient.invalidateQueries({ queryKey: ['messages', conversation.id] });
+    queryClient.invalidateQueries({ queryKey: ['conversations'] });
+  };
+
+  const onError = (error: Error) =>
+    toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' });
+
+  const { data: candidates = [], isLoading: candidatesLoading } = useQuery({
+    queryKey: ['search-users', addSearch],
+    queryFn: async () => {
+      if (!addSearch.trim() || !profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, display_name, avatar_url')
+        .neq('id', profile.id)
+        .or(`username.ilike.%${addSearch}%,display_name.ilike.%${addSearch}%`)
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: showAdd && !!addSearch.trim() && !!profile?.id,
+  });
+
+  const updateDetailsMutation = useMutation({
+    mutationFn: async (updates: { name?: string; avatarUrl?: string | null }) => {
+      const { error } = await supabase.rpc('update_group_details', {
+        _conversation_id: conversation.id,
+        _name: updates.name ?? conversation.name ?? '',
+        _avatar_url: updates.avatarUrl !== undefined ? updates.avatarUrl : conversation.avatar_url,
+      });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (profileId: string) => {
+      const { error } = await supabase.rpc('add_group_members', {
+        _conversation_id: conversation.id,
+        _member_ids: [profileId],
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setAddSearch('');
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (profileId: string) => {
+      const { error } = await supabase.rpc('remove_group_member', {
+        _conversation_id: conversation.id,
+        _profile_id: profileId,
+      });
+      if (error) throw error;
+      return profileId;
+    },
+    onSuccess: (profileId) => {
+      if (profileId === profile?.id) {
+        queryClient.invalidateQueries({ queryKey: ['conversations'] });
+        onOpenChange(false);
+        navigate('/messages');
+        toast({ title: 'You left the group' });
+        return;
+      }
+      invalidate();
+    },
+    onError,
+  });
+
+  const setRoleMutation = useMutation({
+    mutationFn: async ({ profileId, role }: { profileId: string; role: ConversationRole }) => {
+      const { error } = await supabase.rpc('set_group_role', {
+        _conversation_id: conversation.id,
+        _profile_id: profileId,
+        _role: role,
+      });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const handleSaveName = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() === (conversation.name || '')) return;
+    updateDetailsMutation.mutate({ name: name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card max-w-md max-h-[85vh] overflow-y-auto scrollbar-thin">
+        <DialogHeader>
+          <DialogTitle className="text-center">Details</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3">
+          {isAdmin ? (
+            <ImageUpload
+              currentUrl={conversation.avatar_url}
+              size="md"
+              storageName={`groups/${conversation.id}`}
+              cropTitle="Crop group photo"
+              successMessage="Group photo updated"
+              onUploadComplete={url => updateDetailsMutation.mutate({ avatarUrl: url })}
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+              {conversation.avatar_url ? (
+                <img src={conversation.avatar_url} alt={conversation.name || 'Group'} className="w-full h-full object-cover" />
+              ) : (
+                <User className="w-10 h-10 text-muted-foreground" />
+              )}
+            </div>
+          )}
+
+          {isAdmin ? (
+            <form onSubmit={handleSaveName} className="w-full flex gap-2">
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Group name"
+                maxLength={100}
+                className="bg-secondary border-0"
+              />
+              <Button
+                type="submit"
+                variant="secondary"
+                disabled={name.trim() === (conversation.name || '') || updateDetailsMutation.isPending}
+              >
+                Save
+              </Button>
+            </form>
+          ) : (
+            <p className="font-semibold">{conversation.name || 'Group'}</p>
+          )}
+        </div>
+
+        <div className="mt-2">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-sm">
+              Members <span className="text-muted-foreground font-normal">{conversation.members.length}</span>
+            </h4>
+            {isAdmin && conversation.members.length < MAX_GROUP_SIZE && (
+              <button
+                onClick={() => setShowAdd(prev => !prev)}
+                className="flex items-center gap-1 text-sm text-primary font-medium"
+              >
+                <UserPlus className="w-4 h-4" />
+                Add people
+              </button>
+            )}
+          </div>
+
+          {showAdd && (
+            <div className="mb-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={addSearch}
+                  onChange={e => setAddSearch(e.target.value)}
+                  placeholder="Search..."
+                  className="pl-9 bg-secondary border-0"
+                  autoFocus
+                />
+              </div>
+              {candidatesLoading ? (
+                <p className="p-3 text-sm text-center text-muted-foreground">Searching...</p>
+              ) : (
+                candidates.map(user => (
+                  <div key={user.id} className="flex items-center gap-3 p-2">
+                    <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                      {user.avatar_url ? (
+                        <img src={user.avatar_url} alt={user.username} className="w-full h-full object-cover" />
+                      ) : (
+                        <User className="w-4 h-4 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{user.display_name}</p>
+                      <p className="text-xs text-muted-foreground truncate">@{user.username}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={memberIds.has(user.id) ? 'secondary' : 'default'}
+                      disabled={memberIds.has(user.id) || addMemberMutation.isPending}
+                      onClick={() => addMemberMutation.mutate(user.id)}
+                    >
+                      {memberIds.has(user.id) ? 'Added' : 'Add'}
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          {conversation.members.map(member => (
+            <div key={member.id} className="flex items-center gap-3 p-2">
+              <button
+                onClick={() => {
+                  onOpenChange(false);
+                  navigate(`/profile/${member.username}`);
+                }}
+                className="flex items-center gap-3 flex-1 min-w-0 text-left"
+              >
+                <div className="w-11 h-11 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                  {member.avatar_url ? (
+                    <img src={member.avatar_url} alt={member.username} className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-5 h-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {member.display_name}
+                    {member.id === profile?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {member.role === 'admin' ? 'Admin' : `@${member.username}`}
+                  </p>
+                </div>
+              </button>
+              {isAdmin && member.id !== profile?.id && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button className="p-2 hover:bg-accent rounded-full transition-colors" aria-label="Member options">
+                      <MoreHorizontal className="w-4 h-4" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={() => setRoleMutation.mutate({
+                        profileId: member.id,
+                        role: member.role === 'admin' ? 'member' : 'admin',
+                      })}
+                    >
+                      {member.role === 'admin' ? 'Remove as admin' : 'Make admin'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => removeMemberMutation.mutate(member.id)}
+                      className="text-destructive"
+                    >
+                      Remove from group
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="ghost"
+          onClick={() => profile?.id && removeMemberMutation.mutate(profile.id)}
+          disabled={removeMemberMutation.isPending}
+          className="w-full text-destructive hover:text-destructive"
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          Leave group
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupDetailsDialog;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Smile, Reply, MoreHorizontal } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { QUICK_REACTIONS } from '@/lib/messages';
+
+interface MessageActionsProps {
+  isSent: boolean;
+  myReaction: string | undefined;
+  // The reaction picker is controlled so a long-press on the bubble can open it
+  pickerOpen: boolean;
+  onPickerOpenChange: (open: boolean) => void;
+  onReact: (emoji: string) => void;
+  onReply: () => void;
+  onCopy?: () => void;
+  onEdit?: () => void;
+  onUnsend?: () => void;
+}
+
+const MessageActions: React.FC<MessageActionsProps> = ({
+  isSent,
+  myReaction,
+  pickerOpen,
+  onPickerOpenChange,
+  onReact,
+  onReply,
+  onCopy,
+  onEdit,
+  onUnsend,
+}) => {
+  const hasMenu = !!(onCopy || onEdit || onUnsend);
+
+  return (
+    <div className={cn(
+      'flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity',
+      pickerOpen && 'opacity-100',
+      isSent ? 'flex-row-reverse' : 'flex-row'
+    )}>
+      <Popover open={pickerOpen} onOpenChange={onPickerOpenChange}>
+        <PopoverTrigger asChild>
+          <button className="p-1.5 hover:bg-accent rounded-full transition-colors" aria-label="React">
+            <Smile className="w-4 h-4 text-muted-foreground" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent side="top" align={isSent ? 'end' : 'start'} className="w-auto p-1.5 rounded-full bg-card">
+          <div className="flex items-center gap-1">
+            {QUICK_REACTIONS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onReact(emoji);
+                  onPickerOpenChange(false);
+                }}
+                className={cn(
+                  'w-9 h-9 text-xl rounded-full hover:bg-accent hover:scale-110 transition-transform',
+                  myReaction === emoji && 'bg-accent'
+                )}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+      <button onClick={onReply} className="p-1.5 hover:bg-accent rounded-full transition-colors" aria-label="Reply">
+        <Reply className="w-4 h-4 text-muted-foreground" />
+      </button>
+      {hasMenu && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="p-1.5 hover:bg-accent rounded-full transition-colors" aria-label="More">
+              <MoreHorizontal className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align={isSent ? 'end' : 'start'} className="bg-card">
+            {onCopy && <DropdownMenuItem onClick={onCopy}>Copy</DropdownMenuItem>}
+            {onEdit && <DropdownMenuItem onClick={onEdit}>Edit</DropdownMenuItem>}
+            {onUnsend && (
+              <DropdownMenuItem onClick={onUnsend} className="text-destructive">
+                Unsend
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+};
+
+export default MessageActions;
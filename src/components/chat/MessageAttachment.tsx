@@ -0,0 +1,55 @@
+import React from 'react';
+import { FileText, Download } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFileSize } from '@/lib/messages';
+
+interface MessageAttachmentProps {
+  messageType: string;
+  // Signed URL, or undefined while it is being fetched
+  url: string | undefined;
+  fileName: string | null;
+  fileSize: number | null;
+  isSent: boolean;
+}
+
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ messageType, url, fileName, fileSize, isSent }) => {
+  if (messageType === 'image' || messageType === 'video') {
+    if (!url) {
+      return <div className="w-48 h-48 rounded-lg bg-muted animate-pulse-soft mb-1" />;
+    }
+    return messageType === 'video' ? (
+      <video src={url} controls playsInline className="max-w-full max-h-80 rounded-lg mb-1" />
+    ) : (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <img src={url} alt={fileName || 'Shared image'} loading="lazy" className="max-w-full max-h-80 rounded-lg mb-1" />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      download={fileName || undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn(
+        'flex items-center gap-3 min-w-[12rem] py-1',
+        !url && 'pointer-events-none opacity-60'
+      )}
+    >
+      <div className={cn(
+        'w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0',
+        isSent ? 'bg-primary-foreground/20' : 'bg-muted'
+      )}>
+        <FileText className="w-5 h-5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{fileName || 'File'}</p>
+        {fileSize ? <p className="text-xs opacity-70">{formatFileSize(fileSize)}</p> : null}
+      </div>
+      <Download className="w-4 h-4 flex-shrink-0 opacity-70" />
+    </a>
+  );
+};
+
+export default MessageAttachment;
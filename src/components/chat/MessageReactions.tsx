@@ -0,0 +1,39 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { groupReactions, type MessageReaction } from '@/lib/messages';
+
+interface MessageReactionsProps {
+  reactions: MessageReaction[];
+  myProfileId: string | undefined;
+  isSent: boolean;
+  getName: (profileId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+const MessageReactions: React.FC<MessageReactionsProps> = ({ reactions, myProfileId, isSent, getName, onToggle }) => {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1 -mt-1.5 px-2 relative', isSent ? 'justify-end' : 'justify-start')}>
+      {groupReactions(reactions).map(({ emoji, profileIds }) => {
+        const mine = !!myProfileId && profileIds.includes(myProfileId);
+        return (
+          <button
+            key={emoji}
+            onClick={() => onToggle(emoji)}
+            title={profileIds.map(id => (id === myProfileId ? 'You' : getName(id))).join(', ')}
+            className={cn(
+              'flex items-center gap-0.5 px-1.5 py-0.5 rounded-full border text-xs bg-card',
+              mine ? 'border-primary' : 'border-border'
+            )}
+          >
+            <span>{emoji}</span>
+            {profileIds.length > 1 && <span className="text-muted-foreground">{profileIds.length}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageReactions;
@@ -0,0 +1,206 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { User, ChevronLeft, Inbox } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { getMessageSummary } from '@/lib/messages';
+
+interface Participant {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
+interface MessageRequest {
+  id: string;
+  conversation_id: string;
+  created_at: string;
+  sender: Participant;
+  firstMessage: {
+    content: string | null;
+    message_type: string;
+  } | null;
+}
+
+type RequestAction = 'accepted' | 'declined' | 'blocked';
+
+interface MessageRequestsListProps {
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onBack: () => void;
+}
+
+const MessageRequestsList: React.FC<MessageRequestsListProps> = ({ selectedId, onSelect, onBack }) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading } = useQuery({
+    queryKey: ['message-requests', profile?.id, 'list'],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('message_requests')
+        .select(`
+          id,
+          conversation_id,
+          created_at,
+          sender:profiles!message_requests_sender_id_fkey (
+            id,
+            username,
+            display_name,
+            avatar_url
+          )
+        `)
+        .eq('receiver_id', profile.id)
+        .eq('status', 'pending')
+        .not('conversation_id', 'is', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const conversationIds = (data || []).map(r => r.conversation_id);
+      const { data: messagesData } = await supabase
+        .from('messages')
+        .select('conversation_id, content, message_type, created_at')
+        .in('conversation_id', conversationIds)
+        .order('created_at', { ascending: true });
+
+      const firstMessages: Record<string, MessageRequest['firstMessage']> = {};
+      messagesData?.forEach(m => {
+        if (!firstMessages[m.conversation_id]) firstMessages[m.conversation_id] = m;
+      });
+
+      return (data || []).map(r => ({
+        ...r,
+        firstMessage: firstMessages[r.conversation_id] || null,
+      })) as MessageRequest[];
+    },
+    enabled: !!profile?.id,
+    refetchInterval: 5000,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ request, status }: { request: MessageRequest; status: RequestAction }) => {
+      // Declining deletes the whole thread, so the sender can't keep writing into it
+      const { error } = status === 'declined'
+        ? await supabase.rpc('decline_message_request', { _request_id: request.id })
+        : await supabase.from('message_requests').update({ status }).eq('id', request.id);
+      if (error) throw error;
+
+      // A full block, so the sender disappears everywhere and not just from Requests
+      if (status === 'blocked') {
+        const { error: blockError } = await supabase
+          .from('blocks')
+          .insert({ blocker_id: profile.id, blocked_id: request.sender.id });
+        if (blockError) throw blockError;
+      }
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['message-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      toast({
+        title: status === 'accepted' ? 'Request accepted' : status === 'declined' ? 'Request declined' : 'User blocked',
+      });
+    },
+    onError: () => toast({ title: 'Failed to update request', variant: 'destructive' }),
+  });
+
+  const getPreview = (request: MessageRequest) => {
+    if (!request.firstMessage) return 'Wants to send you a message';
+    return getMessageSummary(request.firstMessage, false);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-card overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2">
+        <button onClick={onBack} className="p-1 hover:bg-accent rounded-full transition-colors">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-semibold text-sm">Message requests</span>
+      </div>
+      <p className="px-4 pb-2 text-xs text-muted-foreground">
+        They won't know you've seen their request until you accept.
+      </p>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin">
+        {isLoading ? (
+          <div className="p-4 text-center text-muted-foreground">Loading...</div>
+        ) : requests.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            <Inbox className="w-12 h-12 mx-auto mb-3 opacity-30" />
+            <p>No message requests</p>
+          </div>
+        ) : (
+          requests.map(request => (
+            <div
+              key={request.id}
+              className={cn(
+                'p-3 border-b border-border',
+                selectedId === request.conversation_id && 'bg-accent'
+              )}
+            >
+              <div
+                onClick={() => onSelect(request.conversation_id)}
+                className="flex items-center gap-3 cursor-pointer"
+              >
+                <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                  {request.sender.avatar_url ? (
+                    <img src={request.sender.avatar_url} alt={request.sender.username} className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-5 h-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium truncate">{request.sender.display_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(request.created_at), { addSuffix: false })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{getPreview(request)}</p>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, status: 'accepted' })}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="flex-1"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, status: 'declined' })}
+                >
+                  Delete
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-destructive hover:text-destructive"
+                  disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ request, status: 'blocked' })}
+                >
+                  Block
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageRequestsList;
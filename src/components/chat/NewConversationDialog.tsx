@@ -13,6 +13,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { MAX_GROUP_SIZE, createGroupConversation, findOrCreateConversation } from '@/lib/conversations';
 
 interface Profile {
   id: string;
@@ -24,7 +25,7 @@ interface Profile {
 interface NewConversationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onConversationCreated: (conversationId: string, participant: Profile) => void;
+  onConversationCreated: (conversationId: string) => void;
 }
 
 const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
@@ -34,7 +35,9 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
 }) => {
   const { profile } = useAuth();
   const [search, setSearch] = useState('');
-  const [selected, setSelected] = useState<Profile | null>(null);
+  const [selected, setSelected] = useState<Profile[]>([]);
+  const [groupName, setGroupName] = useState('');
+  const isGroup = selected.length > 1;
   const { toast } = useToast();
 
   const { data: users = [], isLoading } = useQuery({
@@ -57,69 +60,51 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
 
   const createConversationMutation = useMutation({
     mutationFn: async () => {
-      if (!selected || !profile?.id) return null;
+      if (selected.length === 0 || !profile?.id) return null;
 
-      // Check if conversation already exists
-      const { data: existingConvs } = await supabase
-        .from('conversation_participants')
-        .select('conversation_id')
-        .eq('profile_id', profile.id);
-
-      if (existingConvs && existingConvs.length > 0) {
-        for (const conv of existingConvs) {
-          const { data: otherParticipant } = await supabase
-            .from('conversation_participants')
-            .select('profile_id')
-            .eq('conversation_id', conv.conversation_id)
-            .eq('profile_id', selected.id)
-            .maybeSingle();
-
-          if (otherParticipant) {
-            return { id: conv.conversation_id, isNew: false };
-          }
-        }
+      if (selected.length > 1) {
+        const id = await createGroupConversation(groupName, selected.map(p => p.id));
+        return { id, isNew: true, isRequest: false };
       }
-
-      // Create new conversation
-      const { data: newConv, error: convError } = await supabase
-        .from('conversations')
-        .insert({})
-        .select('id')
-        .single();
-
-      if (convError) throw convError;
-
-      // Add participants
-      const { error: partError } = await supabase
-        .from('conversation_participants')
-        .insert([
-          { conversation_id: newConv.id, profile_id: profile.id },
-          { conversation_id: newConv.id, profile_id: selected.id },
-        ]);
-
-      if (partError) throw partError;
-
-      return { id: newConv.id, isNew: true };
+      return findOrCreateConversation(profile.id, selected[0].id);
     },
     onSuccess: (result) => {
-      if (result && selected) {
-        onConversationCreated(result.id, selected);
+      if (result) {
+        if (result.isRequest) {
+          toast({
+            title: 'Message request',
+            description: `Your messages will go to ${selected[0].display_name}'s requests until they accept.`,
+          });
+        }
+        onConversationCreated(result.id);
         onOpenChange(false);
         setSearch('');
-        setSelected(null);
+        setSelected([]);
+        setGroupName('');
       }
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
-        title: 'Error',
-        description: 'Failed to create conversation',
+        title: 'Failed to create conversation',
+        description: error.message,
         variant: 'destructive',
       });
     },
   });
 
+  const toggleSelect = (user: Profile) => {
+    setSelected(prev => {
+      if (prev.some(p => p.id === user.id)) return prev.filter(p => p.id !== user.id);
+      if (prev.length >= MAX_GROUP_SIZE - 1) {
+        toast({ title: `Groups are limited to ${MAX_GROUP_SIZE} people`, variant: 'destructive' });
+        return prev;
+      }
+      return [...prev, user];
+    });
+  };
+
   const handleNext = () => {
-    if (selected) {
+    if (selected.length > 0) {
       createConversationMutation.mutate();
     }
   };
@@ -135,17 +120,17 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
           <div className="flex items-center gap-2 px-4 py-2 border-b border-border">
             <span className="font-medium">To:</span>
             <div className="flex-1 flex items-center gap-2 flex-wrap">
-              {selected && (
-                <div className="flex items-center gap-1 bg-primary/20 text-primary px-2 py-1 rounded-full text-sm">
-                  {selected.display_name}
+              {selected.map(user => (
+                <div key={user.id} className="flex items-center gap-1 bg-primary/20 text-primary px-2 py-1 rounded-full text-sm">
+                  {user.display_name}
                   <button
-                    onClick={() => setSelected(null)}
+                    onClick={() => toggleSelect(user)}
                     className="ml-1 hover:text-destructive"
                   >
                     ×
                   </button>
                 </div>
-              )}
+              ))}
               <Input
                 value={search}
                 onChange={e => setSearch(e.target.value)}
@@ -168,10 +153,10 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
               users.map(user => (
                 <button
                   key={user.id}
-                  onClick={() => setSelected(user)}
+                  onClick={() => toggleSelect(user)}
                   className={cn(
                     'w-full flex items-center gap-3 p-3 hover:bg-accent transition-colors',
-                    selected?.id === user.id && 'bg-accent'
+                    selected.some(p => p.id === user.id) && 'bg-accent'
                   )}
                 >
                   <div className="w-11 h-11 rounded-full bg-muted flex items-center justify-center overflow-hidden">
@@ -189,7 +174,7 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
                     <p className="font-medium">{user.display_name}</p>
                     <p className="text-sm text-muted-foreground">@{user.username}</p>
                   </div>
-                  {selected?.id === user.id && (
+                  {selected.some(p => p.id === user.id) && (
                     <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
                       <Check className="w-4 h-4 text-primary-foreground" />
                     </div>
@@ -199,13 +184,22 @@ const NewConversationDialog: React.FC<NewConversationDialogProps> = ({
             )}
           </div>
 
-          <div className="p-4 border-t border-border">
+          <div className="p-4 border-t border-border space-y-3">
+            {isGroup && (
+              <Input
+                value={groupName}
+                onChange={e => setGroupName(e.target.value)}
+                placeholder="Group name (optional)"
+                maxLength={100}
+                className="bg-secondary border-0"
+              />
+            )}
             <Button
               onClick={handleNext}
-              disabled={!selected || createConversationMutation.isPending}
+              disabled={selected.length === 0 || createConversationMutation.isPending}
               className="w-full"
             >
-              {createConversationMutation.isPending ? 'Creating...' : 'Chat'}
+              {createConversationMutation.isPending ? 'Creating...' : isGroup ? 'Create group' : 'Chat'}
             </Button>
           </div>
         </div>
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -10,11 +11,13 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { notifyMentions } from '@/lib/rich-text';
+import MentionInput from '@/components/MentionInput';
+import RichText from '@/components/RichText';
 
 interface Note {
   id: string;
@@ -37,8 +40,9 @@ const NotesBar: React.FC = () => {
   const [noteContent, setNoteContent] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  const { data: notes = [] } = useQuery({
+  const { data: notes = [], isFetched } = useQuery({
     queryKey: ['notes', profile?.id],
     queryFn: async () => {
       if (!profile?.id) return [];
@@ -51,8 +55,13 @@ const NotesBar: React.FC = () => {
 
       if (error) throw error;
 
+      // Muted accounts stay out of the bar
+      const { data: mutedData } = await supabase.from('mutes').select('muted_id').eq('muter_id', profile.id);
+      const mutedIds = new Set((mutedData || []).map(m => m.muted_id));
+      const visibleNotes = (data || []).filter(n => !mutedIds.has(n.profile_id));
+
       // Get likes for notes
-      const noteIds = data?.map(n => n.id) || [];
+      const noteIds = visibleNotes.map(n => n.id);
       const [likesData, myLikes] = await Promise.all([
         supabase.from('note_likes').select('note_id').in('note_id', noteIds),
         supabase.from('note_likes').select('note_id').eq('profile_id', profile.id).in('note_id', noteIds),
@@ -62,7 +71,7 @@ const NotesBar: React.FC = () => {
       likesData.data?.forEach(l => { likesCount[l.note_id] = (likesCount[l.note_id] || 0) + 1; });
       const likedNotes = new Set(myLikes.data?.map(l => l.note_id) || []);
 
-      return (data || []).map(n => ({
+      return visibleNotes.map(n => ({
         ...n,
         likes_count: likesCount[n.id] || 0,
         is_liked: likedNotes.has(n.id),
@@ -71,6 +80,20 @@ const NotesBar: React.FC = () => {
     enabled: !!profile?.id,
   });
 
+  // Notifications link here with ?note=<id>
+  const linkedNoteId = searchParams.get('note');
+  useEffect(() => {
+    if (!linkedNoteId || !isFetched) return;
+    setSearchParams(params => {
+      params.delete('note');
+      return params;
+    }, { replace: true });
+
+    const note = notes.find(n => n.id === linkedNoteId);
+    if (note) setSelectedNote(note);
+    else toast({ title: 'This note is no longer available' });
+  }, [linkedNoteId, isFetched, notes, setSearchParams, toast]);
+
   const { data: myNote } = useQuery({
     queryKey: ['my-note', profile?.id],
     queryFn: async () => {
@@ -84,10 +107,17 @@ const NotesBar: React.FC = () => {
   const createNoteMutation = useMutation({
     mutationFn: async () => {
       if (!profile?.id || !noteContent.trim()) return;
-      await supabase.from('notes').insert({
-        profile_id: profile.id,
-        content: noteContent.trim(),
-      });
+      const { data: note, error } = await supabase
+        .from('notes')
+        .insert({
+          profile_id: profile.id,
+          content: noteContent.trim(),
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      await notifyMentions({ text: noteContent, actorId: profile.id, contentType: 'note', contentId: note.id });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['notes'] });
@@ -146,7 +176,7 @@ const NotesBar: React.FC = () => {
             <div className="space-y-4 mt-4">
               <div className="space-y-2">
                 <Label>What's on your mind?</Label>
-                <Input value={noteContent} onChange={e => setNoteContent(e.target.value)} placeholder="Share a thought..." maxLength={60} className="bg-secondary border-0" />
+                <MentionInput value={noteContent} onValueChange={setNoteContent} placeholder="Share a thought..." maxLength={60} className="bg-secondary border-0" />
                 <p className="text-xs text-muted-foreground text-right">{noteContent.length}/60</p>
               </div>
               <Button onClick={() => createNoteMutation.mutate()} disabled={!noteContent.trim() || createNoteMutation.isPending} className="w-full">
@@ -192,7 +222,7 @@ const NotesBar: React.FC = () => {
               </div>
               <p className="font-medium">{selectedNote.profile.username}</p>
               <div className="bg-secondary rounded-xl p-4">
-                <p className="text-lg">{selectedNote.content}</p>
+                <p className="text-lg"><RichText text={selectedNote.content} /></p>
               </div>
               <button
                 onClick={() => likeMutation.mutate(selectedNote)}
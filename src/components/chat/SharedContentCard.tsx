@@ -0,0 +1,113 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { User, ImageOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import VerifiedBadge from '@/components/ui/VerifiedBadge';
+import { getPostPath } from '@/lib/post-media';
+import type { SharedPost, SharedProfile, SharedStory } from '@/lib/messages';
+
+interface SharedContentCardProps {
+  messageType: string;
+  post: SharedPost | null;
+  story: SharedStory | null;
+  profile: SharedProfile | null;
+  isSent: boolean;
+}
+
+const Avatar: React.FC<{ url: string | null; size?: string }> = ({ url, size = 'w-6 h-6' }) => (
+  <div className={cn('rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0', size)}>
+    {url ? <img src={url} alt="" className="w-full h-full object-cover" /> : <User className="w-3 h-3 text-muted-foreground" />}
+  </div>
+);
+
+const Media: React.FC<{ url: string; type: string | null; className?: string }> = ({ url, type, className }) =>
+  type === 'video' ? (
+    <video src={url} muted playsInline className={cn('w-full object-cover', className)} />
+  ) : (
+    <img src={url} alt="" loading="lazy" className={cn('w-full object-cover', className)} />
+  );
+
+// Deleted content and content the viewer can no longer see look the same
+const Unavailable: React.FC<{ label: string }> = ({ label }) => (
+  <div className="flex items-center gap-3 p-3 text-sm text-muted-foreground">
+    <ImageOff className="w-5 h-5 flex-shrink-0" />
+    <span>{label}</span>
+  </div>
+);
+
+const SharedContentCard: React.FC<SharedContentCardProps> = ({ messageType, post, story, profile, isSent }) => {
+  const navigate = useNavigate();
+  const cardClass = cn(
+    'w-60 rounded-2xl border border-border bg-card overflow-hidden text-left',
+    isSent ? 'ml-auto' : 'mr-auto'
+  );
+
+  if (messageType === 'post_share') {
+    if (!post) {
+      return <div className={cardClass}><Unavailable label="This post is unavailable" /></div>;
+    }
+    return (
+      <button onClick={() => navigate(getPostPath(post.id))} className={cn(cardClass, 'block hover:opacity-90 transition-opacity')}>
+        {post.profile && (
+          <div className="flex items-center gap-2 px-3 py-2">
+            <Avatar url={post.profile.avatar_url} />
+            <span className="text-sm font-semibold truncate">{post.profile.username}</span>
+          </div>
+        )}
+        <Media url={post.media_url} type={post.media_type} className="aspect-square" />
+        {post.caption && (
+          <p className="px-3 py-2 text-xs line-clamp-2">
+            {post.profile && <span className="font-semibold mr-1">{post.profile.username}</span>}
+            {post.caption}
+          </p>
+        )}
+      </button>
+    );
+  }
+
+  if (messageType === 'story_reply') {
+    const expired = !!story?.expires_at && new Date(story.expires_at).getTime() < Date.now();
+    return (
+      <div className={cn('flex flex-col gap-1', isSent ? 'items-end' : 'items-start')}>
+        <span className="text-[11px] text-muted-foreground px-1">
+          {isSent ? 'You replied to their story' : 'Replied to your story'}
+        </span>
+        {!story ? (
+          <div className={cardClass}><Unavailable label="Story unavailable" /></div>
+        ) : expired ? (
+          // The reply outlives the story; keep its place in the thread without the media
+          <div className={cn(cardClass, 'w-32 aspect-[9/16] flex items-center justify-center bg-muted')}>
+            <span className="text-xs text-muted-foreground px-2 text-center">Story no longer available</span>
+          </div>
+        ) : (
+          <div className={cn(cardClass, 'w-32')}>
+            <Media url={story.media_url} type={story.media_type} className="aspect-[9/16]" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (messageType === 'profile_share') {
+    if (!profile) {
+      return <div className={cardClass}><Unavailable label="This account is unavailable" /></div>;
+    }
+    return (
+      <button onClick={() => navigate(`/profile/${profile.username}`)} className={cn(cardClass, 'block hover:opacity-90 transition-opacity')}>
+        <div className="flex flex-col items-center gap-2 p-4">
+          <Avatar url={profile.avatar_url} size="w-16 h-16" />
+          <p className="font-semibold flex items-center gap-1">
+            {profile.username}
+            <VerifiedBadge type={profile.verified_type} size="sm" />
+          </p>
+          <p className="text-xs text-muted-foreground">{profile.display_name}</p>
+        </div>
+        <div className="border-t border-border py-2 text-center text-sm font-medium text-primary">View profile</div>
+      </button>
+    );
+  }
+
+  return null;
+};
+
+export default SharedContentCard;
@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { Reply } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const SWIPE_THRESHOLD = 56;
+const MAX_SWIPE = 80;
+const LONG_PRESS_MS = 450;
+// Movement allowed before a press stops counting as a long-press
+const MOVE_TOLERANCE = 8;
+
+interface SwipeableMessageProps {
+  onSwipeReply: () => void;
+  onLongPress: () => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Touch gestures for a message row: swipe right to reply, long-press for reactions.
+// Mouse users get the hover actions instead.
+const SwipeableMessage: React.FC<SwipeableMessageProps> = ({ onSwipeReply, onLongPress, className, children }) => {
+  const [offset, setOffset] = useState(0);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const swipingRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current) window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const reset = () => {
+    clearTimer();
+    startRef.current = null;
+    swipingRef.current = false;
+    setOffset(0);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse') return;
+    startRef.current = { x: e.clientX, y: e.clientY };
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      startRef.current = null;
+      onLongPress();
+    }, LONG_PRESS_MS);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+
+    if (Math.abs(dx) > MOVE_TOLERANCE || Math.abs(dy) > MOVE_TOLERANCE) clearTimer();
+    if (!swipingRef.current) {
+      // Vertical drags are left to the scroll container
+      if (Math.abs(dy) > Math.abs(dx)) {
+        if (Math.abs(dy) > MOVE_TOLERANCE) startRef.current = null;
+        return;
+      }
+      swipingRef.current = dx > MOVE_TOLERANCE;
+    }
+    if (swipingRef.current) setOffset(Math.min(Math.max(dx, 0), MAX_SWIPE));
+  };
+
+  const handlePointerUp = () => {
+    if (swipingRef.current && offset >= SWIPE_THRESHOLD) onSwipeReply();
+    reset();
+  };
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={reset}
+      onContextMenu={e => {
+        // Keep the browser's long-press menu out of the way on touch screens
+        if (e.nativeEvent instanceof PointerEvent && e.nativeEvent.pointerType !== 'mouse') e.preventDefault();
+      }}
+      className={cn('relative touch-pan-y', className)}
+    >
+      {offset > 0 && (
+        <Reply
+          className="absolute left-0 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground"
+          style={{ opacity: Math.min(offset / SWIPE_THRESHOLD, 1) }}
+        />
+      )}
+      <div
+        style={{ transform: offset ? `translateX(${offset}px)` : undefined }}
+        className={cn(!offset && 'transition-transform')}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default SwipeableMessage;
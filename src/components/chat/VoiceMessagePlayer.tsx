@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDuration } from '@/lib/messages';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+const FALLBACK_BARS = 40;
+
+interface VoiceMessagePlayerProps {
+  url: string | undefined;
+  duration: number | null;
+  waveform: number[] | null;
+  isSent: boolean;
+}
+
+const VoiceMessagePlayer: React.FC<VoiceMessagePlayerProps> = ({ url, duration, waveform, isSent }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [rate, setRate] = useState(1);
+  // MediaRecorder webm files often report Infinity until fully read, so prefer the stored duration
+  const [loadedDuration, setLoadedDuration] = useState<number | null>(null);
+  const total = duration || loadedDuration || 0;
+  const bars = waveform?.length ? waveform : Array(FALLBACK_BARS).fill(0.3);
+  const progress = total ? Math.min(currentTime / total, 1) : 0;
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || !total) return;
+    audio.currentTime = fraction * total;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const cycleRate = () => {
+    setRate(prev => PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(prev) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  return (
+    <div className="flex items-center gap-2 min-w-[14rem] py-1">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => {
+            setIsPlaying(false);
+            setCurrentTime(0);
+          }}
+          onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+          onLoadedMetadata={e => {
+            if (Number.isFinite(e.currentTarget.duration)) setLoadedDuration(e.currentTarget.duration);
+            e.currentTarget.playbackRate = rate;
+          }}
+        />
+      )}
+      <button
+        type="button"
+        onClick={togglePlay}
+        disabled={!url}
+        className="p-1 rounded-full hover:opacity-80 transition-opacity disabled:opacity-50"
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause className="w-5 h-5 fill-current" /> : <Play className="w-5 h-5 fill-current" />}
+      </button>
+
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(total)}
+        aria-valuenow={Math.round(currentTime)}
+        onClick={e => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          seek((e.clientX - rect.left) / rect.width);
+        }}
+        onKeyDown={e => {
+          if (e.key === 'ArrowRight') seek(Math.min(progress + 0.05, 1));
+          if (e.key === 'ArrowLeft') seek(Math.max(progress - 0.05, 0));
+        }}
+        className="flex-1 flex items-center gap-[2px] h-8 cursor-pointer"
+      >
+        {bars.map((level, idx) => (
+          <div
+            key={idx}
+            className={cn(
+              'flex-1 rounded-full transition-colors',
+              idx / bars.length < progress
+                ? isSent ? 'bg-primary-foreground' : 'bg-foreground'
+                : isSent ? 'bg-primary-foreground/40' : 'bg-foreground/30'
+            )}
+            style={{ height: `${Math.max(level, 0.1) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <span className="text-xs tabular-nums opacity-80 w-9 text-right">
+        {formatDuration(isPlaying || currentTime ? currentTime : total)}
+      </span>
+      <button
+        type="button"
+        onClick={cycleRate}
+        className={cn(
+          'text-[10px] font-semibold px-1.5 py-0.5 rounded-full',
+          isSent ? 'bg-primary-foreground/20' : 'bg-muted'
+        )}
+      >
+        {rate}×
+      </button>
+    </div>
+  );
+};
+
+export default VoiceMessagePlayer;
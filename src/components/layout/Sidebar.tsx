@@ -2,9 +2,11 @@ import React from 'react';
 import { NavLink, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useUnreadNotificationCount } from '@/hooks/use-notifications';
 import {
   Home,
   Search,
+  Compass,
   MessageCircle,
   Heart,
   PlusSquare,
@@ -19,12 +21,14 @@ const Sidebar: React.FC = () => {
   const { profile, signOut, isAdmin } = useAuth();
   const location = useLocation();
   const isMobile = useIsMobile();
+  const unreadNotifications = useUnreadNotificationCount();
 
   const navItems = [
     { icon: Home, label: 'Home', path: '/' },
     { icon: Search, label: 'Search', path: '/search' },
+    { icon: Compass, label: 'Explore', path: '/posts' },
     { icon: MessageCircle, label: 'Messages', path: '/messages' },
-    { icon: Heart, label: 'Notifications', path: '/notifications' },
+    { icon: Heart, label: 'Notifications', path: '/notifications', badge: unreadNotifications },
     { icon: PlusSquare, label: 'Create', path: '/create' },
     { icon: User, label: 'Profile', path: '/profile' },
   ];
@@ -34,6 +38,8 @@ const Sidebar: React.FC = () => {
     return location.pathname.startsWith(path);
   };
 
+  const formatBadge = (count: number) => (count > 99 ? '99+' : String(count));
+
   if (isMobile) {
     return (
       <nav className="fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50 flex justify-around py-2">
@@ -46,7 +52,14 @@ const Sidebar: React.FC = () => {
               isActive(item.path) && 'text-primary'
             )}
           >
-            <item.icon className="w-6 h-6" />
+            <div className="relative">
+              <item.icon className="w-6 h-6" />
+              {!!item.badge && (
+                <span className="absolute -top-1 -right-2 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+                  {formatBadge(item.badge)}
+                </span>
+              )}
+            </div>
           </NavLink>
         ))}
       </nav>
@@ -67,7 +80,12 @@ const Sidebar: React.FC = () => {
             className={cn('nav-item', isActive(item.path) && 'nav-item-active')}
           >
             <item.icon className="w-6 h-6" />
-            <span>{item.label}</span>
+            <span className="flex-1">{item.label}</span>
+            {!!item.badge && (
+              <span className="min-w-5 h-5 px-1.5 rounded-full bg-destructive text-destructive-foreground text-xs font-semibold flex items-center justify-center">
+                {formatBadge(item.badge)}
+              </span>
+            )}
           </NavLink>
         ))}
 
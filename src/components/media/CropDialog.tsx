@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import ImageCropper from './ImageCropper';
+import { processImage, type CropArea, type MediaPreset, type ProcessedMedia } from '@/lib/media-pipeline';
+
+interface CropDialogProps {
+  file: File | null;
+  preset: MediaPreset;
+  onCancel: () => void;
+  onComplete: (media: ProcessedMedia) => void;
+  title?: string;
+  round?: boolean;
+}
+
+// Crops a single picked image and runs it through the media pipeline
+const CropDialog: React.FC<CropDialogProps> = ({ file, preset, onCancel, onComplete, title = 'Crop photo', round }) => {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreview(url);
+    setCrop(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleApply = async () => {
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      onComplete(await processImage(file, preset, crop || undefined));
+    } catch (error) {
+      console.error(error);
+      toast({ title: 'Could not process image', variant: 'destructive' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => !open && !isProcessing && onCancel()}>
+      <DialogContent className="bg-card max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {preview && (
+          <ImageCropper src={preview} aspect={preset.aspect || 1} onChange={setCrop} round={round} />
+        )}
+        <div className="flex gap-2">
+          <Button variant="secondary" className="flex-1" onClick={onCancel} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleApply} disabled={isProcessing || !crop}>
+            {isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CropDialog;
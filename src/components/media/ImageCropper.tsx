@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { loadImage, type CropArea } from '@/lib/media-pipeline';
+
+interface ImageCropperProps {
+  src: string;
+  aspect: number;
+  onChange: (crop: CropArea) => void;
+  // Restores an earlier crop, e.g. when switching between carousel items
+  initialCrop?: CropArea | null;
+  round?: boolean;
+  className?: string;
+}
+
+const MAX_ZOOM = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drag to pan, slider to zoom. Reports the visible region as fractions of the source image.
+const ImageCropper: React.FC<ImageCropperProps> = ({ src, aspect, onChange, initialCrop, round, className }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  // Center of the visible region in source pixels
+  const [center, setCenter] = useState({ x: 0, y: 0 });
+
+  const initialCropRef = useRef(initialCrop);
+  initialCropRef.current = initialCrop;
+
+  useEffect(() => {
+    let cancelled = false;
+    setNatural(null);
+    loadImage(src).then(image => {
+      if (cancelled) return;
+      const width = image.naturalWidth;
+      const height = image.naturalHeight;
+      const crop = initialCropRef.current;
+      setNatural({ width, height });
+      if (crop) {
+        setZoom(clamp(Math.min(width, height * aspect) / (crop.width * width), 1, MAX_ZOOM));
+        setCenter({ x: (crop.x + crop.width / 2) * width, y: (crop.y + crop.height / 2) * height });
+      } else {
+        setZoom(1);
+        setCenter({ x: width / 2, y: height / 2 });
+      }
+    }).catch(() => setNatural(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [src, aspect]);
+
+  // Size of the visible region in source pixels at the current zoom
+  const visibleWidth = natural ? Math.min(natural.width, natural.height * aspect) / zoom : 0;
+  const visibleHeight = visibleWidth / aspect;
+
+  const clampCenter = (x: number, y: number) => ({
+    x: clamp(x, visibleWidth / 2, natural!.width - visibleWidth / 2),
+    y: clamp(y, visibleHeight / 2, natural!.height - visibleHeight / 2),
+  });
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!natural) return;
+    const x = clamp(center.x, visibleWidth / 2, natural.width - visibleWidth / 2);
+    const y = clamp(center.y, visibleHeight / 2, natural.height - visibleHeight / 2);
+    if (x !== center.x || y !== center.y) {
+      setCenter({ x, y });
+      return;
+    }
+    onChangeRef.current({
+      x: (x - visibleWidth / 2) / natural.width,
+      y: (y - visibleHeight / 2) / natural.height,
+      width: visibleWidth / natural.width,
+      height: visibleHeight / natural.height,
+    });
+  }, [natural, center.x, center.y, visibleWidth, visibleHeight]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current || !natural || !frameRef.current) return;
+    const sourcePerPixel = visibleWidth / frameRef.current.clientWidth;
+    const dx = (e.clientX - dragRef.current.x) * sourcePerPixel;
+    const dy = (e.clientY - dragRef.current.y) * sourcePerPixel;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setCenter(prev => clampCenter(prev.x - dx, prev.y - dy));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div
+        ref={frameRef}
+        style={{ aspectRatio: aspect }}
+        className="relative w-full overflow-hidden rounded-lg bg-muted touch-none cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {natural && (
+          <img
+            src={src}
+            alt="Crop preview"
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{
+              width: `${(natural.width / visibleWidth) * 100}%`,
+              height: `${(natural.height / visibleHeight) * 100}%`,
+              left: `${(-(center.x - visibleWidth / 2) / visibleWidth) * 100}%`,
+              top: `${(-(center.y - visibleHeight / 2) / visibleHeight) * 100}%`,
+            }}
+          />
+        )}
+        {round && (
+          <div className="absolute inset-0 rounded-full pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 px-1">
+        <ZoomOut className="w-4 h-4 text-muted-foreground" />
+        <Slider
+          value={[zoom]}
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          onValueChange={([value]) => setZoom(value)}
+        />
+        <ZoomIn className="w-4 h-4 text-muted-foreground" />
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,433 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow, format, addDays } from 'date-fns';
+import { User, Flag, ChevronRight, Trash2, AlertTriangle, Ban, XCircle, Eye } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  getReasonLabel,
+  ACTION_LABELS,
+  ACTION_RESOLUTIONS,
+  SUSPENSION_DAYS,
+  type ModerationAction,
+  type ReportContentType,
+} from '@/lib/moderation';
+
+interface ProfileSummary {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
+interface Report {
+  id: string;
+  content_type: ReportContentType;
+  content_id: string;
+  reason: string;
+  reason_category: string | null;
+  details: string | null;
+  status: string;
+  resolution: string | null;
+  created_at: string;
+  reporter: ProfileSummary;
+}
+
+interface ReportedContent {
+  owner: ProfileSummary | null;
+  text: string | null;
+  media_url: string | null;
+  media_type: string | null;
+  created_at: string | null;
+}
+
+interface AuditEntry {
+  id: string;
+  action: ModerationAction;
+  note: string | null;
+  created_at: string;
+  admin: { username: string } | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-500',
+  reviewing: 'bg-primary/20 text-primary',
+  resolved: 'bg-secondary text-muted-foreground',
+};
+
+const ModerationQueue: React.FC = () => {
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ['admin-reports', statusFilter, typeFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('reports')
+        .select(`
+          *,
+          reporter:profiles!reports_reporter_id_fkey (
+            id,
+            username,
+            display_name,
+            avatar_url
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+      if (typeFilter !== 'all') query = query.eq('content_type', typeFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as Report[];
+    },
+  });
+
+  return (
+    <div className="bg-card rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-border flex flex-wrap items-center gap-3">
+        <h2 className="font-semibold flex-1">Moderation Queue</h2>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-36 bg-secondary border-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="reviewing">Reviewing</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-36 bg-secondary border-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All content</SelectItem>
+            <SelectItem value="post">Posts</SelectItem>
+            <SelectItem value="story">Stories</SelectItem>
+            <SelectItem value="comment">Comments</SelectItem>
+            <SelectItem value="profile">Profiles</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="divide-y divide-border max-h-[32rem] overflow-y-auto scrollbar-thin">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Loading...</p>
+        ) : reports.length === 0 ? (
+          <div className="text-center text-muted-foreground py-12">
+            <Flag className="w-12 h-12 mx-auto mb-3 opacity-30" />
+            <p>No reports to review</p>
+          </div>
+        ) : (
+          reports.map(report => (
+            <button
+              key={report.id}
+              onClick={() => setSelectedReport(report)}
+              className="w-full flex items-center gap-3 p-4 hover:bg-accent transition-colors text-left"
+            >
+              <Flag className="w-5 h-5 text-destructive flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium truncate">{getReasonLabel(report.reason_category)}</p>
+                  <span className="text-xs bg-secondary px-2 py-0.5 rounded capitalize">{report.content_type}</span>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  Reported by @{report.reporter?.username} · {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <span className={cn('text-xs px-2 py-0.5 rounded capitalize', STATUS_STYLES[report.status])}>
+                {report.status}
+              </span>
+              <ChevronRight className="w-5 h-5 text-muted-foreground" />
+            </button>
+          ))
+        )}
+      </div>
+
+      <ReportDetailDialog report={selectedReport} onChange={setSelectedReport} onClose={() => setSelectedReport(null)} />
+    </div>
+  );
+};
+
+const ReportDetailDialog: React.FC<{
+  report: Report | null;
+  onChange: (report: Report) => void;
+  onClose: () => void;
+}> = ({ report, onChange, onClose }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const { data: content, isLoading: contentLoading } = useQuery({
+    queryKey: ['admin-report-content', report?.content_type, report?.content_id],
+    queryFn: async (): Promise<ReportedContent | null> => {
+      if (!report) return null;
+      const ownerSelect = 'profile:profiles (id, username, display_name, avatar_url)';
+
+      switch (report.content_type) {
+        case 'post': {
+          const { data } = await supabase
+            .from('posts')
+            .select(`caption, media_url, media_type, created_at, ${ownerSelect}`)
+            .eq('id', report.content_id)
+            .maybeSingle();
+          return data && { owner: data.profile, text: data.caption, media_url: data.media_url, media_type: data.media_type, created_at: data.created_at };
+        }
+        case 'story': {
+          const { data } = await supabase
+            .from('stories')
+            .select(`media_url, media_type, created_at, ${ownerSelect}`)
+            .eq('id', report.content_id)
+            .maybeSingle();
+          return data && { owner: data.profile, text: null, media_url: data.media_url, media_type: data.media_type, created_at: data.created_at };
+        }
+        case 'comment': {
+          const { data } = await supabase
+            .from('post_comments')
+            .select(`content, created_at, ${ownerSelect}`)
+            .eq('id', report.content_id)
+            .maybeSingle();
+          return data && { owner: data.profile, text: data.content, media_url: null, media_type: null, created_at: data.created_at };
+        }
+        case 'profile': {
+          const { data } = await supabase
+            .from('profiles')
+            .select('id, username, display_name, avatar_url, bio, created_at')
+            .eq('id', report.content_id)
+            .maybeSingle();
+          return data && { owner: data, text: data.bio, media_url: data.avatar_url, media_type: 'image', created_at: data.created_at };
+        }
+        default:
+          return null;
+      }
+    },
+    enabled: !!report,
+  });
+
+  const { data: auditTrail = [] } = useQuery({
+    queryKey: ['admin-report-actions', report?.id],
+    queryFn: async () => {
+      if (!report) return [];
+      const { data, error } = await supabase
+        .from('moderation_actions')
+        .select(`
+          id,
+          action,
+          note,
+          created_at,
+          admin:profiles!moderation_actions_admin_id_fkey (
+            username
+          )
+        `)
+        .eq('report_id', report.id)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as AuditEntry[];
+    },
+    enabled: !!report,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ModerationAction) => {
+      if (!report) return;
+      const { data: adminId } = await supabase.rpc('get_my_profile_id');
+      const ownerId = content?.owner?.id || null;
+
+      if (action === 'remove_content') {
+        const table = report.content_type === 'post' ? 'posts' : report.content_type === 'story' ? 'stories' : 'post_comments';
+        const { error } = await supabase.from(table).delete().eq('id', report.content_id);
+        if (error) throw error;
+      }
+
+      if (action === 'warn' && ownerId) {
+        const { error } = await supabase.from('notifications').insert({
+          profile_id: ownerId,
+          type: 'warning',
+          content_type: report.content_type,
+          content_id: report.content_id,
+          message: `Your ${report.content_type} was reported for "${getReasonLabel(report.reason_category)}" and goes against our community guidelines.`,
+        });
+        if (error) throw error;
+      }
+
+      if (action === 'suspend' && ownerId) {
+        const { error } = await supabase
+          .from('profiles')
+          .update({ suspended_until: addDays(new Date(), SUSPENSION_DAYS).toISOString() })
+          .eq('id', ownerId);
+        if (error) throw error;
+      }
+
+      const resolution = ACTION_RESOLUTIONS[action];
+      const { data: updated, error: reportError } = await supabase
+        .from('reports')
+        .update({
+          status: resolution ? 'resolved' : 'reviewing',
+          reviewed_by: adminId,
+          resolution: resolution || null,
+          resolved_at: resolution ? new Date().toISOString() : null,
+        })
+        .eq('id', report.id)
+        .select('status, resolution')
+        .single();
+      if (reportError) throw reportError;
+
+      const { error: auditError } = await supabase.from('moderation_actions').insert({
+        report_id: report.id,
+        admin_id: adminId,
+        target_profile_id: ownerId,
+        action,
+        note: note.trim() || null,
+      });
+      if (auditError) throw auditError;
+
+      return updated;
+    },
+    onSuccess: (updated, action) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-report-actions', report?.id] });
+      setNote('');
+      toast({ title: ACTION_LABELS[action] });
+      // The dialog stays open after starting a review, so show the new status
+      if (action === 'start_review') {
+        if (report && updated) onChange({ ...report, ...updated });
+      } else {
+        onClose();
+      }
+    },
+    onError: () => toast({ title: 'Moderation action failed', variant: 'destructive' }),
+  });
+
+  const isResolved = report?.status === 'resolved';
+
+  return (
+    <Dialog open={!!report} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="bg-card max-w-2xl max-h-[85vh] overflow-y-auto scrollbar-thin">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5 text-destructive" />
+            Report - {getReasonLabel(report?.reason_category)}
+          </DialogTitle>
+        </DialogHeader>
+
+        {report && (
+          <div className="space-y-4">
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">Reported by </span>@{report.reporter?.username}
+                <span className="text-muted-foreground"> on {format(new Date(report.created_at), 'MMM d, yyyy h:mm a')}</span>
+              </p>
+              {report.details && <p className="bg-secondary rounded-lg p-3">{report.details}</p>}
+            </div>
+
+            {/* Content preview */}
+            <div className="border border-border rounded-lg p-4">
+              {contentLoading ? (
+                <p className="text-muted-foreground text-sm">Loading content...</p>
+              ) : !content ? (
+                <p className="text-muted-foreground text-sm">This {report.content_type} no longer exists.</p>
+              ) : (
+                <div className="space-y-3">
+                  {content.owner && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                        {content.owner.avatar_url ? (
+                          <img src={content.owner.avatar_url} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                          <User className="w-4 h-4 text-muted-foreground" />
+                        )}
+                      </div>
+                      <span className="font-medium text-sm">@{content.owner.username}</span>
+                      {content.created_at && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(content.created_at), { addSuffix: true })}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {content.media_url && report.content_type !== 'profile' && (
+                    content.media_type === 'video' ? (
+                      <video src={content.media_url} controls className="max-h-64 rounded-lg mx-auto" />
+                    ) : (
+                      <img src={content.media_url} alt="" className="max-h-64 rounded-lg mx-auto object-contain" />
+                    )
+                  )}
+                  {content.text && <p className="text-sm whitespace-pre-wrap">{content.text}</p>}
+                </div>
+              )}
+            </div>
+
+            {/* Actions */}
+            {!isResolved && (
+              <div className="space-y-3">
+                <Textarea
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  placeholder="Internal note (optional)"
+                  rows={2}
+                  className="bg-secondary border-0 resize-none"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {report.status === 'pending' && (
+                    <Button variant="secondary" size="sm" onClick={() => actionMutation.mutate('start_review')} disabled={actionMutation.isPending}>
+                      <Eye className="w-4 h-4 mr-2" /> Start review
+                    </Button>
+                  )}
+                  <Button variant="secondary" size="sm" onClick={() => actionMutation.mutate('dismiss')} disabled={actionMutation.isPending}>
+                    <XCircle className="w-4 h-4 mr-2" /> Dismiss
+                  </Button>
+                  {report.content_type !== 'profile' && (
+                    <Button variant="destructive" size="sm" onClick={() => actionMutation.mutate('remove_content')} disabled={actionMutation.isPending || !content}>
+                      <Trash2 className="w-4 h-4 mr-2" /> Remove content
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => actionMutation.mutate('warn')} disabled={actionMutation.isPending || !content?.owner}>
+                    <AlertTriangle className="w-4 h-4 mr-2" /> Warn user
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => actionMutation.mutate('suspend')} disabled={actionMutation.isPending || !content?.owner}>
+                    <Ban className="w-4 h-4 mr-2" /> Suspend {SUSPENSION_DAYS} days
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Audit trail */}
+            <div>
+              <h3 className="text-sm font-medium mb-2">History</h3>
+              {auditTrail.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No actions taken yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {auditTrail.map(entry => (
+                    <div key={entry.id} className="text-sm bg-secondary rounded-lg p-3">
+                      <p>
+                        <span className="font-medium">@{entry.admin?.username}</span> {ACTION_LABELS[entry.action].toLowerCase()}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {format(new Date(entry.created_at), 'MMM d, h:mm a')}
+                        </span>
+                      </p>
+                      {entry.note && <p className="text-muted-foreground mt-1">{entry.note}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useMutation } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { REPORT_REASONS, getReasonLabel, type ReportContentType } from '@/lib/moderation';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: ReportContentType;
+  contentId: string;
+}
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ open, onOpenChange, contentType, contentId }) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [category, setCategory] = useState<string>('');
+  const [details, setDetails] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.id || !category) return;
+      const { error } = await supabase.from('reports').insert({
+        reporter_id: profile.id,
+        content_type: contentType,
+        content_id: contentId,
+        reason: getReasonLabel(category),
+        reason_category: category,
+        details: details.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: `${contentType.charAt(0).toUpperCase()}${contentType.slice(1)} reported. Admins will review it.` });
+      setCategory('');
+      setDetails('');
+      onOpenChange(false);
+    },
+    onError: () => toast({ title: 'Failed to send report', variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">Why are you reporting this {contentType}?</p>
+
+        <RadioGroup value={category} onValueChange={setCategory} className="space-y-1 mt-2">
+          {REPORT_REASONS.map(reason => (
+            <Label
+              key={reason.value}
+              htmlFor={`reason-${reason.value}`}
+              className="flex items-center gap-3 p-3 rounded-lg hover:bg-accent cursor-pointer font-normal"
+            >
+              <RadioGroupItem value={reason.value} id={`reason-${reason.value}`} />
+              {reason.label}
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {category && (
+          <Textarea
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            placeholder="Add details (optional)"
+            maxLength={500}
+            className="bg-secondary border-0 resize-none"
+            rows={3}
+          />
+        )}
+
+        <Button
+          onClick={() => reportMutation.mutate()}
+          disabled={!category || reportMutation.isPending}
+          className="w-full"
+        >
+          {reportMutation.isPending ? 'Sending...' : 'Submit report'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
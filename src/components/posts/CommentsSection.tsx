@@ -0,0 +1,423 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Heart, User, Pin, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import ReportDialog from '@/components/moderation/ReportDialog';
+import RichText from '@/components/RichText';
+import MentionInput from '@/components/MentionInput';
+import { notifyMentions } from '@/lib/rich-text';
+
+interface CommentWithLikes {
+  id: string;
+  content: string;
+  created_at: string;
+  parent_comment_id: string | null;
+  profile: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+  likes_count: number;
+  is_liked: boolean;
+}
+
+interface ReplyTarget {
+  // Replies always attach to the top-level comment of the thread
+  rootId: string;
+  // Author of that top-level comment, who gets the reply notification
+  rootProfileId: string;
+  username: string;
+}
+
+interface CommentsSectionProps {
+  postId: string;
+  postOwnerId: string;
+}
+
+const CommentsSection: React.FC<CommentsSectionProps> = ({ postId, postOwnerId }) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [comment, setComment] = useState('');
+  const [replyTo, setReplyTo] = useState<ReplyTarget | null>(null);
+
+  const isPostOwner = profile?.id === postOwnerId;
+
+  const { data } = useQuery({
+    queryKey: ['post-comments', postId],
+    queryFn: async () => {
+      const [commentsRes, postRes] = await Promise.all([
+        supabase
+          .from('post_comments')
+          .select(`
+            id,
+            content,
+            created_at,
+            parent_comment_id,
+            profile:profiles (
+              id,
+              username,
+              display_name,
+              avatar_url
+            ),
+            likes:comment_likes (count)
+          `)
+          .eq('post_id', postId)
+          .order('created_at', { ascending: true }),
+        supabase.from('posts').select('pinned_comment_id').eq('id', postId).maybeSingle(),
+      ]);
+
+      if (commentsRes.error) throw commentsRes.error;
+
+      const commentIds = commentsRes.data?.map(c => c.id) || [];
+      let likedIds = new Set<string>();
+      if (profile?.id && commentIds.length > 0) {
+        const { data: myLikes } = await supabase
+          .from('comment_likes')
+          .select('comment_id')
+          .eq('profile_id', profile.id)
+          .in('comment_id', commentIds);
+        likedIds = new Set(myLikes?.map(l => l.comment_id) || []);
+      }
+
+      const comments: CommentWithLikes[] = (commentsRes.data || []).map(c => ({
+        id: c.id,
+        content: c.content,
+        created_at: c.created_at,
+        parent_comment_id: c.parent_comment_id,
+        profile: c.profile,
+        likes_count: c.likes?.[0]?.count || 0,
+        is_liked: likedIds.has(c.id),
+      }));
+
+      return { comments, pinnedId: postRes.data?.pinned_comment_id || null };
+    },
+  });
+
+  const pinnedId = data?.pinnedId || null;
+
+  // Top-level comments (pinned first) with their replies in posting order
+  const { threads, replies } = useMemo(() => {
+    const all = data?.comments || [];
+    const byParent: Record<string, CommentWithLikes[]> = {};
+    all.forEach(c => {
+      if (c.parent_comment_id) {
+        (byParent[c.parent_comment_id] ||= []).push(c);
+      }
+    });
+    const topLevel = all.filter(c => !c.parent_comment_id);
+    const pinned = topLevel.filter(c => c.id === pinnedId);
+    return { threads: [...pinned, ...topLevel.filter(c => c.id !== pinnedId)], replies: byParent };
+  }, [data, pinnedId]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['post-comments', postId] });
+    queryClient.invalidateQueries({ queryKey: ['feed-posts'] });
+  };
+
+  const addCommentMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.id || !comment.trim()) return;
+      const content = comment.trim();
+
+      const { error } = await supabase.from('post_comments').insert({
+        post_id: postId,
+        profile_id: profile.id,
+        content,
+        parent_comment_id: replyTo?.rootId || null,
+      });
+      if (error) throw error;
+
+      // Reply notification goes to the author of the parent comment; someone
+      // replied to further down the thread is @mentioned in the prefilled text
+      const replyRecipient = replyTo && replyTo.rootProfileId !== profile.id ? replyTo.rootProfileId : null;
+      if (replyRecipient) {
+        await supabase.from('notifications').insert({
+          profile_id: replyRecipient,
+          type: 'reply',
+          actor_id: profile.id,
+          content_type: 'post',
+          content_id: postId,
+          message: content.slice(0, 100),
+        });
+      }
+
+      if (postOwnerId !== profile.id && postOwnerId !== replyRecipient) {
+        await supabase.from('notifications').insert({
+          profile_id: postOwnerId,
+          type: 'comment',
+          actor_id: profile.id,
+          content_type: 'post',
+          content_id: postId,
+          message: content.slice(0, 100),
+        });
+      }
+
+      await notifyMentions({
+        text: content,
+        actorId: profile.id,
+        contentType: 'post',
+        contentId: postId,
+        message: content,
+        excludeProfileIds: [postOwnerId, replyRecipient].filter(Boolean),
+      });
+    },
+    onSuccess: () => {
+      setComment('');
+      setReplyTo(null);
+      invalidate();
+    },
+    onError: () => toast({ title: 'Failed to post comment', variant: 'destructive' }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase.from('post_comments').delete().eq('id', commentId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Comment deleted' });
+    },
+    onError: () => toast({ title: 'Failed to delete comment', variant: 'destructive' }),
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async (commentId: string | null) => {
+      const { error } = await supabase.from('posts').update({ pinned_comment_id: commentId }).eq('id', postId);
+      if (error) throw error;
+    },
+    onSuccess: (_, commentId) => {
+      queryClient.invalidateQueries({ queryKey: ['post-comments', postId] });
+      toast({ title: commentId ? 'Comment pinned' : 'Comment unpinned' });
+    },
+    onError: () => toast({ title: 'Failed to update pinned comment', variant: 'destructive' }),
+  });
+
+  const startReply = (target: CommentWithLikes) => {
+    const root = target.parent_comment_id
+      ? data?.comments.find(c => c.id === target.parent_comment_id) || target
+      : target;
+    setReplyTo({
+      rootId: root.id,
+      rootProfileId: root.profile.id,
+      username: target.profile.username,
+    });
+    setComment(`@${target.profile.username} `);
+    inputRef.current?.focus();
+  };
+
+  const renderComment = (c: CommentWithLikes) => (
+    <CommentItem
+      key={c.id}
+      comment={c}
+      postId={postId}
+      isPinned={c.id === pinnedId}
+      canDelete={c.profile.id === profile?.id || isPostOwner}
+      canPin={isPostOwner && !c.parent_comment_id}
+      onReply={() => startReply(c)}
+      onDelete={() => deleteMutation.mutate(c.id)}
+      onTogglePin={() => pinMutation.mutate(c.id === pinnedId ? null : c.id)}
+    />
+  );
+
+  return (
+    <div className="flex flex-col flex-1 overflow-hidden">
+      <div className="flex-1 overflow-y-auto scrollbar-thin space-y-4 py-4">
+        {threads.length === 0 ? (
+          <p className="text-center text-muted-foreground">No comments yet</p>
+        ) : (
+          threads.map(c => (
+            <CommentThread key={c.id} replies={replies[c.id] || []} renderComment={renderComment}>
+              {renderComment(c)}
+            </CommentThread>
+          ))
+        )}
+      </div>
+      {replyTo && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground pt-2">
+          <span>Replying to @{replyTo.username}</span>
+          <button
+            onClick={() => {
+              setReplyTo(null);
+              setComment('');
+            }}
+            className="hover:text-foreground"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <div className="flex items-center gap-2 pt-4 border-t border-border">
+        <MentionInput
+          ref={inputRef}
+          value={comment}
+          onValueChange={setComment}
+          placeholder={replyTo ? `Reply to @${replyTo.username}...` : 'Add a comment...'}
+          suggestionsPosition="above"
+          className="flex-1 bg-secondary border-0"
+        />
+        <Button
+          onClick={() => addCommentMutation.mutate()}
+          disabled={!comment.trim() || addCommentMutation.isPending}
+          size="sm"
+        >
+          Post
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CommentThread: React.FC<{
+  replies: CommentWithLikes[];
+  renderComment: (comment: CommentWithLikes) => React.ReactNode;
+  children: React.ReactNode;
+}> = ({ replies, renderComment, children }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div>
+      {children}
+      {replies.length > 0 && (
+        <div className="ml-11 mt-2">
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <span className="w-6 h-px bg-muted-foreground" />
+            {expanded ? 'Hide replies' : `View replies (${replies.length})`}
+          </button>
+          {expanded && <div className="space-y-3 mt-3">{replies.map(renderComment)}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommentItemProps {
+  comment: CommentWithLikes;
+  postId: string;
+  isPinned: boolean;
+  canDelete: boolean;
+  canPin: boolean;
+  onReply: () => void;
+  onDelete: () => void;
+  onTogglePin: () => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  postId,
+  isPinned,
+  canDelete,
+  canPin,
+  onReply,
+  onDelete,
+  onTogglePin,
+}) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isLiked, setIsLiked] = useState(comment.is_liked);
+  const [likesCount, setLikesCount] = useState(comment.likes_count);
+  const [reportOpen, setReportOpen] = useState(false);
+
+  const likeMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.id) return;
+
+      const { error } = isLiked
+        ? await supabase
+          .from('comment_likes')
+          .delete()
+          .eq('comment_id', comment.id)
+          .eq('profile_id', profile.id)
+        : await supabase
+          .from('comment_likes')
+          .insert({ comment_id: comment.id, profile_id: profile.id });
+      if (error) throw error;
+    },
+    onMutate: () => {
+      setIsLiked(!isLiked);
+      setLikesCount(prev => isLiked ? prev - 1 : prev + 1);
+      return { wasLiked: isLiked, previousCount: likesCount };
+    },
+    // Restores from context, since this closure already sees the optimistic state
+    onError: (_, __, context) => {
+      setIsLiked(context.wasLiked);
+      setLikesCount(context.previousCount);
+      toast({ title: context.wasLiked ? 'Failed to unlike comment' : 'Failed to like comment', variant: 'destructive' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['post-comments', postId] });
+    },
+  });
+
+  return (
+    <div className="flex gap-3">
+      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+        {comment.profile.avatar_url ? (
+          <img src={comment.profile.avatar_url} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <User className="w-4 h-4 text-muted-foreground" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        {isPinned && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground mb-0.5">
+            <Pin className="w-3 h-3" /> Pinned
+          </p>
+        )}
+        <p className="text-sm break-words">
+          <span className="font-semibold mr-2">{comment.profile.username}</span>
+          <RichText text={comment.content} />
+        </p>
+        <div className="flex items-center gap-3 mt-1">
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+          </p>
+          {likesCount > 0 && (
+            <p className="text-xs text-muted-foreground">{likesCount} {likesCount === 1 ? 'like' : 'likes'}</p>
+          )}
+          <button onClick={onReply} className="text-xs text-muted-foreground hover:text-foreground font-medium">
+            Reply
+          </button>
+          {canPin && (
+            <button onClick={onTogglePin} className="text-xs text-muted-foreground hover:text-foreground">
+              {isPinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+          {canDelete && (
+            <button onClick={onDelete} className="text-xs text-muted-foreground hover:text-destructive">
+              Delete
+            </button>
+          )}
+          {comment.profile.id !== profile?.id && (
+            <button onClick={() => setReportOpen(true)} className="text-xs text-muted-foreground hover:text-foreground">
+              Report
+            </button>
+          )}
+        </div>
+      </div>
+      <button onClick={() => likeMutation.mutate()} className="hover:opacity-70">
+        <Heart className={cn("w-4 h-4", isLiked && "fill-destructive text-destructive")} />
+      </button>
+      <ReportDialog
+        open={reportOpen}
+        onOpenChange={setReportOpen}
+        contentType="comment"
+        contentId={comment.id}
+      />
+    </div>
+  );
+};
+
+export default CommentsSection;
@@ -11,8 +11,21 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ImagePlus, X, Loader2 } from 'lucide-react';
+import { ImagePlus, X, Loader2, Plus, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { MAX_POST_MEDIA } from '@/lib/post-media';
+import { MEDIA_PRESETS, prepareMedia, type CropArea } from '@/lib/media-pipeline';
+import ImageCropper from '@/components/media/ImageCropper';
+import MentionInput from '@/components/MentionInput';
+import { notifyMentions } from '@/lib/rich-text';
+
+interface MediaDraft {
+  file: File;
+  preview: string;
+  altText: string;
+  crop: CropArea | null;
+}
 
 interface CreatePostDialogProps {
   open: boolean;
@@ -25,62 +38,135 @@ const CreatePostDialog: React.FC<CreatePostDialogProps> = ({ open, onOpenChange
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [items, setItems] = useState<MediaDraft[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
   const [caption, setCaption] = useState('');
   const [isUploading, setIsUploading] = useState(false);
 
+  const selectedItem = items[selectedIndex];
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const room = MAX_POST_MEDIA - items.length;
+    if (files.length > room) {
+      toast({ title: `You can add up to ${MAX_POST_MEDIA} photos or videos`, variant: 'destructive' });
     }
+
+    const added = files.slice(0, room).map(file => ({
+      file,
+      preview: URL.createObjectURL(file),
+      altText: '',
+      crop: null,
+    }));
+    if (added.length === 0) return;
+    setItems(prev => [...prev, ...added]);
+    setSelectedIndex(items.length);
+  };
+
+  const removeItem = (index: number) => {
+    URL.revokeObjectURL(items[index].preview);
+    setItems(prev => prev.filter((_, i) => i !== index));
+    setSelectedIndex(prev => Math.max(0, Math.min(prev, items.length - 2)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    setItems(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSelectedIndex(target);
+  };
+
+  const setAltText = (altText: string) => {
+    setItems(prev => prev.map((item, i) => (i === selectedIndex ? { ...item, altText } : item)));
+  };
+
+  const setCrop = (crop: CropArea) => {
+    setItems(prev => prev.map((item, i) => (i === selectedIndex ? { ...item, crop } : item)));
+  };
+
+  const reset = () => {
+    items.forEach(item => URL.revokeObjectURL(item.preview));
+    setItems([]);
+    setSelectedIndex(0);
+    setCaption('');
   };
 
   const createPostMutation = useMutation({
     mutationFn: async () => {
-      if (!profile?.id || !user?.id || !selectedFile) return;
+      if (!profile?.id || !user?.id || items.length === 0) return;
       
       setIsUploading(true);
 
-      // Upload file to storage
-      const fileExt = selectedFile.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('posts')
-        .upload(fileName, selectedFile);
+      // Upload files to storage in carousel order
+      const uploaded: {
+        media_url: string;
+        media_type: string;
+        alt_text: string | null;
+        placeholder: string | null;
+        width: number | null;
+        height: number | null;
+      }[] = [];
+      for (const [index, item] of items.entries()) {
+        const processed = await prepareMedia(item.file, MEDIA_PRESETS.post, item.crop || undefined);
+        const fileExt = processed.file.name.split('.').pop();
+        const fileName = `${user.id}/${Date.now()}-${index}.${fileExt}`;
 
-      if (uploadError) throw uploadError;
+        const { error: uploadError } = await supabase.storage
+          .from('posts')
+          .upload(fileName, processed.file);
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('posts')
-        .getPublicUrl(fileName);
+        if (uploadError) throw uploadError;
 
-      // Create post
-      const mediaType = selectedFile.type.startsWith('video/') ? 'video' : 'image';
-      
-      const { error: postError } = await supabase.from('posts').insert({
-        profile_id: profile.id,
-        media_url: publicUrl,
-        media_type: mediaType,
-        caption: caption.trim() || null,
-      });
+        const { data: { publicUrl } } = supabase.storage
+          .from('posts')
+          .getPublicUrl(fileName);
+
+        uploaded.push({
+          media_url: publicUrl,
+          media_type: item.file.type.startsWith('video/') ? 'video' : 'image',
+          alt_text: item.altText.trim() || null,
+          placeholder: processed.placeholder,
+          width: processed.width,
+          height: processed.height,
+        });
+      }
+
+      // Create post with the first item as its cover
+      const { data: post, error: postError } = await supabase
+        .from('posts')
+        .insert({
+          profile_id: profile.id,
+          media_url: uploaded[0].media_url,
+          media_type: uploaded[0].media_type,
+          caption: caption.trim() || null,
+        })
+        .select('id')
+        .single();
 
       if (postError) throw postError;
+
+      const { error: mediaError } = await supabase
+        .from('post_media')
+        .insert(uploaded.map((media, position) => ({ ...media, post_id: post.id, position })));
+
+      if (mediaError) {
+        await supabase.from('posts').delete().eq('id', post.id);
+        throw mediaError;
+      }
+
+      await notifyMentions({ text: caption, actorId: profile.id, contentType: 'post', contentId: post.id });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['feed-posts'] });
       queryClient.invalidateQueries({ queryKey: ['profile-posts'] });
-      setSelectedFile(null);
-      setPreview(null);
-      setCaption('');
+      reset();
       setIsUploading(false);
       onOpenChange(false);
       toast({ title: 'Post created!' });
@@ -94,9 +180,7 @@ const CreatePostDialog: React.FC<CreatePostDialogProps> = ({ open, onOpenChange
 
   const handleClose = () => {
     if (!isUploading) {
-      setSelectedFile(null);
-      setPreview(null);
-      setCaption('');
+      reset();
       onOpenChange(false);
     }
   };
@@ -109,56 +193,125 @@ const CreatePostDialog: React.FC<CreatePostDialogProps> = ({ open, onOpenChange
         </DialogHeader>
 
         <div className="space-y-4 mt-4">
-          {!preview ? (
+          {!selectedItem ? (
             <button
               onClick={() => fileInputRef.current?.click()}
               className="w-full aspect-square border-2 border-dashed border-border rounded-lg flex flex-col items-center justify-center gap-4 hover:border-primary transition-colors"
             >
               <ImagePlus className="w-12 h-12 text-muted-foreground" />
               <span className="text-muted-foreground">
-                Click to select a photo or video
+                Click to select up to {MAX_POST_MEDIA} photos or videos
               </span>
             </button>
           ) : (
-            <div className="relative">
-              <button
-                onClick={() => {
-                  setSelectedFile(null);
-                  setPreview(null);
-                }}
-                className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background transition-colors z-10"
-              >
-                <X className="w-4 h-4" />
-              </button>
-              {selectedFile?.type.startsWith('video/') ? (
-                <video
-                  src={preview}
-                  controls
-                  className="w-full aspect-square object-cover rounded-lg"
-                />
-              ) : (
-                <img
-                  src={preview}
-                  alt="Preview"
-                  className="w-full aspect-square object-cover rounded-lg"
-                />
+            <>
+              <div className="relative">
+                <button
+                  onClick={() => removeItem(selectedIndex)}
+                  className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background transition-colors z-10"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+                {selectedItem.file.type.startsWith('video/') ? (
+                  <video
+                    src={selectedItem.preview}
+                    controls
+                    className="w-full aspect-square object-cover rounded-lg"
+                  />
+                ) : (
+                  <ImageCropper
+                    src={selectedItem.preview}
+                    aspect={MEDIA_PRESETS.post.aspect}
+                    initialCrop={selectedItem.crop}
+                    onChange={setCrop}
+                  />
+                )}
+              </div>
+
+              {/* Carousel order */}
+              <div className="flex items-center gap-2 overflow-x-auto scrollbar-thin pb-1">
+                {items.map((item, idx) => (
+                  <button
+                    key={item.preview}
+                    onClick={() => setSelectedIndex(idx)}
+                    className={cn(
+                      'relative w-14 h-14 rounded-md overflow-hidden flex-shrink-0 border-2',
+                      idx === selectedIndex ? 'border-primary' : 'border-transparent'
+                    )}
+                  >
+                    {item.file.type.startsWith('video/') ? (
+                      <video src={item.preview} className="w-full h-full object-cover" />
+                    ) : (
+                      <img src={item.preview} alt="" className="w-full h-full object-cover" />
+                    )}
+                    <span className="absolute bottom-0 right-0 text-[10px] bg-background/80 px-1 rounded-tl">
+                      {idx + 1}
+                    </span>
+                  </button>
+                ))}
+                {items.length < MAX_POST_MEDIA && (
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-14 h-14 rounded-md border-2 border-dashed border-border flex items-center justify-center flex-shrink-0 hover:border-primary transition-colors"
+                  >
+                    <Plus className="w-5 h-5 text-muted-foreground" />
+                  </button>
+                )}
+              </div>
+
+              {items.length > 1 && (
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Item {selectedIndex + 1} of {items.length}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveItem(selectedIndex, -1)}
+                      disabled={selectedIndex === 0}
+                      title="Move earlier"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveItem(selectedIndex, 1)}
+                      disabled={selectedIndex === items.length - 1}
+                      title="Move later"
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
               )}
-            </div>
+
+              <div className="space-y-2">
+                <Label>Alt text</Label>
+                <Input
+                  value={selectedItem.altText}
+                  onChange={e => setAltText(e.target.value)}
+                  placeholder="Describe this photo for people with visual impairments"
+                  className="bg-secondary border-0"
+                  maxLength={300}
+                />
+              </div>
+            </>
           )}
 
           <input
             ref={fileInputRef}
             type="file"
             accept="image/*,video/*"
+            multiple
             onChange={handleFileSelect}
             className="hidden"
           />
 
           <div className="space-y-2">
             <Label>Caption</Label>
-            <Input
+            <MentionInput
               value={caption}
-              onChange={e => setCaption(e.target.value)}
+              onValueChange={setCaption}
               placeholder="Write a caption..."
               className="bg-secondary border-0"
               maxLength={2200}
@@ -170,7 +323,7 @@ const CreatePostDialog: React.FC<CreatePostDialogProps> = ({ open, onOpenChange
 
           <Button
             onClick={() => createPostMutation.mutate()}
-            disabled={!selectedFile || isUploading}
+            disabled={items.length === 0 || isUploading}
             className="w-full"
           >
             {isUploading ? (
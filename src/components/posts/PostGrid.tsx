@@ -0,0 +1,39 @@
+import React from 'react';
+import { Heart, MessageCircle, Copy } from 'lucide-react';
+
+export interface PostGridItem {
+  id: string;
+  media_url: string;
+  media_type: string;
+  media_count?: number;
+  likes_count: number;
+  comments_count: number;
+}
+
+interface PostGridProps {
+  posts: PostGridItem[];
+  onSelect?: (postId: string) => void;
+}
+
+const PostGrid: React.FC<PostGridProps> = ({ posts, onSelect }) => (
+  <div className="grid grid-cols-3 gap-1">
+    {posts.map(post => (
+      <div key={post.id} onClick={() => onSelect?.(post.id)} className="aspect-square bg-muted relative group cursor-pointer">
+        {post.media_type === 'video' ? (
+          <video src={post.media_url} muted playsInline className="w-full h-full object-cover" />
+        ) : (
+          <img src={post.media_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+        )}
+        {(post.media_count || 0) > 1 && (
+          <Copy className="absolute top-2 right-2 w-5 h-5 text-white drop-shadow" />
+        )}
+        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 text-white">
+          <div className="flex items-center gap-1"><Heart className="w-5 h-5 fill-white" /><span className="font-semibold">{post.likes_count || 0}</span></div>
+          <div className="flex items-center gap-1"><MessageCircle className="w-5 h-5 fill-white" /><span className="font-semibold">{post.comments_count || 0}</span></div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default PostGrid;
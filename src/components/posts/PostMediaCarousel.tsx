@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselPrevious,
+  CarouselNext,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import type { PostMedia } from '@/lib/post-media';
+
+interface PostMediaCarouselProps {
+  media: PostMedia[];
+}
+
+// Blurred placeholder from the upload pipeline sits behind the media until it loads
+const MediaItem: React.FC<{ item: PostMedia }> = ({ item }) => {
+  const [loaded, setLoaded] = useState(false);
+
+  return (
+    <div
+      className="w-full h-full bg-cover bg-center"
+      style={item.placeholder && !loaded ? { backgroundImage: `url(${item.placeholder})` } : undefined}
+    >
+      {item.media_type === 'video' ? (
+        <video
+          src={item.media_url}
+          autoPlay
+          loop
+          muted
+          playsInline
+          aria-label={item.alt_text || undefined}
+          onLoadedData={() => setLoaded(true)}
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        <img
+          src={item.media_url}
+          alt={item.alt_text || 'Post'}
+          loading="lazy"
+          onLoad={() => setLoaded(true)}
+          className={cn('w-full h-full object-cover transition-opacity', loaded ? 'opacity-100' : 'opacity-0')}
+        />
+      )}
+    </div>
+  );
+};
+
+const PostMediaCarousel: React.FC<PostMediaCarouselProps> = ({ media }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  if (media.length === 1) {
+    return (
+      <div className="aspect-square bg-muted">
+        <MediaItem item={media[0]} />
+      </div>
+    );
+  }
+
+  return (
+    <Carousel setApi={setApi} className="aspect-square bg-muted">
+      <CarouselContent className="ml-0">
+        {media.map((item, idx) => (
+          <CarouselItem key={item.id || idx} className="pl-0 aspect-square">
+            <MediaItem item={item} />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious variant="secondary" className="left-2 bg-background/80 border-0 disabled:opacity-0" />
+      <CarouselNext variant="secondary" className="right-2 bg-background/80 border-0 disabled:opacity-0" />
+
+      <span className="absolute top-3 right-3 text-xs bg-background/80 px-2 py-0.5 rounded-full">
+        {current + 1}/{media.length}
+      </span>
+      <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-1">
+        {media.map((_, idx) => (
+          <button
+            key={idx}
+            onClick={() => api?.scrollTo(idx)}
+            aria-label={`Go to item ${idx + 1}`}
+            className={cn(
+              'w-1.5 h-1.5 rounded-full transition-colors',
+              idx === current ? 'bg-primary' : 'bg-white/60'
+            )}
+          />
+        ))}
+      </div>
+    </Carousel>
+  );
+};
+
+export default PostMediaCarousel;
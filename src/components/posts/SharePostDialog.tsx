@@ -13,24 +13,27 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { findOrCreateConversation } from '@/lib/conversations';
 
 interface SharePostDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  postId: string;
-  postUrl: string;
+  postId?: string;
+  // Shares this profile instead of a post
+  profileId?: string;
 }
 
 const SharePostDialog: React.FC<SharePostDialogProps> = ({
   open,
   onOpenChange,
   postId,
-  postUrl,
+  profileId,
 }) => {
   const { profile } = useAuth();
   const [search, setSearch] = useState('');
   const [selected, setSelected] = useState<string[]>([]);
   const { toast } = useToast();
+  const noun = profileId ? 'profile' : 'post';
 
   const { data: users = [], isLoading } = useQuery({
     queryKey: ['share-users', search],
@@ -59,70 +62,26 @@ const SharePostDialog: React.FC<SharePostDialogProps> = ({
       if (!profile?.id || selected.length === 0) return;
 
       for (const userId of selected) {
-        // Find or create conversation
-        const { data: existingConvs } = await supabase
-          .from('conversation_participants')
-          .select('conversation_id')
-          .eq('profile_id', profile.id);
+        const { id: conversationId } = await findOrCreateConversation(profile.id, userId);
 
-        let conversationId: string | null = null;
-
-        if (existingConvs && existingConvs.length > 0) {
-          for (const conv of existingConvs) {
-            const { data: otherParticipant } = await supabase
-              .from('conversation_participants')
-              .select('profile_id')
-              .eq('conversation_id', conv.conversation_id)
-              .eq('profile_id', userId)
-              .maybeSingle();
-
-            if (otherParticipant) {
-              conversationId = conv.conversation_id;
-              break;
-            }
-          }
-        }
-
-        if (!conversationId) {
-          // Create new conversation
-          const { data: newConv, error: convError } = await supabase
-            .from('conversations')
-            .insert({})
-            .select('id')
-            .single();
-
-          if (convError) throw convError;
-          conversationId = newConv.id;
-
-          // Add participants
-          await supabase.from('conversation_participants').insert([
-            { conversation_id: conversationId, profile_id: profile.id },
-            { conversation_id: conversationId, profile_id: userId },
-          ]);
-        }
-
-        // Send message with post
-        await supabase.from('messages').insert({
+        const { error } = await supabase.from('messages').insert({
           conversation_id: conversationId,
           sender_id: profile.id,
-          content: `Shared a post: ${postUrl}`,
-          message_type: 'text',
+          content: null,
+          ...(profileId
+            ? { message_type: 'profile_share', shared_profile_id: profileId }
+            : { message_type: 'post_share', shared_post_id: postId }),
         });
-
-        // Update conversation timestamp
-        await supabase
-          .from('conversations')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', conversationId);
+        if (error) throw error;
       }
     },
     onSuccess: () => {
-      toast({ title: 'Post shared!' });
+      toast({ title: profileId ? 'Profile shared!' : 'Post shared!' });
       setSelected([]);
       onOpenChange(false);
     },
     onError: () => {
-      toast({ title: 'Failed to share post', variant: 'destructive' });
+      toast({ title: `Failed to share ${noun}`, variant: 'destructive' });
     },
   });
 
@@ -138,7 +97,7 @@ const SharePostDialog: React.FC<SharePostDialogProps> = ({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="bg-card max-w-md">
         <DialogHeader>
-          <DialogTitle>Share post</DialogTitle>
+          <DialogTitle>Share {noun}</DialogTitle>
         </DialogHeader>
 
         <div className="relative mb-4">
@@ -0,0 +1,122 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+interface FollowRequest {
+  id: string;
+  created_at: string;
+  requester: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+}
+
+type RequestAction = 'confirm' | 'delete';
+
+// Pending requests to follow the current (private) account
+const FollowRequestsList: React.FC = () => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['follow-requests', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('follow_requests')
+        .select(`
+          id,
+          created_at,
+          requester:profiles!follow_requests_requester_id_fkey (
+            id,
+            username,
+            display_name,
+            avatar_url
+          )
+        `)
+        .eq('target_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).filter(r => r.requester) as FollowRequest[];
+    },
+    enabled: !!profile?.id,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ requestId, action }: { requestId: string; action: RequestAction }) => {
+      const { error } = action === 'confirm'
+        ? await supabase.rpc('approve_follow_request', { _request_id: requestId })
+        : await supabase.from('follow_requests').delete().eq('id', requestId);
+      if (error) throw error;
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['follow-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['followers-count'] });
+      toast({ title: action === 'confirm' ? 'Request confirmed' : 'Request deleted' });
+    },
+    onError: () => toast({ title: 'Failed to update request', variant: 'destructive' }),
+  });
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h2 className="font-semibold mb-2">
+        Follow requests <span className="text-muted-foreground font-normal">{requests.length}</span>
+      </h2>
+      <div className="space-y-1">
+        {requests.map(request => (
+          <div key={request.id} className="flex items-center gap-3 p-4 rounded-lg bg-card">
+            <button
+              onClick={() => navigate(`/profile/${request.requester.username}`)}
+              className="flex items-center gap-3 flex-1 min-w-0 text-left"
+            >
+              <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                {request.requester.avatar_url ? (
+                  <img src={request.requester.avatar_url} alt={request.requester.username} className="w-full h-full object-cover" />
+                ) : (
+                  <User className="w-5 h-5 text-muted-foreground" />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{request.requester.username}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {request.requester.display_name} · {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                </p>
+              </div>
+            </button>
+            <Button
+              size="sm"
+              disabled={respondMutation.isPending}
+              onClick={() => respondMutation.mutate({ requestId: request.id, action: 'confirm' })}
+            >
+              Confirm
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={respondMutation.isPending}
+              onClick={() => respondMutation.mutate({ requestId: request.id, action: 'delete' })}
+            >
+              Delete
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FollowRequestsList;
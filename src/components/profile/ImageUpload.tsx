@@ -4,22 +4,32 @@ import { supabase } from '@/integrations/supabase/client';
 import { useMutation } from '@tanstack/react-query';
 import { Camera, Loader2, User } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import CropDialog from '@/components/media/CropDialog';
+import { MEDIA_PRESETS, type ProcessedMedia } from '@/lib/media-pipeline';
 
 interface ImageUploadProps {
   currentUrl?: string | null;
   onUploadComplete: (url: string) => void;
   size?: 'sm' | 'md' | 'lg';
+  // Path in the avatars bucket without extension, relative to the user's folder
+  storageName?: string;
+  cropTitle?: string;
+  successMessage?: string;
 }
 
 const ImageUpload: React.FC<ImageUploadProps> = ({ 
   currentUrl, 
   onUploadComplete,
-  size = 'lg' 
+  size = 'lg',
+  storageName = 'avatar',
+  cropTitle = 'Crop profile picture',
+  successMessage = 'Profile picture updated!',
 }) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
 
   const sizeClasses = {
     sm: 'w-16 h-16',
@@ -33,9 +43,10 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     lg: 'w-16 h-16',
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !user?.id) return;
+    e.target.value = '';
+    if (!file) return;
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
@@ -49,12 +60,19 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
       return;
     }
 
+    setPendingFile(file);
+  };
+
+  const handleUpload = async ({ file }: ProcessedMedia) => {
+    setPendingFile(null);
+    if (!user?.id) return;
+
     setIsUploading(true);
 
     try {
       // Upload file to storage
       const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/avatar.${fileExt}`;
+      const fileName = `${user.id}/${storageName}.${fileExt}`;
       
       // Delete old avatar if exists
       await supabase.storage.from('avatars').remove([fileName]);
@@ -72,7 +90,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
 
       const urlWithCacheBust = `${publicUrl}?t=${Date.now()}`;
       onUploadComplete(urlWithCacheBust);
-      toast({ title: 'Profile picture updated!' });
+      toast({ title: successMessage });
     } catch (error) {
       console.error(error);
       toast({ title: 'Failed to upload image', variant: 'destructive' });
@@ -114,6 +132,15 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
         onChange={handleFileSelect}
         className="hidden"
       />
+
+      <CropDialog
+        file={pendingFile}
+        preset={MEDIA_PRESETS.avatar}
+        title={cropTitle}
+        round
+        onCancel={() => setPendingFile(null)}
+        onComplete={handleUpload}
+      />
     </div>
   );
 };
@@ -0,0 +1,144 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface RestrictedAccount {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
+type Restriction = 'blocked' | 'muted';
+
+const COPY: Record<Restriction, { title: string; description: string; empty: string; action: string; done: string }> = {
+  blocked: {
+    title: 'Blocked accounts',
+    description: "Blocked accounts can't find your profile, posts, stories or notes, or message you.",
+    empty: "You haven't blocked anyone",
+    action: 'Unblock',
+    done: 'Unblocked',
+  },
+  muted: {
+    title: 'Muted accounts',
+    description: "Posts, stories and notes from muted accounts don't show in your feed. They aren't told.",
+    empty: "You haven't muted anyone",
+    action: 'Unmute',
+    done: 'Unmuted',
+  },
+};
+
+interface RestrictedAccountsDialogProps {
+  restriction: Restriction;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RestrictedAccountsDialog: React.FC<RestrictedAccountsDialogProps> = ({ restriction, open, onOpenChange }) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const copy = COPY[restriction];
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['restricted-accounts', restriction, profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      // Blocked profiles are hidden from the blocker too, so they come from an RPC
+      if (restriction === 'blocked') {
+        const { data, error } = await supabase.rpc('get_blocked_accounts');
+        if (error) throw error;
+        return (data || []) as RestrictedAccount[];
+      }
+
+      const { data, error } = await supabase
+        .from('mutes')
+        .select(`
+          muted:profiles!mutes_muted_id_fkey (
+            id,
+            username,
+            display_name,
+            avatar_url
+          )
+        `)
+        .eq('muter_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(m => m.muted).filter(Boolean) as RestrictedAccount[];
+    },
+    enabled: !!profile?.id && open,
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: async (account: RestrictedAccount) => {
+      const { error } = restriction === 'blocked'
+        ? await supabase.from('blocks').delete().eq('blocker_id', profile.id).eq('blocked_id', account.id)
+        : await supabase.from('mutes').delete().eq('muter_id', profile.id).eq('muted_id', account.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, account) => {
+      // Unblocking brings the account back everywhere, not just in this list
+      if (restriction === 'blocked') {
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['restricted-accounts', 'muted'] });
+        queryClient.invalidateQueries({ queryKey: ['is-muted'] });
+        queryClient.invalidateQueries({ queryKey: ['feed-posts'] });
+        queryClient.invalidateQueries({ queryKey: ['stories'] });
+        queryClient.invalidateQueries({ queryKey: ['notes'] });
+      }
+      toast({ title: `${copy.done} ${account.username}` });
+    },
+    onError: () => toast({ title: 'Something went wrong', variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card max-w-md">
+        <DialogHeader><DialogTitle>{copy.title}</DialogTitle></DialogHeader>
+        <p className="text-sm text-muted-foreground">{copy.description}</p>
+        <div className="max-h-80 overflow-y-auto scrollbar-thin mt-4">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-4 animate-pulse-soft">Loading...</p>
+          ) : accounts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">{copy.empty}</p>
+          ) : (
+            accounts.map(account => (
+              <div key={account.id} className="flex items-center gap-3 p-3 rounded-lg">
+                <div className="w-11 h-11 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                  {account.avatar_url ? <img src={account.avatar_url} alt="" className="w-full h-full object-cover" /> : <User className="w-5 h-5 text-muted-foreground" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{account.display_name}</p>
+                  <p className="text-sm text-muted-foreground truncate">@{account.username}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={liftMutation.isPending}
+                  onClick={() => liftMutation.mutate(account)}
+                >
+                  {copy.action}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestrictedAccountsDialog;
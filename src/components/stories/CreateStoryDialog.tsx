@@ -13,6 +13,8 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { MEDIA_PRESETS, prepareMedia, type CropArea } from '@/lib/media-pipeline';
+import ImageCropper from '@/components/media/ImageCropper';
 
 interface CreateStoryDialogProps {
   open: boolean;
@@ -23,6 +25,7 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
   const { profile, user } = useAuth();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
   const [isCloseFriendsOnly, setIsCloseFriendsOnly] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -33,6 +36,7 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
     const file = e.target.files?.[0];
     if (file) {
       setSelectedFile(file);
+      setCrop(null);
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreview(reader.result as string);
@@ -47,13 +51,14 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
 
       setIsUploading(true);
 
-      // Upload to storage
-      const fileExt = selectedFile.name.split('.').pop();
+      // Crop to 9:16, downscale and re-encode before uploading
+      const processed = await prepareMedia(selectedFile, MEDIA_PRESETS.story, crop || undefined);
+      const fileExt = processed.file.name.split('.').pop();
       const fileName = `${user.id}/${Date.now()}.${fileExt}`;
       
       const { error: uploadError } = await supabase.storage
         .from('stories')
-        .upload(fileName, selectedFile);
+        .upload(fileName, processed.file);
 
       if (uploadError) throw uploadError;
 
@@ -68,6 +73,7 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
         media_url: publicUrl,
         media_type: mediaType,
         is_close_friends_only: isCloseFriendsOnly,
+        placeholder: processed.placeholder,
       });
 
       if (error) throw error;
@@ -87,6 +93,7 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
     if (!isUploading) {
       setSelectedFile(null);
       setPreview(null);
+      setCrop(null);
       setIsCloseFriendsOnly(false);
       setIsUploading(false);
       onOpenChange(false);
@@ -121,20 +128,23 @@ const CreateStoryDialog: React.FC<CreateStoryDialogProps> = ({ open, onOpenChang
               </span>
             </button>
           ) : (
-            <div className="relative aspect-[9/16] max-h-80 bg-muted rounded-lg overflow-hidden">
+            <div className="relative mx-auto w-full max-w-[180px]">
               <button
                 onClick={() => {
                   setSelectedFile(null);
                   setPreview(null);
+                  setCrop(null);
                 }}
                 className="absolute top-2 right-2 p-1 bg-background/80 rounded-full hover:bg-background transition-colors z-10"
               >
                 <X className="w-4 h-4" />
               </button>
               {selectedFile?.type.startsWith('video/') ? (
-                <video src={preview} className="w-full h-full object-contain" controls />
+                <div className="aspect-[9/16] bg-muted rounded-lg overflow-hidden">
+                  <video src={preview} className="w-full h-full object-contain" controls />
+                </div>
               ) : (
-                <img src={preview} alt="Preview" className="w-full h-full object-contain" />
+                <ImageCropper src={preview} aspect={MEDIA_PRESETS.story.aspect} onChange={setCrop} />
               )}
             </div>
           )}
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Image } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import StoryArchiveGrid from '@/components/stories/StoryArchiveGrid';
+import {
+  HIGHLIGHT_STORY_FIELDS,
+  MAX_HIGHLIGHT_TITLE_LENGTH,
+  type Highlight,
+  type HighlightStory,
+} from '@/lib/highlights';
+
+interface HighlightEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this highlight; creates a new one when omitted
+  highlight?: Highlight | null;
+}
+
+const HighlightEditorDialog: React.FC<HighlightEditorDialogProps> = ({ open, onOpenChange, highlight }) => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [coverId, setCoverId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(highlight?.title || '');
+    setSelectedIds(highlight?.stories.map(s => s.id) || []);
+    setCoverId(highlight?.cover?.id || null);
+  }, [open, highlight]);
+
+  const { data: archive = [], isLoading } = useQuery({
+    queryKey: ['story-archive', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+      const { data, error } = await supabase
+        .from('stories')
+        .select(HIGHLIGHT_STORY_FIELDS)
+        .eq('profile_id', profile.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as HighlightStory[];
+    },
+    enabled: !!profile?.id && open,
+  });
+
+  // The cover has to be one of the selected stories; default to the first
+  const effectiveCoverId = coverId && selectedIds.includes(coverId) ? coverId : selectedIds[0] || null;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['highlights'] });
+    queryClient.invalidateQueries({ queryKey: ['stories'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.id) return;
+      const fields = { title: title.trim(), cover_story_id: effectiveCoverId };
+
+      let highlightId = highlight?.id;
+      if (highlightId) {
+        const { error } = await supabase.from('story_highlights').update(fields).eq('id', highlightId);
+        if (error) throw error;
+
+        const removed = highlight.stories.map(s => s.id).filter(id => !selectedIds.includes(id));
+        if (removed.length > 0) {
+          const { error: removeError } = await supabase
+            .from('story_highlight_items')
+            .delete()
+            .eq('highlight_id', highlightId)
+            .in('story_id', removed);
+          if (removeError) throw removeError;
+        }
+      } else {
+        const { data, error } = await supabase
+          .from('story_highlights')
+          .insert({ ...fields, profile_id: profile.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+        highlightId = data.id;
+      }
+
+      const { error: itemsError } = await supabase
+        .from('story_highlight_items')
+        .upsert(
+          selectedIds.map(storyId => ({ highlight_id: highlightId, story_id: storyId })),
+          { onConflict: 'highlight_id,story_id', ignoreDuplicates: true }
+        );
+      if (itemsError) throw itemsError;
+    },
+    onSuccess: () => {
+      invalidate();
+      onOpenChange(false);
+      toast({ title: highlight ? 'Highlight updated' : 'Highlight created' });
+    },
+    onError: () => toast({ title: 'Failed to save highlight', variant: 'destructive' }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('story_highlights').delete().eq('id', highlight.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      onOpenChange(false);
+      toast({ title: 'Highlight deleted' });
+    },
+    onError: () => toast({ title: 'Failed to delete highlight', variant: 'destructive' }),
+  });
+
+  const toggleSelect = (story: HighlightStory) => {
+    setSelectedIds(prev => (prev.includes(story.id) ? prev.filter(id => id !== story.id) : [...prev, story.id]));
+  };
+
+  const isBusy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card max-w-md">
+        <DialogHeader><DialogTitle>{highlight ? 'Edit highlight' : 'New highlight'}</DialogTitle></DialogHeader>
+        <Input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          maxLength={MAX_HIGHLIGHT_TITLE_LENGTH}
+          placeholder="Highlight name"
+          className="bg-secondary border-0"
+        />
+        <p className="text-xs text-muted-foreground">
+          Pick stories from your archive. Use the image button on a selected story to make it the cover.
+        </p>
+        <div className="max-h-96 overflow-y-auto scrollbar-thin">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-4 animate-pulse-soft">Loading...</p>
+          ) : archive.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">Your archive is empty. Stories you share are kept here after they disappear.</p>
+          ) : (
+            <StoryArchiveGrid
+              stories={archive}
+              onSelect={toggleSelect}
+              renderOverlay={story => {
+                const selected = selectedIds.includes(story.id);
+                return (
+                  <>
+                    <span className={cn(
+                      'absolute top-1 right-1 w-5 h-5 rounded-full border-2 border-white flex items-center justify-center',
+                      selected ? 'bg-primary' : 'bg-black/30'
+                    )}>
+                      {selected && <Check className="w-3 h-3 text-primary-foreground" />}
+                    </span>
+                    {selected && (
+                      <span
+                        role="button"
+                        aria-label="Use as cover"
+                        onClick={e => {
+                          e.stopPropagation();
+                          setCoverId(story.id);
+                        }}
+                        className={cn(
+                          'absolute bottom-1 right-1 p-1 rounded-full',
+                          effectiveCoverId === story.id ? 'bg-primary text-primary-foreground' : 'bg-black/50 text-white'
+                        )}
+                      >
+                        <Image className="w-3 h-3" />
+                      </span>
+                    )}
+                  </>
+                );
+              }}
+            />
+          )}
+        </div>
+        <div className="flex gap-2">
+          {highlight && (
+            <Button variant="ghost" className="text-destructive" disabled={isBusy} onClick={() => deleteMutation.mutate()}>
+              Delete
+            </Button>
+          )}
+          <Button
+            className="flex-1"
+            disabled={!title.trim() || selectedIds.length === 0 || isBusy}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HighlightEditorDialog;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, User } from 'lucide-react';
+import StoryViewer from '@/components/stories/StoryViewer';
+import HighlightEditorDialog from '@/components/stories/HighlightEditorDialog';
+import { fetchHighlights, type Highlight } from '@/lib/highlights';
+
+interface HighlightsBarProps {
+  profile: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  };
+  isOwnProfile: boolean;
+}
+
+// Highlight circles shown on a profile above the posts grid
+const HighlightsBar: React.FC<HighlightsBarProps> = ({ profile, isOwnProfile }) => {
+  const [viewing, setViewing] = useState<Highlight | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<Highlight | null>(null);
+
+  const { data: highlights = [] } = useQuery({
+    queryKey: ['highlights', profile.id],
+    queryFn: () => fetchHighlights(profile.id, isOwnProfile),
+  });
+
+  const openEditor = (highlight: Highlight | null) => {
+    setViewing(null);
+    setEditing(highlight);
+    setEditorOpen(true);
+  };
+
+  if (!isOwnProfile && highlights.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex gap-4 mb-8 overflow-x-auto scrollbar-thin">
+        {highlights.map(highlight => (
+          <button
+            key={highlight.id}
+            // Only the owner can end up with an empty highlight, which opens straight into editing
+            onClick={() => (highlight.stories.length > 0 ? setViewing(highlight) : openEditor(highlight))}
+            className="flex flex-col items-center gap-1 min-w-fit"
+          >
+            <div className="w-16 h-16 md:w-20 md:h-20 rounded-full p-0.5 border border-border">
+              <div className="w-full h-full rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                {highlight.cover ? (
+                  highlight.cover.media_type === 'video' ? (
+                    <video src={highlight.cover.media_url} muted playsInline className="w-full h-full object-cover" />
+                  ) : (
+                    <img src={highlight.cover.media_url} alt={highlight.title} className="w-full h-full object-cover" />
+                  )
+                ) : (
+                  <User className="w-6 h-6 text-muted-foreground" />
+                )}
+              </div>
+            </div>
+            <span className="text-xs max-w-[5rem] truncate">{highlight.title}</span>
+          </button>
+        ))}
+        {isOwnProfile && (
+          <button onClick={() => openEditor(null)} className="flex flex-col items-center gap-1 min-w-fit">
+            <div className="w-16 h-16 md:w-20 md:h-20 rounded-full border border-border flex items-center justify-center">
+              <Plus className="w-6 h-6" />
+            </div>
+            <span className="text-xs">New</span>
+          </button>
+        )}
+      </div>
+
+      {viewing && (
+        <StoryViewer
+          stories={viewing.stories}
+          profile={profile}
+          onClose={() => setViewing(null)}
+          onEdit={isOwnProfile ? () => openEditor(viewing) : undefined}
+        />
+      )}
+
+      {isOwnProfile && (
+        <HighlightEditorDialog open={editorOpen} onOpenChange={setEditorOpen} highlight={editing} />
+      )}
+    </>
+  );
+};
+
+export default HighlightsBar;
@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { User, Plus } from 'lucide-react';
 import StoryViewer from './StoryViewer';
 import CreateStoryDialog from './CreateStoryDialog';
+import { useToast } from '@/hooks/use-toast';
 
 interface Story {
   id: string;
@@ -29,10 +31,13 @@ interface GroupedStories {
 
 const StoriesBar: React.FC = () => {
   const { profile } = useAuth();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [viewingStories, setViewingStories] = useState<GroupedStories | null>(null);
+  const [viewingIndex, setViewingIndex] = useState(0);
   const [createOpen, setCreateOpen] = useState(false);
 
-  const { data: groupedStories = [] } = useQuery({
+  const { data: groupedStories = [], isFetched } = useQuery({
     queryKey: ['stories', profile?.id],
     queryFn: async () => {
       if (!profile?.id) return [];
@@ -69,11 +74,20 @@ const StoriesBar: React.FC = () => {
 
       const closeFriendIds = new Set((closeFriendsData || []).map(cf => cf.user_id));
 
+      // Muted accounts stay out of the bar
+      const { data: mutedData } = await supabase
+        .from('mutes')
+        .select('muted_id')
+        .eq('muter_id', profile.id);
+
+      const mutedIds = new Set((mutedData || []).map(m => m.muted_id));
+
       // Group by profile
       const grouped: Record<string, GroupedStories> = {};
       
       (data as Story[]).forEach(story => {
         const profileId = story.profile.id;
+        if (mutedIds.has(profileId)) return;
         if (!grouped[profileId]) {
           grouped[profileId] = {
             profile: story.profile,
@@ -100,6 +114,44 @@ const StoriesBar: React.FC = () => {
     refetchInterval: 30000,
   });
 
+  // Notifications link here with ?story=<id>. Stories that dropped out of the
+  // bar (expired, muted) are fetched on their own if they're still visible.
+  const linkedStoryId = searchParams.get('story');
+  useEffect(() => {
+    if (!linkedStoryId || !isFetched) return;
+    setSearchParams(params => {
+      params.delete('story');
+      return params;
+    }, { replace: true });
+
+    const group = groupedStories.find(g => g.stories.some(s => s.id === linkedStoryId));
+    if (group) {
+      setViewingIndex(group.stories.findIndex(s => s.id === linkedStoryId));
+      setViewingStories(group);
+      return;
+    }
+
+    supabase
+      .from('stories')
+      .select('*, profile:profiles (id, username, display_name, avatar_url)')
+      .eq('id', linkedStoryId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!data?.profile) {
+          toast({ title: 'This story is no longer available' });
+          return;
+        }
+        const story = data as unknown as Story;
+        setViewingIndex(0);
+        setViewingStories({ profile: story.profile, stories: [story], hasUnviewed: false, isCloseFriend: false });
+      });
+  }, [linkedStoryId, isFetched, groupedStories, setSearchParams, toast]);
+
+  const openStories = (group: GroupedStories) => {
+    setViewingIndex(0);
+    setViewingStories(group);
+  };
+
   const myStories = groupedStories.find(g => g.profile.id === profile?.id);
   const otherStories = groupedStories.filter(g => g.profile.id !== profile?.id);
 
@@ -133,7 +185,7 @@ const StoriesBar: React.FC = () => {
         {/* My stories if I have any */}
         {myStories && myStories.stories.length > 0 && (
           <button
-            onClick={() => setViewingStories(myStories)}
+            onClick={() => openStories(myStories)}
             className="flex flex-col items-center gap-1 min-w-fit"
           >
             <div className={myStories.hasUnviewed ? 'story-ring' : ''}>
@@ -157,7 +209,7 @@ const StoriesBar: React.FC = () => {
         {otherStories.map(group => (
           <button
             key={group.profile.id}
-            onClick={() => setViewingStories(group)}
+            onClick={() => openStories(group)}
             className="flex flex-col items-center gap-1 min-w-fit"
           >
             <div className={group.hasUnviewed 
@@ -185,6 +237,7 @@ const StoriesBar: React.FC = () => {
         <StoryViewer
           stories={viewingStories.stories}
           profile={viewingStories.profile}
+          initialIndex={viewingIndex}
           onClose={() => setViewingStories(null)}
         />
       )}
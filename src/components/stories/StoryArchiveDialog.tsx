@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import StoryArchiveGrid from '@/components/stories/StoryArchiveGrid';
+import StoryViewer from '@/components/stories/StoryViewer';
+import { HIGHLIGHT_STORY_FIELDS, type HighlightStory } from '@/lib/highlights';
+
+interface StoryArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every story the current user has shared, including expired ones, which
+// only the owner can still see
+const StoryArchiveDialog: React.FC<StoryArchiveDialogProps> = ({ open, onOpenChange }) => {
+  const { profile } = useAuth();
+  const [viewing, setViewing] = useState<HighlightStory | null>(null);
+
+  const { data: archive = [], isLoading } = useQuery({
+    queryKey: ['story-archive', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+      const { data, error } = await supabase
+        .from('stories')
+        .select(HIGHLIGHT_STORY_FIELDS)
+        .eq('profile_id', profile.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as HighlightStory[];
+    },
+    enabled: !!profile?.id && open,
+  });
+
+  // The viewer is a full-screen overlay, so the dialog steps aside while it's open
+  const openStory = (story: HighlightStory) => {
+    setViewing(story);
+    onOpenChange(false);
+  };
+
+  const closeStory = () => {
+    setViewing(null);
+    onOpenChange(true);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="bg-card max-w-md">
+          <DialogHeader><DialogTitle>Story archive</DialogTitle></DialogHeader>
+          <p className="text-sm text-muted-foreground">Only you can see your archive.</p>
+          <div className="max-h-[60vh] overflow-y-auto scrollbar-thin">
+            {isLoading ? (
+              <p className="text-center text-muted-foreground py-4 animate-pulse-soft">Loading...</p>
+            ) : archive.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">Stories you share are kept here after they disappear.</p>
+            ) : (
+              <StoryArchiveGrid stories={archive} onSelect={openStory} />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {viewing && profile && (
+        <StoryViewer stories={[viewing]} profile={profile} onClose={closeStory} />
+      )}
+    </>
+  );
+};
+
+export default StoryArchiveDialog;
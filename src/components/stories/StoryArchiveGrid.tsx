@@ -0,0 +1,40 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { HighlightStory } from '@/lib/highlights';
+
+interface StoryArchiveGridProps {
+  stories: HighlightStory[];
+  onSelect: (story: HighlightStory) => void;
+  // Extra content drawn over a thumbnail, e.g. a selection marker
+  renderOverlay?: (story: HighlightStory) => React.ReactNode;
+  className?: string;
+}
+
+// Thumbnails of the owner's stories, newest first, each stamped with its date
+const StoryArchiveGrid: React.FC<StoryArchiveGridProps> = ({ stories, onSelect, renderOverlay, className }) => (
+  <div className={cn('grid grid-cols-3 gap-1', className)}>
+    {stories.map(story => (
+      <button
+        key={story.id}
+        onClick={() => onSelect(story)}
+        className="relative aspect-[9/16] bg-muted bg-cover bg-center overflow-hidden rounded-sm"
+        style={story.placeholder ? { backgroundImage: `url(${story.placeholder})` } : undefined}
+      >
+        {story.media_type === 'video' ? (
+          <video src={story.media_url} muted playsInline className="w-full h-full object-cover" />
+        ) : (
+          <img src={story.media_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+        )}
+        <span className="absolute top-1 left-1 bg-background/80 rounded px-1 text-[10px] font-medium leading-tight text-center">
+          {format(new Date(story.created_at), 'd')}
+          <br />
+          {format(new Date(story.created_at), 'MMM')}
+        </span>
+        {renderOverlay?.(story)}
+      </button>
+    ))}
+  </div>
+);
+
+export default StoryArchiveGrid;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { User, Heart } from 'lucide-react';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { cn } from '@/lib/utils';
+
+interface InsightProfile {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
+interface StoryViewer {
+  viewed_at: string | null;
+  viewer: InsightProfile | null;
+}
+
+interface StoryReply {
+  id: string;
+  content: string | null;
+  created_at: string;
+  sender: InsightProfile | null;
+}
+
+interface StoryInsightsSheetProps {
+  storyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PROFILE_FIELDS = 'id, username, display_name, avatar_url';
+
+const Avatar: React.FC<{ url: string | null }> = ({ url }) => (
+  <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+    {url ? <img src={url} alt="" className="w-full h-full object-cover" /> : <User className="w-5 h-5 text-muted-foreground" />}
+  </div>
+);
+
+// Who saw, liked and replied to one of the owner's stories, plus how people
+// moved through it. Every query relies on RLS limiting the rows to the owner.
+const StoryInsightsSheet: React.FC<StoryInsightsSheetProps> = ({ storyId, open, onOpenChange }) => {
+  const navigate = useNavigate();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['story-insights', storyId],
+    queryFn: async () => {
+      const [viewsRes, likesRes, repliesRes, countsRes] = await Promise.all([
+        supabase
+          .from('story_views')
+          .select(`viewed_at, viewer:profiles!story_views_viewer_id_fkey (${PROFILE_FIELDS})`)
+          .eq('story_id', storyId)
+          .order('viewed_at', { ascending: false }),
+        supabase.from('story_likes').select('profile_id').eq('story_id', storyId),
+        supabase
+          .from('messages')
+          .select(`id, content, created_at, sender:profiles!messages_sender_id_fkey (${PROFILE_FIELDS})`)
+          .eq('shared_story_id', storyId)
+          .eq('message_type', 'story_reply')
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_story_interaction_counts', { _story_id: storyId }),
+      ]);
+
+      if (viewsRes.error) throw viewsRes.error;
+
+      // Blocked accounts come back without a profile
+      const viewers = (viewsRes.data as unknown as StoryViewer[]).filter(v => v.viewer);
+      const replies = ((repliesRes.data || []) as unknown as StoryReply[]).filter(r => r.sender);
+      const counts = countsRes.data?.[0];
+
+      return {
+        viewers,
+        replies,
+        likerIds: new Set((likesRes.data || []).map(l => l.profile_id)),
+        forwardTaps: counts?.forward_taps ?? 0,
+        backTaps: counts?.back_taps ?? 0,
+        exits: counts?.exits ?? 0,
+      };
+    },
+    enabled: open,
+  });
+
+  const openProfile = (username: string) => {
+    onOpenChange(false);
+    navigate(`/profile/${username}`);
+  };
+
+  const stats = [
+    { label: 'Views', value: data?.viewers.length ?? 0 },
+    { label: 'Likes', value: data?.likerIds.size ?? 0 },
+    { label: 'Replies', value: data?.replies.length ?? 0 },
+    { label: 'Forward', value: data?.forwardTaps ?? 0 },
+    { label: 'Back', value: data?.backTaps ?? 0 },
+    { label: 'Exits', value: data?.exits ?? 0 },
+  ];
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange} shouldScaleBackground={false}>
+      <DrawerContent className="bg-card max-h-[80vh]">
+        <DrawerHeader><DrawerTitle>Story activity</DrawerTitle></DrawerHeader>
+
+        <div className="grid grid-cols-6 gap-2 px-4 pb-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="flex flex-col items-center">
+              <span className="font-semibold">{stat.value}</span>
+              <span className="text-[11px] text-muted-foreground">{stat.label}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto scrollbar-thin px-4 pb-6 border-t border-border">
+          {isLoading ? (
+            <p className="text-center text-muted-foreground py-6 animate-pulse-soft">Loading...</p>
+          ) : (
+            <>
+              {data && data.replies.length > 0 && (
+                <>
+                  <h3 className="text-sm font-medium text-muted-foreground mt-4 mb-2">Replies</h3>
+                  {data.replies.map(reply => (
+                    <button
+                      key={reply.id}
+                      onClick={() => openProfile(reply.sender.username)}
+                      className="w-full flex items-center gap-3 py-2 text-left"
+                    >
+                      <Avatar url={reply.sender.avatar_url} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm">
+                          <span className="font-medium mr-1">{reply.sender.username}</span>
+                          <span className="break-words">{reply.content}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(reply.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                </>
+              )}
+
+              <h3 className="text-sm font-medium text-muted-foreground mt-4 mb-2">Viewers</h3>
+              {!data || data.viewers.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">No views yet</p>
+              ) : (
+                data.viewers.map(({ viewer, viewed_at }) => (
+                  <button
+                    key={viewer.id}
+                    onClick={() => openProfile(viewer.username)}
+                    className="w-full flex items-center gap-3 py-2 text-left"
+                  >
+                    <Avatar url={viewer.avatar_url} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{viewer.username}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {viewer.display_name}
+                        {viewed_at && ` · ${formatDistanceToNow(new Date(viewed_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <Heart className={cn(
+                      'w-4 h-4 flex-shrink-0',
+                      data.likerIds.has(viewer.id) ? 'fill-destructive text-destructive' : 'invisible'
+                    )} />
+                  </button>
+                ))
+              )}
+            </>
+          )}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default StoryInsightsSheet;
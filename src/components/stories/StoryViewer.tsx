@@ -1,17 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
-import { X, ChevronLeft, ChevronRight, User, Heart, Send, Flag } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, ChevronUp, User, Heart, Send, Flag, Pencil } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-import { Input } from '@/components/ui/input';
+import ReportDialog from '@/components/moderation/ReportDialog';
+import StoryInsightsSheet from '@/components/stories/StoryInsightsSheet';
+import MentionInput from '@/components/MentionInput';
+import { findOrCreateConversation } from '@/lib/conversations';
+import { QUICK_REACTIONS } from '@/lib/messages';
 
 interface Story {
   id: string;
   media_url: string;
   media_type: string;
+  placeholder?: string | null;
   is_close_friends_only: boolean;
   created_at: string;
 }
@@ -27,18 +32,27 @@ interface StoryViewerProps {
   stories: Story[];
   profile: Profile;
   onClose: () => void;
+  initialIndex?: number;
+  // Set when viewing one of your own highlights
+  onEdit?: () => void;
 }
 
-const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose }) => {
+const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose, initialIndex = 0, onEdit }) => {
   const { profile: myProfile } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
   const [progress, setProgress] = useState(0);
   const [isLiked, setIsLiked] = useState(false);
-  const [comment, setComment] = useState('');
+  const [reply, setReply] = useState('');
+  // Typing a reply holds the story in place, like the report dialog does
+  const [isReplying, setIsReplying] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [insightsOpen, setInsightsOpen] = useState(false);
+  const touchStartY = useRef<number | null>(null);
 
   const currentStory = stories[currentIndex];
+  const isOwnStory = profile.id === myProfile?.id;
 
   // Mark story as viewed
   useEffect(() => {
@@ -52,13 +66,13 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
     }
   }, [currentStory, myProfile?.id, profile.id]);
 
-  // Progress bar and auto-advance
+  // Progress bar and auto-advance (paused while replying, reporting or reading insights)
   useEffect(() => {
+    if (reportOpen || isReplying || insightsOpen) return;
     const duration = 5000;
     const interval = 50;
     const increment = (interval / duration) * 100;
 
-    setProgress(0);
     const timer = setInterval(() => {
       setProgress(prev => {
         if (prev >= 100) {
@@ -74,7 +88,11 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
     }, interval);
 
     return () => clearInterval(timer);
-  }, [currentIndex, stories.length, onClose]);
+  }, [currentIndex, stories.length, onClose, reportOpen, isReplying, insightsOpen]);
+
+  useEffect(() => {
+    setProgress(0);
+  }, [currentIndex]);
 
   const likeMutation = useMutation({
     mutationFn: async () => {
@@ -91,38 +109,69 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
     onSuccess: () => setIsLiked(!isLiked),
   });
 
-  const commentMutation = useMutation({
-    mutationFn: async () => {
-      if (!myProfile?.id || !currentStory || !comment.trim()) return;
-      await supabase.from('story_comments').insert({ story_id: currentStory.id, profile_id: myProfile.id, content: comment.trim() });
-      if (profile.id !== myProfile.id) {
-        await supabase.from('notifications').insert({ profile_id: profile.id, type: 'comment', actor_id: myProfile.id, content_type: 'story', content_id: currentStory.id, message: comment.trim() });
-      }
+  // Replies and quick reactions go to the owner as a DM that carries the story
+  const replyMutation = useMutation({
+    mutationFn: async (content: string) => {
+      if (!myProfile?.id || !currentStory || isOwnStory) return;
+      const { id: conversationId } = await findOrCreateConversation(myProfile.id, profile.id);
+      const { error } = await supabase.from('messages').insert({
+        conversation_id: conversationId,
+        sender_id: myProfile.id,
+        content,
+        message_type: 'story_reply',
+        shared_story_id: currentStory.id,
+      });
+      if (error) throw error;
     },
-    onSuccess: () => {
-      setComment('');
-      toast({ title: 'Reply sent!' });
+    onSuccess: (_, content) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      if (content === reply.trim()) setReply('');
+      toast({ title: QUICK_REACTIONS.includes(content) ? 'Reaction sent' : 'Reply sent' });
     },
+    onError: () => toast({ title: 'Failed to send reply', variant: 'destructive' }),
   });
 
-  const reportMutation = useMutation({
-    mutationFn: async () => {
-      if (!myProfile?.id || !currentStory) return;
-      await supabase.from('reports').insert({ reporter_id: myProfile.id, content_type: 'story', content_id: currentStory.id, reason: 'Reported by user' });
-    },
-    onSuccess: () => toast({ title: 'Story reported. Admins will review it.' }),
-  });
+  const sendReply = () => {
+    if (reply.trim()) replyMutation.mutate(reply.trim());
+  };
+
+  // Taps and exits feed the owner's insights; auto-advance isn't counted
+  const trackInteraction = (interactionType: 'forward' | 'back' | 'exit') => {
+    if (!myProfile?.id || !currentStory || isOwnStory) return;
+    supabase.from('story_interactions').insert({ story_id: currentStory.id, profile_id: myProfile.id, interaction_type: interactionType }).then();
+  };
+
+  const goNext = () => {
+    trackInteraction('forward');
+    if (currentIndex < stories.length - 1) setCurrentIndex(i => i + 1); else onClose();
+  };
+  const goPrev = () => {
+    trackInteraction('back');
+    if (currentIndex > 0) setCurrentIndex(i => i - 1);
+  };
+  const exit = () => {
+    trackInteraction('exit');
+    onClose();
+  };
 
-  const goNext = () => { if (currentIndex < stories.length - 1) setCurrentIndex(i => i + 1); else onClose(); };
-  const goPrev = () => { if (currentIndex > 0) setCurrentIndex(i => i - 1); };
+  // Swiping up on your own story opens its insights
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartY.current = e.touches[0].clientY;
+  };
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartY.current === null) return;
+    const deltaY = touchStartY.current - e.changedTouches[0].clientY;
+    touchStartY.current = null;
+    if (isOwnStory && deltaY > 60) setInsightsOpen(true);
+  };
 
   return (
     <div className="fixed inset-0 z-50 bg-black flex items-center justify-center">
-      <button onClick={onClose} className="absolute top-4 right-4 z-50 p-2 hover:bg-white/10 rounded-full transition-colors">
+      <button onClick={exit} className="absolute top-4 right-4 z-50 p-2 hover:bg-white/10 rounded-full transition-colors">
         <X className="w-6 h-6 text-white" />
       </button>
 
-      <div className="relative w-full max-w-md h-full max-h-[90vh] bg-black">
+      <div className="relative w-full max-w-md h-full max-h-[90vh] bg-black" onTouchStart={handleTouchStart} onTouchEnd={handleTouchEnd}>
         {/* Progress bars */}
         <div className="absolute top-4 left-4 right-4 flex gap-1 z-40">
           {stories.map((_, idx) => (
@@ -142,7 +191,8 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
             <span className="text-white/60 text-sm ml-2">{formatDistanceToNow(new Date(currentStory.created_at), { addSuffix: true })}</span>
           </div>
           {currentStory.is_close_friends_only && <span className="text-xs bg-close-friends text-white px-2 py-0.5 rounded-full">Close Friends</span>}
-          <button onClick={() => reportMutation.mutate()} className="p-1 hover:bg-white/10 rounded-full"><Flag className="w-4 h-4 text-white" /></button>
+          {onEdit && <button onClick={onEdit} className="p-1 hover:bg-white/10 rounded-full" aria-label="Edit highlight"><Pencil className="w-4 h-4 text-white" /></button>}
+          <button onClick={() => setReportOpen(true)} className="p-1 hover:bg-white/10 rounded-full"><Flag className="w-4 h-4 text-white" /></button>
         </div>
 
         {/* Navigation areas */}
@@ -150,7 +200,10 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
         <button onClick={goNext} className="absolute right-0 top-1/2 -translate-y-1/2 w-1/3 h-2/3 z-30" />
 
         {/* Story content */}
-        <div className="w-full h-full flex items-center justify-center">
+        <div
+          className="w-full h-full flex items-center justify-center bg-cover bg-center"
+          style={currentStory.placeholder ? { backgroundImage: `url(${currentStory.placeholder})` } : undefined}
+        >
           {currentStory.media_type === 'video' ? (
             <video src={currentStory.media_url} autoPlay loop muted playsInline className="w-full h-full object-contain" />
           ) : (
@@ -158,27 +211,63 @@ const StoryViewer: React.FC<StoryViewerProps> = ({ stories, profile, onClose })
           )}
         </div>
 
+        {/* Quick reactions while the reply box is focused */}
+        {isReplying && !isOwnStory && (
+          <div className="absolute bottom-20 left-4 right-4 z-40 flex justify-around">
+            {QUICK_REACTIONS.map(emoji => (
+              <button
+                key={emoji}
+                // Keeps focus in the input so the picker doesn't close before the click lands
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => replyMutation.mutate(emoji)}
+                disabled={replyMutation.isPending}
+                className="text-3xl hover:scale-125 transition-transform"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Footer */}
-        <div className="absolute bottom-4 left-4 right-4 z-40 flex items-center gap-3">
-          <Input
-            value={comment}
-            onChange={e => setComment(e.target.value)}
-            placeholder="Send message"
-            className="flex-1 bg-transparent border border-white/30 rounded-full text-white placeholder:text-white/50"
-            onKeyDown={e => e.key === 'Enter' && comment.trim() && commentMutation.mutate()}
-          />
-          <button onClick={() => likeMutation.mutate()} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-            <Heart className={cn("w-6 h-6 text-white", isLiked && "fill-destructive text-destructive")} />
+        {isOwnStory ? (
+          <button
+            onClick={() => setInsightsOpen(true)}
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center text-white text-sm"
+          >
+            <ChevronUp className="w-5 h-5" />
+            Activity
           </button>
-          <button onClick={() => comment.trim() && commentMutation.mutate()} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-            <Send className="w-6 h-6 text-white" />
-          </button>
-        </div>
+        ) : (
+          <div className="absolute bottom-4 left-4 right-4 z-40 flex items-center gap-3">
+            <MentionInput
+              value={reply}
+              onValueChange={setReply}
+              suggestionsPosition="above"
+              onFocus={() => setIsReplying(true)}
+              onBlur={() => setIsReplying(false)}
+              placeholder={`Reply to ${profile.username}...`}
+              className="flex-1 min-w-0 bg-transparent border border-white/30 rounded-full text-white placeholder:text-white/50"
+              onKeyDown={e => e.key === 'Enter' && sendReply()}
+            />
+            <button onClick={() => likeMutation.mutate()} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <Heart className={cn("w-6 h-6 text-white", isLiked && "fill-destructive text-destructive")} />
+            </button>
+            <button onClick={sendReply} disabled={replyMutation.isPending} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <Send className="w-6 h-6 text-white" />
+            </button>
+          </div>
+        )}
 
         {/* Navigation arrows */}
         {currentIndex > 0 && <button onClick={goPrev} className="absolute left-2 top-1/2 -translate-y-1/2 p-1 bg-white/10 rounded-full hover:bg-white/20 transition-colors z-40"><ChevronLeft className="w-5 h-5 text-white" /></button>}
         {currentIndex < stories.length - 1 && <button onClick={goNext} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 bg-white/10 rounded-full hover:bg-white/20 transition-colors z-40"><ChevronRight className="w-5 h-5 text-white" /></button>}
       </div>
+
+      <ReportDialog open={reportOpen} onOpenChange={setReportOpen} contentType="story" contentId={currentStory.id} />
+      {isOwnStory && (
+        <StoryInsightsSheet storyId={currentStory.id} open={insightsOpen} onOpenChange={setInsightsOpen} />
+      )}
     </div>
   );
 };
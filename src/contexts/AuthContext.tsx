@@ -11,11 +11,11 @@ interface Profile {
   avatar_url: string | null;
   bio: string | null;
   is_private: boolean;
-  last_seen: string;
   created_at: string;
   is_verified?: boolean;
   verified_type?: string | null;
   badge_text?: string | null;
+  suspended_until?: string | null;
 }
 
 interface AuthContextType {
@@ -0,0 +1,105 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { PRESENCE_CHANNEL, type PresenceState } from '@/lib/presence';
+
+interface PresenceContextType {
+  // False when the user turned off "Show activity status"; they neither
+  // broadcast nor see anyone else's presence
+  showActiveStatus: boolean;
+  getPresence: (profileId: string | null | undefined) => PresenceState;
+}
+
+interface PresenceMeta {
+  status: Exclude<PresenceState, 'offline'>;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
+
+const touchLastSeen = () => {
+  supabase.rpc('touch_last_seen').then();
+};
+
+export const PresenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { profile } = useAuth();
+  const [presence, setPresence] = useState<Record<string, PresenceState>>({});
+
+  // Same query as the settings page, so toggling the setting updates this immediately
+  const { data: settings } = useQuery({
+    queryKey: ['user-settings', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return null;
+      const { data } = await supabase
+        .from('user_settings')
+        .select('*')
+        .eq('profile_id', profile.id)
+        .maybeSingle();
+      return data;
+    },
+    enabled: !!profile?.id,
+  });
+
+  const showActiveStatus = settings?.show_active_status ?? true;
+
+  useEffect(() => {
+    if (!profile?.id || !showActiveStatus) {
+      setPresence({});
+      return;
+    }
+
+    const channel = supabase.channel(PRESENCE_CHANNEL, {
+      config: { presence: { key: profile.id } },
+    });
+
+    const track = () => channel.track({ status: document.hidden ? 'away' : 'online' } satisfies PresenceMeta);
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceMeta>();
+        const next: Record<string, PresenceState> = {};
+        // A user with several tabs open is online if any of them is in the foreground
+        for (const [profileId, metas] of Object.entries(state)) {
+          next[profileId] = metas.some(meta => meta.status === 'online') ? 'online' : 'away';
+        }
+        setPresence(next);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          track();
+          touchLastSeen();
+        }
+      });
+
+    const handleVisibilityChange = () => {
+      track();
+      if (document.hidden) touchLastSeen();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      touchLastSeen();
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id, showActiveStatus]);
+
+  const getPresence = useCallback(
+    (profileId: string | null | undefined): PresenceState => (profileId && presence[profileId]) || 'offline',
+    [presence]
+  );
+
+  return (
+    <PresenceContext.Provider value={{ showActiveStatus, getPresence }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
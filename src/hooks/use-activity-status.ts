@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { usePresence } from '@/contexts/PresenceContext';
+import { getActivityText, type PresenceState } from '@/lib/presence';
+
+export interface ActivityStatus {
+  state: PresenceState;
+  text: string | null;
+}
+
+// Live presence for the given profiles, falling back to their last_seen
+// ("Active 5m ago") when they're offline and allow it to be shown
+export function useActivityStatus(profileIds: string[]) {
+  const { showActiveStatus, getPresence } = usePresence();
+  const ids = [...new Set(profileIds.filter(Boolean))].sort();
+
+  const { data: lastSeen = {} } = useQuery({
+    queryKey: ['activity-status', ids],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_activity_status', { _profile_ids: ids });
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(row => [row.profile_id, row.last_seen])) as Record<string, string>;
+    },
+    enabled: showActiveStatus && ids.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  return (profileId: string): ActivityStatus => {
+    if (!showActiveStatus) return { state: 'offline', text: null };
+    const state = getPresence(profileId);
+    return { state, text: getActivityText(state, lastSeen[profileId]) };
+  };
+}
@@ -0,0 +1,133 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { rankPosts, type AffinityMap } from '@/lib/feed-ranking';
+import type { PostMedia } from '@/lib/post-media';
+
+const PAGE_SIZE = 10;
+const CANDIDATE_WINDOW_DAYS = 14;
+// Separate quotas, so a busy site can't crowd out the accounts the viewer follows
+const FOLLOWING_CANDIDATE_LIMIT = 150;
+const DISCOVERY_CANDIDATE_LIMIT = 50;
+const AFFINITY_WINDOW_DAYS = 30;
+const EXPLORE_PAGE_SIZE = 24;
+
+export interface FeedPost {
+  id: string;
+  profile_id: string;
+  caption: string | null;
+  media_url: string;
+  media_type: string;
+  media: PostMedia[];
+  created_at: string;
+  profile: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+    is_verified?: boolean;
+    verified_type?: string | null;
+  };
+  likes_count: number;
+  comments_count: number;
+  is_liked: boolean;
+  is_saved: boolean;
+}
+
+export interface RankedFeedPost extends FeedPost {
+  is_following: boolean;
+}
+
+interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+const useFeedQuery = (queryKey: unknown[], profileId: string | undefined, enabled: boolean) =>
+  useInfiniteQuery({
+    queryKey,
+    initialPageParam: null as FeedCursor | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('get_feed_posts', {
+        _profile_id: profileId,
+        _before_created_at: pageParam?.created_at,
+        _before_id: pageParam?.id,
+        _limit: PAGE_SIZE,
+      });
+      if (error) throw error;
+      return (data || []) as unknown as FeedPost[];
+    },
+    getNextPageParam: lastPage => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { created_at: last.created_at, id: last.id };
+    },
+    enabled,
+  });
+
+// Own posts plus posts from followed accounts
+export function useFeedPosts() {
+  const { profile } = useAuth();
+  return useFeedQuery(['feed-posts', profile?.id], undefined, !!profile?.id);
+}
+
+export function useProfilePosts(profileId: string | undefined, enabled = true) {
+  return useFeedQuery(['profile-posts', profileId], profileId, !!profileId && enabled);
+}
+
+// Recent candidates ranked client-side; the whole ranked list is returned at once
+export function useForYouFeed() {
+  const { profile } = useAuth();
+
+  return useQuery({
+    // Kept out of the 'feed-posts' prefix so liking a post doesn't reshuffle the list
+    queryKey: ['for-you-feed', profile?.id],
+    queryFn: async () => {
+      const now = new Date();
+      const [candidates, affinityRows] = await Promise.all([
+        supabase.rpc('get_feed_candidates', {
+          _since: subDays(now, CANDIDATE_WINDOW_DAYS).toISOString(),
+          _following_limit: FOLLOWING_CANDIDATE_LIMIT,
+          _discovery_limit: DISCOVERY_CANDIDATE_LIMIT,
+        }),
+        supabase.rpc('get_my_affinity', {
+          _since: subDays(now, AFFINITY_WINDOW_DAYS).toISOString(),
+        }),
+      ]);
+      if (candidates.error) throw candidates.error;
+
+      const affinity: AffinityMap = {};
+      affinityRows.data?.forEach(row => {
+        affinity[row.profile_id] = { likes: row.likes, comments: row.comments, messages: row.messages };
+      });
+
+      return rankPosts((candidates.data || []) as unknown as RankedFeedPost[], affinity, now.getTime());
+    },
+    enabled: !!profile?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Popular public posts from accounts the user doesn't follow, ranked server-side
+export function useExplorePosts() {
+  const { profile } = useAuth();
+
+  return useInfiniteQuery({
+    // Offset pagination over a ranked list, so kept out of 'feed-posts' like For You
+    queryKey: ['explore-posts', profile?.id],
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('get_explore_posts', {
+        _offset: pageParam,
+        _limit: EXPLORE_PAGE_SIZE,
+      });
+      if (error) throw error;
+      return (data || []) as unknown as FeedPost[];
+    },
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < EXPLORE_PAGE_SIZE ? undefined : allPages.length * EXPLORE_PAGE_SIZE,
+    enabled: !!profile?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
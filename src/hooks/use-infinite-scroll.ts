@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+// Calls onLoadMore when the returned sentinel element scrolls into view.
+// The observer only reports changes, so it is rebuilt whenever enabled or
+// loadedCount changes; a sentinel still on screen after a page lands then
+// asks for the next one instead of waiting for a scroll.
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean, loadedCount = 0) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const callbackRef = useRef(onLoadMore);
+  callbackRef.current = onLoadMore;
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !enabled) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0]?.isIntersecting) callbackRef.current();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(node);
+
+    return () => observer.disconnect();
+  }, [enabled, loadedCount]);
+
+  return sentinelRef;
+}
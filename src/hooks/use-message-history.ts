@@ -0,0 +1,127 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  MESSAGE_THREAD_SELECT,
+  SHARED_CONTENT_SELECT,
+  type MessageReaction,
+  type QuotedMessage,
+  type SharedPost,
+  type SharedProfile,
+  type SharedStory,
+} from '@/lib/messages';
+
+const PAGE_SIZE = 40;
+
+export interface ChatMessage {
+  id: string;
+  content: string | null;
+  message_type: string;
+  file_url: string | null;
+  file_name: string | null;
+  file_size: number | null;
+  media_duration: number | null;
+  waveform: number[] | null;
+  created_at: string;
+  edited_at: string | null;
+  sender_id: string;
+  reply_to_id: string | null;
+  reply_to: QuotedMessage | null;
+  reactions: MessageReaction[];
+  shared_post: SharedPost | null;
+  shared_story: SharedStory | null;
+  shared_profile: SharedProfile | null;
+}
+
+interface MessageCursor {
+  created_at: string;
+  // Missing for a jump-to-date anchor, which starts at a timestamp rather than a message
+  id?: string;
+}
+
+// Older pages are fetched as "next" pages so that a refetch, which walks
+// forward from the first page, recomputes every cursor from fresh data and
+// can't leave gaps when new messages arrive.
+type MessagePageParam = { before: MessageCursor } | { after: MessageCursor } | null;
+
+interface MessagePage {
+  // Oldest first
+  messages: ChatMessage[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+const toCursor = (message: ChatMessage): MessageCursor => ({ created_at: message.created_at, id: message.id });
+
+const fetchMessagePage = async (conversationId: string, param: MessagePageParam): Promise<MessagePage> => {
+  let query = supabase
+    .from('messages')
+    .select(`*, ${SHARED_CONTENT_SELECT}, ${MESSAGE_THREAD_SELECT}`)
+    .eq('conversation_id', conversationId);
+
+  if (param && 'after' in param) {
+    const { created_at, id } = param.after;
+    query = query.or(
+      id ? `created_at.gt."${created_at}",and(created_at.eq."${created_at}",id.gt.${id})` : `created_at.gte."${created_at}"`
+    );
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) throw error;
+    const messages = data as unknown as ChatMessage[];
+    return { messages, hasOlder: true, hasNewer: messages.length === PAGE_SIZE };
+  }
+
+  if (param && 'before' in param) {
+    const { created_at, id } = param.before;
+    query = query.or(`created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`);
+  }
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (error) throw error;
+  const messages = (data as unknown as ChatMessage[]).reverse();
+  return { messages, hasOlder: messages.length === PAGE_SIZE, hasNewer: !!param };
+};
+
+// Keyset-paginated messages for a conversation. With an anchor (an ISO
+// timestamp) the history starts there and newer pages load on demand;
+// without one it starts at the latest message.
+export function useMessageHistory(conversationId: string, anchor: string | null) {
+  const query = useInfiniteQuery({
+    queryKey: ['messages', conversationId, anchor],
+    initialPageParam: (anchor ? { after: { created_at: anchor } } : null) as MessagePageParam,
+    queryFn: async ({ pageParam }) => {
+      const page = await fetchMessagePage(conversationId, pageParam);
+      // Nothing on or after the anchor, so the latest messages are the closest match
+      if (pageParam && 'after' in pageParam && !pageParam.after.id && page.messages.length === 0) {
+        return fetchMessagePage(conversationId, null);
+      }
+      return page;
+    },
+    getNextPageParam: (lastPage): MessagePageParam | undefined =>
+      lastPage.hasOlder && lastPage.messages.length ? { before: toCursor(lastPage.messages[0]) } : undefined,
+    getPreviousPageParam: (firstPage): MessagePageParam | undefined =>
+      firstPage.hasNewer && firstPage.messages.length
+        ? { after: toCursor(firstPage.messages[firstPage.messages.length - 1]) }
+        : undefined,
+    enabled: !!conversationId,
+  });
+
+  // Pages run newest to oldest, messages within a page oldest to newest
+  const messages = query.data ? [...query.data.pages].reverse().flatMap(page => page.messages) : [];
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    hasOlder: query.hasNextPage,
+    hasNewer: query.hasPreviousPage,
+    isFetchingOlder: query.isFetchingNextPage,
+    isFetchingNewer: query.isFetchingPreviousPage,
+    fetchOlder: query.fetchNextPage,
+    fetchNewer: query.fetchPreviousPage,
+  };
+}
@@ -0,0 +1,106 @@
+import { useEffect } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { NotificationRow } from '@/lib/notifications';
+
+const PAGE_SIZE = 30;
+
+export function useNotifications() {
+  const { profile } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: ['notifications', profile?.id, 'list'],
+    initialPageParam: null as Pick<NotificationRow, 'created_at' | 'id'> | null,
+    queryFn: async ({ pageParam }) => {
+      if (!profile?.id) return [];
+
+      let query = supabase
+        .from('notifications')
+        .select(`
+          id,
+          type,
+          content_type,
+          content_id,
+          message,
+          is_read,
+          created_at,
+          actor:profiles!notifications_actor_id_fkey (
+            id,
+            username,
+            display_name,
+            avatar_url,
+            is_verified,
+            verified_type
+          )
+        `)
+        .eq('profile_id', profile.id)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      // Compare on (created_at, id) so notifications sharing a timestamp
+      // across a page boundary aren't skipped
+      if (pageParam) {
+        const { created_at, id } = pageParam;
+        query = query.or(`created_at.lt.${created_at},and(created_at.eq.${created_at},id.lt.${id})`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as NotificationRow[];
+    },
+    getNextPageParam: lastPage => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      const { created_at, id } = lastPage[lastPage.length - 1];
+      return { created_at, id };
+    },
+    enabled: !!profile?.id,
+  });
+}
+
+export function useUnreadNotificationCount() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Live updates for the inbox and the badge; every notifications query shares this key prefix
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    const channel = supabase
+      .channel(`notifications-${profile.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `profile_id=eq.${profile.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['notifications', profile.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile?.id, queryClient]);
+
+  const { data: count = 0 } = useQuery({
+    queryKey: ['notifications', profile?.id, 'unread-count'],
+    queryFn: async () => {
+      if (!profile?.id) return 0;
+      const { count } = await supabase
+        .from('notifications')
+        .select('*', { count: 'exact', head: true })
+        .eq('profile_id', profile.id)
+        .eq('is_read', false);
+      return count || 0;
+    },
+    enabled: !!profile?.id,
+  });
+
+  return count;
+}
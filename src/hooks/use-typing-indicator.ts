@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePresence } from '@/contexts/PresenceContext';
+
+// Senders re-broadcast at most this often; receivers drop the indicator if
+// nothing arrives for a while (tab closed mid-sentence, lost connection)
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
+
+interface TypingPayload {
+  profile_id: string;
+  is_typing: boolean;
+}
+
+export function useTypingIndicator(conversationId: string) {
+  const { profile } = useAuth();
+  const { showActiveStatus } = usePresence();
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentRef = useRef(0);
+  const timeoutsRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    // Typing is activity too, so it follows the activity status setting both ways
+    if (!conversationId || !profile?.id || !showActiveStatus) return;
+
+    const timeouts = timeoutsRef.current;
+    const removeTyping = (profileId: string) =>
+      setTypingIds(prev => prev.filter(id => id !== profileId));
+
+    const channel = supabase
+      .channel(`typing-${conversationId}`)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { profile_id, is_typing } = payload as TypingPayload;
+        if (profile_id === profile.id) return;
+
+        window.clearTimeout(timeouts[profile_id]);
+        if (!is_typing) {
+          removeTyping(profile_id);
+          return;
+        }
+        setTypingIds(prev => (prev.includes(profile_id) ? prev : [...prev, profile_id]));
+        timeouts[profile_id] = window.setTimeout(() => removeTyping(profile_id), TYPING_TIMEOUT_MS);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      Object.values(timeouts).forEach(id => window.clearTimeout(id));
+      timeoutsRef.current = {};
+      channelRef.current = null;
+      lastSentRef.current = 0;
+      setTypingIds([]);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, profile?.id, showActiveStatus]);
+
+  const broadcast = useCallback(
+    (isTyping: boolean) => {
+      if (!channelRef.current || !profile?.id) return;
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { profile_id: profile.id, is_typing: isTyping } satisfies TypingPayload,
+      });
+    },
+    [profile?.id]
+  );
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current < TYPING_THROTTLE_MS) return;
+    lastSentRef.current = now;
+    broadcast(true);
+  }, [broadcast]);
+
+  const stopTyping = useCallback(() => {
+    if (!lastSentRef.current) return;
+    lastSentRef.current = 0;
+    broadcast(false);
+  }, [broadcast]);
+
+  return { typingIds, notifyTyping, stopTyping };
+}
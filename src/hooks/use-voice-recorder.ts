@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Level samples kept for the live waveform and stored with the message
+const SAMPLE_INTERVAL_MS = 100;
+const LIVE_BARS = 32;
+const WAVEFORM_BARS = 40;
+
+export interface VoiceRecording {
+  file: File;
+  duration: number;
+  waveform: number[];
+}
+
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+const getSupportedMimeType = () =>
+  MIME_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) || '';
+
+// Averages the samples into a fixed number of bars, normalised to 0..1
+const downsample = (samples: number[], bars: number) => {
+  if (samples.length === 0) return Array(bars).fill(0);
+  const size = samples.length / bars;
+  const result = Array.from({ length: bars }, (_, i) => {
+    const slice = samples.slice(Math.floor(i * size), Math.max(Math.floor((i + 1) * size), Math.floor(i * size) + 1));
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+  const peak = Math.max(...result, 0.01);
+  return result.map(v => Math.round((v / peak) * 100) / 100);
+};
+
+export function useVoiceRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const samplesRef = useRef<number[]>([]);
+  const intervalRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+  // Set when stop/cancel is called while the microphone prompt is still open
+  const abortedRef = useRef(false);
+
+  const cleanup = useCallback(() => {
+    if (intervalRef.current) window.clearInterval(intervalRef.current);
+    intervalRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setDuration(0);
+    setLevels([]);
+  }, []);
+
+  useEffect(() => cleanup, [cleanup]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    abortedRef.current = false;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (abortedRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    const mimeType = getSupportedMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const buffer = new Uint8Array(analyser.fftSize);
+
+    chunksRef.current = [];
+    samplesRef.current = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+
+    streamRef.current = stream;
+    audioContextRef.current = audioContext;
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+
+    intervalRef.current = window.setInterval(() => {
+      analyser.getByteTimeDomainData(buffer);
+      let sum = 0;
+      for (const value of buffer) {
+        const centered = (value - 128) / 128;
+        sum += centered * centered;
+      }
+      const rms = Math.min(1, Math.sqrt(sum / buffer.length) * 3);
+      samplesRef.current.push(rms);
+      setLevels(samplesRef.current.slice(-LIVE_BARS));
+      setDuration((Date.now() - startedAtRef.current) / 1000);
+    }, SAMPLE_INTERVAL_MS);
+
+    recorder.start();
+    setIsRecording(true);
+  }, []);
+
+  // Resolves with the recording, or null if nothing was recording
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      abortedRef.current = true;
+      return Promise.resolve<VoiceRecording | null>(null);
+    }
+
+    return new Promise<VoiceRecording | null>(resolve => {
+      recorder.onstop = () => {
+        const type = recorder.mimeType || 'audio/webm';
+        const ext = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+        const blob = new Blob(chunksRef.current, { type });
+        const recording = {
+          file: new File([blob], `voice-message-${Date.now()}.${ext}`, { type }),
+          duration: (Date.now() - startedAtRef.current) / 1000,
+          waveform: downsample(samplesRef.current, WAVEFORM_BARS),
+        };
+        cleanup();
+        resolve(recording);
+      };
+      recorder.stop();
+    });
+  }, [cleanup]);
+
+  const cancel = useCallback(() => {
+    const recorder = recorderRef.current;
+    abortedRef.current = true;
+    if (recorder) {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+    cleanup();
+  }, [cleanup]);
+
+  return { isRecording, duration, levels, start, stop, cancel };
+}
@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       close_friends: {
         Row: {
           created_at: string | null
@@ -50,27 +86,63 @@ export type Database = {
           },
         ]
       }
+      comment_likes: {
+        Row: {
+          comment_id: string
+          created_at: string | null
+          id: string
+          profile_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string | null
+          id?: string
+          profile_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string | null
+          id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_likes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "post_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_likes_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_participants: {
         Row: {
           conversation_id: string
           created_at: string | null
           id: string
-          last_read_at: string | null
           profile_id: string
+          role: string
         }
         Insert: {
           conversation_id: string
           created_at?: string | null
           id?: string
-          last_read_at?: string | null
           profile_id: string
+          role?: string
         }
         Update: {
           conversation_id?: string
           created_at?: string | null
           id?: string
-          last_read_at?: string | null
           profile_id?: string
+          role?: string
         }
         Relationships: [
           {
@@ -89,23 +161,112 @@ export type Database = {
           },
         ]
       }
+      conversation_reads: {
+        Row: {
+          conversation_id: string
+          last_read_at: string
+          profile_id: string
+        }
+        Insert: {
+          conversation_id: string
+          last_read_at?: string
+          profile_id: string
+        }
+        Update: {
+          conversation_id?: string
+          last_read_at?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reads_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_reads_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
+          avatar_url: string | null
           created_at: string | null
+          created_by: string | null
           id: string
+          is_group: boolean
+          name: string | null
           updated_at: string | null
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          is_group?: boolean
+          name?: string | null
           updated_at?: string | null
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
+          is_group?: boolean
+          name?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requester_id: string
+          target_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requester_id: string
+          target_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requester_id?: string
+          target_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_requests_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       follows: {
         Row: {
@@ -143,8 +304,69 @@ export type Database = {
           },
         ]
       }
+      hashtags: {
+        Row: {
+          created_at: string | null
+          id: string
+          post_count: number
+          tag: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          post_count?: number
+          tag: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          post_count?: number
+          tag?: string
+        }
+        Relationships: []
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          profile_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          profile_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_requests: {
         Row: {
+          conversation_id: string | null
           created_at: string | null
           id: string
           receiver_id: string
@@ -152,6 +374,7 @@ export type Database = {
           status: string | null
         }
         Insert: {
+          conversation_id?: string | null
           created_at?: string | null
           id?: string
           receiver_id: string
@@ -159,6 +382,7 @@ export type Database = {
           status?: string | null
         }
         Update: {
+          conversation_id?: string | null
           created_at?: string | null
           id?: string
           receiver_id?: string
@@ -166,6 +390,13 @@ export type Database = {
           status?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "message_requests_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "message_requests_receiver_id_fkey"
             columns: ["receiver_id"]
@@ -187,34 +418,61 @@ export type Database = {
           content: string | null
           conversation_id: string
           created_at: string | null
+          edited_at: string | null
+          file_mime_type: string | null
           file_name: string | null
+          file_size: number | null
           file_url: string | null
           id: string
           is_read: boolean | null
+          media_duration: number | null
           message_type: string | null
+          reply_to_id: string | null
           sender_id: string
+          shared_post_id: string | null
+          shared_profile_id: string | null
+          shared_story_id: string | null
+          waveform: Json | null
         }
         Insert: {
           content?: string | null
           conversation_id: string
           created_at?: string | null
+          edited_at?: string | null
+          file_mime_type?: string | null
           file_name?: string | null
+          file_size?: number | null
           file_url?: string | null
           id?: string
           is_read?: boolean | null
+          media_duration?: number | null
           message_type?: string | null
+          reply_to_id?: string | null
           sender_id: string
+          shared_post_id?: string | null
+          shared_profile_id?: string | null
+          shared_story_id?: string | null
+          waveform?: Json | null
         }
         Update: {
           content?: string | null
           conversation_id?: string
           created_at?: string | null
+          edited_at?: string | null
+          file_mime_type?: string | null
           file_name?: string | null
+          file_size?: number | null
           file_url?: string | null
           id?: string
           is_read?: boolean | null
+          media_duration?: number | null
           message_type?: string | null
+          reply_to_id?: string | null
           sender_id?: string
+          shared_post_id?: string | null
+          shared_profile_id?: string | null
+          shared_story_id?: string | null
+          waveform?: Json | null
         }
         Relationships: [
           {
@@ -224,6 +482,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -231,6 +496,115 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_shared_post_id_fkey"
+            columns: ["shared_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_shared_profile_id_fkey"
+            columns: ["shared_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_shared_story_id_fkey"
+            columns: ["shared_story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          admin_id: string
+          created_at: string | null
+          id: string
+          note: string | null
+          report_id: string | null
+          target_profile_id: string | null
+        }
+        Insert: {
+          action: string
+          admin_id: string
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          report_id?: string | null
+          target_profile_id?: string | null
+        }
+        Update: {
+          action?: string
+          admin_id?: string
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          report_id?: string | null
+          target_profile_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_target_profile_id_fkey"
+            columns: ["target_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mutes: {
+        Row: {
+          created_at: string
+          id: string
+          muted_id: string
+          muter_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          muted_id: string
+          muter_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          muted_id?: string
+          muter_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mutes_muted_id_fkey"
+            columns: ["muted_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mutes_muter_id_fkey"
+            columns: ["muter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       note_likes: {
@@ -357,6 +731,7 @@ export type Database = {
           content: string
           created_at: string | null
           id: string
+          parent_comment_id: string | null
           post_id: string
           profile_id: string
         }
@@ -364,6 +739,7 @@ export type Database = {
           content: string
           created_at?: string | null
           id?: string
+          parent_comment_id?: string | null
           post_id: string
           profile_id: string
         }
@@ -371,10 +747,18 @@ export type Database = {
           content?: string
           created_at?: string | null
           id?: string
+          parent_comment_id?: string | null
           post_id?: string
           profile_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "post_comments_parent_comment_id_fkey"
+            columns: ["parent_comment_id"]
+            isOneToOne: false
+            referencedRelation: "post_comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "post_comments_post_id_fkey"
             columns: ["post_id"]
@@ -391,6 +775,39 @@ export type Database = {
           },
         ]
       }
+      post_hashtags: {
+        Row: {
+          created_at: string | null
+          hashtag_id: string
+          post_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          hashtag_id: string
+          post_id: string
+        }
+        Update: {
+          created_at?: string | null
+          hashtag_id?: string
+          post_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_hashtags_hashtag_id_fkey"
+            columns: ["hashtag_id"]
+            isOneToOne: false
+            referencedRelation: "hashtags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_hashtags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_likes: {
         Row: {
           created_at: string | null
@@ -427,6 +844,53 @@ export type Database = {
           },
         ]
       }
+      post_media: {
+        Row: {
+          alt_text: string | null
+          created_at: string | null
+          height: number | null
+          id: string
+          media_type: string
+          media_url: string
+          placeholder: string | null
+          position: number
+          post_id: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string | null
+          height?: number | null
+          id?: string
+          media_type?: string
+          media_url: string
+          placeholder?: string | null
+          position?: number
+          post_id: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string | null
+          height?: number | null
+          id?: string
+          media_type?: string
+          media_url?: string
+          placeholder?: string | null
+          position?: number
+          post_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_media_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_saves: {
         Row: {
           created_at: string | null
@@ -502,32 +966,45 @@ export type Database = {
       posts: {
         Row: {
           caption: string | null
+          caption_tsv: unknown | null
           created_at: string | null
           id: string
           media_type: string | null
           media_url: string
+          pinned_comment_id: string | null
           profile_id: string
           updated_at: string | null
         }
         Insert: {
           caption?: string | null
+          caption_tsv?: unknown | null
           created_at?: string | null
           id?: string
           media_type?: string | null
           media_url: string
+          pinned_comment_id?: string | null
           profile_id: string
           updated_at?: string | null
         }
         Update: {
           caption?: string | null
+          caption_tsv?: unknown | null
           created_at?: string | null
           id?: string
           media_type?: string | null
           media_url?: string
+          pinned_comment_id?: string | null
           profile_id?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "posts_pinned_comment_id_fkey"
+            columns: ["pinned_comment_id"]
+            isOneToOne: false
+            referencedRelation: "post_comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "posts_profile_id_fkey"
             columns: ["profile_id"]
@@ -537,6 +1014,29 @@ export type Database = {
           },
         ]
       }
+      profile_activity: {
+        Row: {
+          last_seen: string
+          profile_id: string
+        }
+        Insert: {
+          last_seen?: string
+          profile_id: string
+        }
+        Update: {
+          last_seen?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_activity_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -547,7 +1047,7 @@ export type Database = {
           id: string
           is_private: boolean | null
           is_verified: boolean | null
-          last_seen: string | null
+          suspended_until: string | null
           updated_at: string | null
           user_id: string
           username: string
@@ -562,7 +1062,7 @@ export type Database = {
           id?: string
           is_private?: boolean | null
           is_verified?: boolean | null
-          last_seen?: string | null
+          suspended_until?: string | null
           updated_at?: string | null
           user_id: string
           username: string
@@ -577,7 +1077,7 @@ export type Database = {
           id?: string
           is_private?: boolean | null
           is_verified?: boolean | null
-          last_seen?: string | null
+          suspended_until?: string | null
           updated_at?: string | null
           user_id?: string
           username?: string
@@ -585,33 +1085,93 @@ export type Database = {
         }
         Relationships: []
       }
+      recent_searches: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          profile_id: string
+          searched_profile_id: string | null
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          profile_id: string
+          searched_profile_id?: string | null
+          value: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          profile_id?: string
+          searched_profile_id?: string | null
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recent_searches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recent_searches_searched_profile_id_fkey"
+            columns: ["searched_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reports: {
         Row: {
           content_id: string
           content_type: string
           created_at: string | null
+          details: string | null
           id: string
           reason: string
+          reason_category: string | null
           reporter_id: string
+          resolution: string | null
+          resolved_at: string | null
+          reviewed_by: string | null
           status: string | null
+          updated_at: string | null
         }
         Insert: {
           content_id: string
           content_type: string
           created_at?: string | null
+          details?: string | null
           id?: string
           reason: string
+          reason_category?: string | null
           reporter_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+          reviewed_by?: string | null
           status?: string | null
+          updated_at?: string | null
         }
         Update: {
           content_id?: string
           content_type?: string
           created_at?: string | null
+          details?: string | null
           id?: string
           reason?: string
+          reason_category?: string | null
           reporter_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          reviewed_by?: string | null
           status?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -621,6 +1181,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       stories: {
@@ -631,6 +1198,7 @@ export type Database = {
           is_close_friends_only: boolean | null
           media_type: string | null
           media_url: string
+          placeholder: string | null
           profile_id: string
         }
         Insert: {
@@ -640,6 +1208,7 @@ export type Database = {
           is_close_friends_only?: boolean | null
           media_type?: string | null
           media_url: string
+          placeholder?: string | null
           profile_id: string
         }
         Update: {
@@ -649,6 +1218,7 @@ export type Database = {
           is_close_friends_only?: boolean | null
           media_type?: string | null
           media_url?: string
+          placeholder?: string | null
           profile_id?: string
         }
         Relationships: [
@@ -661,38 +1231,113 @@ export type Database = {
           },
         ]
       }
-      story_comments: {
+      story_highlight_items: {
         Row: {
-          content: string
-          created_at: string | null
+          created_at: string
+          highlight_id: string
           id: string
+          story_id: string
+        }
+        Insert: {
+          created_at?: string
+          highlight_id: string
+          id?: string
+          story_id: string
+        }
+        Update: {
+          created_at?: string
+          highlight_id?: string
+          id?: string
+          story_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_highlight_items_highlight_id_fkey"
+            columns: ["highlight_id"]
+            isOneToOne: false
+            referencedRelation: "story_highlights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_highlight_items_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_highlights: {
+        Row: {
+          cover_story_id: string | null
+          created_at: string
+          id: string
+          profile_id: string
+          title: string
+        }
+        Insert: {
+          cover_story_id?: string | null
+          created_at?: string
+          id?: string
+          profile_id: string
+          title: string
+        }
+        Update: {
+          cover_story_id?: string | null
+          created_at?: string
+          id?: string
+          profile_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_highlights_cover_story_id_fkey"
+            columns: ["cover_story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_highlights_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_interactions: {
+        Row: {
+          created_at: string
+          id: string
+          interaction_type: string
           profile_id: string
           story_id: string
         }
         Insert: {
-          content: string
-          created_at?: string | null
+          created_at?: string
           id?: string
+          interaction_type: string
           profile_id: string
           story_id: string
         }
         Update: {
-          content?: string
-          created_at?: string | null
+          created_at?: string
           id?: string
+          interaction_type?: string
           profile_id?: string
           story_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "story_comments_profile_id_fkey"
+            foreignKeyName: "story_interactions_profile_id_fkey"
             columns: ["profile_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "story_comments_story_id_fkey"
+            foreignKeyName: "story_interactions_story_id_fkey"
             columns: ["story_id"]
             isOneToOne: false
             referencedRelation: "stories"
@@ -795,6 +1440,7 @@ export type Database = {
           created_at: string | null
           id: string
           profile_id: string
+          require_message_requests: boolean | null
           show_active_status: boolean | null
           show_read_receipts: boolean | null
           theme: string | null
@@ -804,6 +1450,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           profile_id: string
+          require_message_requests?: boolean | null
           show_active_status?: boolean | null
           show_read_receipts?: boolean | null
           theme?: string | null
@@ -813,6 +1460,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           profile_id?: string
+          require_message_requests?: boolean | null
           show_active_status?: boolean | null
           show_read_receipts?: boolean | null
           theme?: string | null
@@ -833,7 +1481,194 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_group_members: {
+        Args: { _conversation_id: string; _member_ids: string[] }
+        Returns: undefined
+      }
+      approve_follow_request: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      can_access_message: {
+        Args: { _message_id: string }
+        Returns: boolean
+      }
+      can_add_to_group: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
+      can_message_in_conversation: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      can_see_activity_status: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
+      conversation_has_participants: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      create_group_conversation: {
+        Args: { _member_ids: string[]; _name: string }
+        Returns: string
+      }
+      decline_message_request: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      extract_hashtags: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      get_activity_status: {
+        Args: { _profile_ids: string[] }
+        Returns: {
+          last_seen: string
+          profile_id: string
+        }[]
+      }
+      get_blocked_accounts: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          blocked_at: string
+          display_name: string
+          id: string
+          username: string
+        }[]
+      }
+      get_conversation_read_state: {
+        Args: { _conversation_id: string }
+        Returns: {
+          last_read_at: string
+          profile_id: string
+          username: string
+        }[]
+      }
+      get_explore_posts: {
+        Args: { _limit?: number; _offset?: number; _window_days?: number }
+        Returns: {
+          caption: string
+          comments_count: number
+          created_at: string
+          id: string
+          is_liked: boolean
+          is_saved: boolean
+          likes_count: number
+          media: Json
+          media_type: string
+          media_url: string
+          profile: Json
+          profile_id: string
+          score: number
+        }[]
+      }
+      get_feed_candidates: {
+        Args: {
+          _discovery_limit?: number
+          _following_limit?: number
+          _since: string
+        }
+        Returns: {
+          caption: string
+          comments_count: number
+          created_at: string
+          id: string
+          is_following: boolean
+          is_liked: boolean
+          is_saved: boolean
+          likes_count: number
+          media: Json
+          media_type: string
+          media_url: string
+          profile: Json
+          profile_id: string
+        }[]
+      }
+      get_feed_posts: {
+        Args: {
+          _before_created_at?: string
+          _before_id?: string
+          _limit?: number
+          _profile_id?: string
+        }
+        Returns: {
+          caption: string
+          comments_count: number
+          created_at: string
+          id: string
+          is_liked: boolean
+          is_saved: boolean
+          likes_count: number
+          media: Json
+          media_type: string
+          media_url: string
+          profile: Json
+          profile_id: string
+        }[]
+      }
+      get_hashtag_posts: {
+        Args: { _limit?: number; _sort?: string; _tag: string }
+        Returns: {
+          comments_count: number
+          created_at: string
+          id: string
+          likes_count: number
+          media_count: number
+          media_type: string
+          media_url: string
+        }[]
+      }
+      get_my_affinity: {
+        Args: { _since: string }
+        Returns: {
+          comments: number
+          likes: number
+          messages: number
+          profile_id: string
+        }[]
+      }
       get_my_profile_id: { Args: never; Returns: string }
+      get_post: {
+        Args: { _post_id: string }
+        Returns: {
+          caption: string
+          comments_count: number
+          created_at: string
+          id: string
+          is_liked: boolean
+          is_saved: boolean
+          likes_count: number
+          media: Json
+          media_type: string
+          media_url: string
+          profile: Json
+          profile_id: string
+        }[]
+      }
+      get_post_owner: {
+        Args: { _post_id: string }
+        Returns: {
+          avatar_url: string
+          display_name: string
+          id: string
+          is_private: boolean
+          username: string
+        }[]
+      }
+      get_story_interaction_counts: {
+        Args: { _story_id: string }
+        Returns: {
+          back_taps: number
+          exits: number
+          forward_taps: number
+        }[]
+      }
+      has_block_with: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -841,6 +1676,91 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_blocked_conversation: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_conversation_admin: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_highlighted_story: {
+        Args: { _story_id: string }
+        Returns: boolean
+      }
+      is_private_profile: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      needs_message_request: {
+        Args: { _receiver_id: string }
+        Returns: boolean
+      }
+      owns_highlight: {
+        Args: { _highlight_id: string }
+        Returns: boolean
+      }
+      remove_group_member: {
+        Args: { _conversation_id: string; _profile_id: string }
+        Returns: undefined
+      }
+      search_hashtags: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          id: string
+          post_count: number
+          tag: string
+        }[]
+      }
+      search_posts: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          comments_count: number
+          created_at: string
+          id: string
+          likes_count: number
+          media_count: number
+          media_type: string
+          media_url: string
+        }[]
+      }
+      search_profiles: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          avatar_url: string
+          display_name: string
+          id: string
+          is_verified: boolean
+          last_seen: string
+          username: string
+          verified_type: string
+        }[]
+      }
+      set_group_role: {
+        Args: { _conversation_id: string; _profile_id: string; _role: string }
+        Returns: undefined
+      }
+      touch_last_seen: { Args: never; Returns: undefined }
+      update_group_details: {
+        Args: { _avatar_url: string; _conversation_id: string; _name: string }
+        Returns: undefined
+      }
+      visible_last_seen: {
+        Args: { _profile_id: string }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "user"
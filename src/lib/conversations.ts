@@ -0,0 +1,168 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ConversationResult {
+  id: string;
+  isNew: boolean;
+  isRequest: boolean;
+}
+
+export type ConversationRole = 'admin' | 'member';
+
+export interface ConversationMember {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  role: ConversationRole;
+}
+
+export interface ConversationDetails {
+  id: string;
+  is_group: boolean;
+  name: string | null;
+  avatar_url: string | null;
+  // Everyone in the conversation, including the current user
+  members: ConversationMember[];
+}
+
+// Group size including the creator; mirrors the limit in the group functions
+export const MAX_GROUP_SIZE = 32;
+
+export const CONVERSATION_DETAILS_SELECT = `
+  id,
+  is_group,
+  name,
+  avatar_url,
+  conversation_participants (
+    role,
+    profile:profiles (id, username, display_name, avatar_url)
+  )
+`;
+
+interface ConversationDetailsRow {
+  id: string;
+  is_group: boolean;
+  name: string | null;
+  avatar_url: string | null;
+  conversation_participants: {
+    role: string;
+    profile: Omit<ConversationMember, 'role'> | null;
+  }[];
+}
+
+export const toConversationDetails = (row: ConversationDetailsRow): ConversationDetails => ({
+  id: row.id,
+  is_group: row.is_group,
+  name: row.name,
+  avatar_url: row.avatar_url,
+  members: row.conversation_participants
+    .filter(p => p.profile)
+    .map(p => ({ ...p.profile, role: p.role as ConversationRole })),
+});
+
+export const fetchConversationDetails = async (conversationId: string) => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_DETAILS_SELECT)
+    .eq('id', conversationId)
+    .single();
+
+  if (error) throw error;
+  return toConversationDetails(data as unknown as ConversationDetailsRow);
+};
+
+export const getOtherMembers = (conversation: ConversationDetails, myProfileId: string | undefined) =>
+  conversation.members.filter(m => m.id !== myProfileId);
+
+// Groups without a name are titled after their members, like "alice, bob and 3 others"
+export const getConversationTitle = (conversation: ConversationDetails, myProfileId: string | undefined) => {
+  const others = getOtherMembers(conversation, myProfileId);
+  if (!conversation.is_group) return others[0]?.display_name || 'Unknown user';
+  if (conversation.name) return conversation.name;
+  if (others.length === 0) return 'Just you';
+
+  const names = others.map(m => m.username);
+  if (names.length <= 3) return names.join(', ');
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} others`;
+};
+
+export const isConversationAdmin = (conversation: ConversationDetails, myProfileId: string | undefined) =>
+  conversation.members.some(m => m.id === myProfileId && m.role === 'admin');
+
+export const createGroupConversation = async (name: string, memberIds: string[]) => {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    _name: name,
+    _member_ids: memberIds,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const findConversationWith = async (myProfileId: string, otherProfileId: string) => {
+  // Only 1:1 conversations count; sharing a group isn't a direct thread
+  const { data: existingConvs } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id, conversations!inner (is_group)')
+    .eq('profile_id', myProfileId)
+    .eq('conversations.is_group', false);
+
+  for (const conv of existingConvs || []) {
+    const { data: otherParticipant } = await supabase
+      .from('conversation_participants')
+      .select('profile_id')
+      .eq('conversation_id', conv.conversation_id)
+      .eq('profile_id', otherProfileId)
+      .maybeSingle();
+
+    if (otherParticipant) return conv.conversation_id;
+  }
+
+  return null;
+};
+
+// Opens the 1:1 conversation with otherProfileId, creating it if needed. New
+// conversations go through a message request when the recipient requires one.
+export const findOrCreateConversation = async (
+  myProfileId: string,
+  otherProfileId: string
+): Promise<ConversationResult> => {
+  const existingId = await findConversationWith(myProfileId, otherProfileId);
+  if (existingId) return { id: existingId, isNew: false, isRequest: false };
+
+  const { data: newConv, error: convError } = await supabase
+    .from('conversations')
+    .insert({})
+    .select('id')
+    .single();
+
+  if (convError) throw convError;
+
+  const { error: partError } = await supabase
+    .from('conversation_participants')
+    .insert([
+      { conversation_id: newConv.id, profile_id: myProfileId },
+      { conversation_id: newConv.id, profile_id: otherProfileId },
+    ]);
+
+  if (partError) throw partError;
+
+  const { data: needsRequest, error: needsRequestError } = await supabase.rpc('needs_message_request', {
+    _receiver_id: otherProfileId,
+  });
+
+  if (needsRequestError) throw needsRequestError;
+
+  if (needsRequest) {
+    const { error: requestError } = await supabase
+      .from('message_requests')
+      .upsert(
+        { sender_id: myProfileId, receiver_id: otherProfileId, conversation_id: newConv.id },
+        { onConflict: 'sender_id,receiver_id', ignoreDuplicates: true }
+      );
+
+    if (requestError) throw requestError;
+  }
+
+  return { id: newConv.id, isNew: true, isRequest: !!needsRequest };
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_WEIGHTS,
+  affinityScore,
+  diversify,
+  engagementVelocity,
+  getAgeHours,
+  rankPosts,
+  recencyDecay,
+  scorePost,
+  type RankingCandidate,
+} from './feed-ranking';
+
+const NOW = new Date('2026-01-10T12:00:00Z').getTime();
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursAgo = (hours: number) => new Date(NOW - hours * HOUR_MS).toISOString();
+
+const candidate = (overrides: Partial<RankingCandidate> = {}): RankingCandidate => ({
+  id: 'post',
+  profile_id: 'author',
+  created_at: hoursAgo(0),
+  likes_count: 0,
+  comments_count: 0,
+  is_following: true,
+  ...overrides,
+});
+
+describe('getAgeHours', () => {
+  it('measures age in hours', () => {
+    expect(getAgeHours(hoursAgo(5), NOW)).toBeCloseTo(5);
+  });
+
+  it('never goes negative for posts stamped in the future', () => {
+    expect(getAgeHours(hoursAgo(-2), NOW)).toBe(0);
+  });
+});
+
+describe('engagementVelocity', () => {
+  it('counts a comment as commentValue likes', () => {
+    const liked = candidate({ likes_count: DEFAULT_WEIGHTS.commentValue });
+    const commented = candidate({ comments_count: 1 });
+    expect(engagementVelocity(commented, NOW)).toBeCloseTo(engagementVelocity(liked, NOW));
+  });
+
+  it('falls off as the same engagement gets older', () => {
+    const fresh = candidate({ likes_count: 10, created_at: hoursAgo(1) });
+    const old = candidate({ likes_count: 10, created_at: hoursAgo(48) });
+    expect(engagementVelocity(fresh, NOW)).toBeGreaterThan(engagementVelocity(old, NOW));
+  });
+
+  it('stays finite for a brand new post', () => {
+    expect(Number.isFinite(engagementVelocity(candidate({ likes_count: 5 }), NOW))).toBe(true);
+  });
+});
+
+describe('affinityScore', () => {
+  it('is zero without any interactions', () => {
+    expect(affinityScore(undefined)).toBe(0);
+    expect(affinityScore({ likes: 0, comments: 0, messages: 0 })).toBe(0);
+  });
+
+  it('weighs comments above likes and likes above messages', () => {
+    const like = affinityScore({ likes: 1, comments: 0, messages: 0 });
+    const comment = affinityScore({ likes: 0, comments: 1, messages: 0 });
+    const message = affinityScore({ likes: 0, comments: 0, messages: 1 });
+    expect(comment).toBeGreaterThan(like);
+    expect(like).toBeGreaterThan(message);
+  });
+});
+
+describe('recencyDecay', () => {
+  it('halves after each half-life', () => {
+    const halfLife = DEFAULT_WEIGHTS.recencyHalfLifeHours;
+    expect(recencyDecay(hoursAgo(0), NOW)).toBe(1);
+    expect(recencyDecay(hoursAgo(halfLife), NOW)).toBeCloseTo(0.5);
+    expect(recencyDecay(hoursAgo(halfLife * 2), NOW)).toBeCloseTo(0.25);
+  });
+});
+
+describe('scorePost', () => {
+  it('discounts posts from accounts the viewer does not follow', () => {
+    const followed = candidate({ likes_count: 4, created_at: hoursAgo(3) });
+    const suggested = { ...followed, is_following: false };
+    expect(scorePost(suggested, {}, NOW)).toBeCloseTo(scorePost(followed, {}, NOW) * DEFAULT_WEIGHTS.suggestedFactor);
+  });
+
+  it('ranks authors the viewer interacts with higher', () => {
+    const post = candidate({ created_at: hoursAgo(3) });
+    const affinity = { author: { likes: 5, comments: 2, messages: 0 } };
+    expect(scorePost(post, affinity, NOW)).toBeGreaterThan(scorePost(post, {}, NOW));
+  });
+});
+
+describe('diversify', () => {
+  const authors = (posts: { profile_id: string }[]) => posts.map(post => post.profile_id).join('');
+
+  it('breaks up long runs from one author', () => {
+    const posts = ['a', 'a', 'a', 'a', 'b', 'c'].map(profile_id => ({ profile_id }));
+    expect(authors(diversify(posts, 2))).toBe('aabaac');
+  });
+
+  it('keeps the order when no run is too long', () => {
+    const posts = ['a', 'b', 'a', 'b'].map(profile_id => ({ profile_id }));
+    expect(authors(diversify(posts, 1))).toBe('abab');
+  });
+
+  it('falls back to the remaining author when nobody else is left', () => {
+    const posts = ['a', 'a', 'a'].map(profile_id => ({ profile_id }));
+    expect(authors(diversify(posts, 1))).toBe('aaa');
+  });
+
+  it('leaves the list alone when maxRun is zero', () => {
+    const posts = ['a', 'a', 'a'].map(profile_id => ({ profile_id }));
+    expect(diversify(posts, 0)).toBe(posts);
+  });
+});
+
+describe('rankPosts', () => {
+  it('puts engaging, recent posts first', () => {
+    const posts = [
+      candidate({ id: 'old', profile_id: 'a', created_at: hoursAgo(72) }),
+      candidate({ id: 'popular', profile_id: 'b', likes_count: 50, created_at: hoursAgo(2) }),
+      candidate({ id: 'fresh', profile_id: 'c', created_at: hoursAgo(1) }),
+    ];
+    expect(rankPosts(posts, {}, NOW).map(post => post.id)).toEqual(['popular', 'fresh', 'old']);
+  });
+
+  it('breaks ties by newest first', () => {
+    const posts = [
+      candidate({ id: 'earlier', profile_id: 'a', created_at: '2026-01-10T10:00:00.000Z' }),
+      candidate({ id: 'later', profile_id: 'b', created_at: '2026-01-10T10:00:00.001Z' }),
+    ];
+    const flat = { ...DEFAULT_WEIGHTS, velocity: 0, affinity: 0, recency: 0 };
+    expect(rankPosts(posts, {}, NOW, flat).map(post => post.id)).toEqual(['later', 'earlier']);
+  });
+
+  it('does not mutate the input', () => {
+    const posts = [candidate({ id: 'x' }), candidate({ id: 'y', likes_count: 10 })];
+    rankPosts(posts, {}, NOW);
+    expect(posts.map(post => post.id)).toEqual(['x', 'y']);
+  });
+});
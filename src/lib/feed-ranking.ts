@@ -0,0 +1,127 @@
+// Ranking for the "For You" feed. Everything here is pure: callers pass in
+// the candidate posts, the viewer's affinity counts and the current time.
+
+export interface RankingCandidate {
+  id: string;
+  profile_id: string;
+  created_at: string;
+  likes_count: number;
+  comments_count: number;
+  is_following: boolean;
+}
+
+// How often the viewer interacted with an author recently
+export interface AuthorAffinity {
+  likes: number;
+  comments: number;
+  messages: number;
+}
+
+export type AffinityMap = Record<string, AuthorAffinity>;
+
+export interface RankingWeights {
+  velocity: number;
+  affinity: number;
+  recency: number;
+  // Comments count this many likes when measuring engagement
+  commentValue: number;
+  // Hours added to a post's age so brand new posts don't divide by ~0
+  velocityAgeOffset: number;
+  // Higher values make engagement velocity fall off faster with age
+  velocityGravity: number;
+  affinityLike: number;
+  affinityComment: number;
+  affinityMessage: number;
+  recencyHalfLifeHours: number;
+  // Multiplier for posts from accounts the viewer doesn't follow
+  suggestedFactor: number;
+  maxConsecutivePerAuthor: number;
+}
+
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  velocity: 1,
+  affinity: 0.6,
+  recency: 1.2,
+  commentValue: 3,
+  velocityAgeOffset: 2,
+  velocityGravity: 1.5,
+  affinityLike: 1,
+  affinityComment: 2,
+  affinityMessage: 0.5,
+  recencyHalfLifeHours: 24,
+  suggestedFactor: 0.7,
+  maxConsecutivePerAuthor: 2,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getAgeHours = (createdAt: string, now: number) =>
+  Math.max(0, (now - new Date(createdAt).getTime()) / HOUR_MS);
+
+export const engagementVelocity = (post: RankingCandidate, now: number, weights: RankingWeights = DEFAULT_WEIGHTS) => {
+  const engagement = post.likes_count + post.comments_count * weights.commentValue;
+  const age = getAgeHours(post.created_at, now) + weights.velocityAgeOffset;
+  return engagement / Math.pow(age, weights.velocityGravity);
+};
+
+export const affinityScore = (affinity: AuthorAffinity | undefined, weights: RankingWeights = DEFAULT_WEIGHTS) => {
+  if (!affinity) return 0;
+  const interactions =
+    affinity.likes * weights.affinityLike +
+    affinity.comments * weights.affinityComment +
+    affinity.messages * weights.affinityMessage;
+  return Math.log1p(interactions);
+};
+
+// 1 for a post created now, 0.5 after one half-life, and so on
+export const recencyDecay = (createdAt: string, now: number, weights: RankingWeights = DEFAULT_WEIGHTS) =>
+  Math.pow(0.5, getAgeHours(createdAt, now) / weights.recencyHalfLifeHours);
+
+export const scorePost = (
+  post: RankingCandidate,
+  affinity: AffinityMap,
+  now: number,
+  weights: RankingWeights = DEFAULT_WEIGHTS
+) => {
+  const score =
+    weights.velocity * engagementVelocity(post, now, weights) +
+    weights.affinity * affinityScore(affinity[post.profile_id], weights) +
+    weights.recency * recencyDecay(post.created_at, now, weights);
+  return post.is_following ? score : score * weights.suggestedFactor;
+};
+
+// Reorders so no author appears more than maxRun times in a row, keeping
+// the ranked order otherwise. Falls back to the best remaining post when
+// only one author is left.
+export const diversify = <T extends { profile_id: string }>(posts: T[], maxRun: number): T[] => {
+  if (maxRun <= 0) return posts;
+  const pending = [...posts];
+  const result: T[] = [];
+
+  const runLength = (authorId: string) => {
+    let run = 0;
+    for (let i = result.length - 1; i >= 0 && result[i].profile_id === authorId; i--) run++;
+    return run;
+  };
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(post => runLength(post.profile_id) < maxRun);
+    result.push(pending.splice(Math.max(index, 0), 1)[0]);
+  }
+
+  return result;
+};
+
+export const rankPosts = <T extends RankingCandidate>(
+  posts: T[],
+  affinity: AffinityMap,
+  now: number,
+  weights: RankingWeights = DEFAULT_WEIGHTS
+): T[] => {
+  const ranked = posts
+    .map(post => ({ post, score: scorePost(post, affinity, now, weights) }))
+    .sort((a, b) => b.score - a.score || b.post.created_at.localeCompare(a.post.created_at))
+    .map(({ post }) => post);
+
+  return diversify(ranked, weights.maxConsecutivePerAuthor);
+};
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors the title check on story_highlights
+export const MAX_HIGHLIGHT_TITLE_LENGTH = 30;
+
+export interface HighlightStory {
+  id: string;
+  media_url: string;
+  media_type: string;
+  placeholder: string | null;
+  is_close_friends_only: boolean;
+  created_at: string;
+}
+
+export interface Highlight {
+  id: string;
+  title: string;
+  cover_story_id: string | null;
+  // Oldest first, only the stories the viewer is allowed to see
+  stories: HighlightStory[];
+  cover: HighlightStory | null;
+}
+
+export const HIGHLIGHT_STORY_FIELDS = 'id, media_url, media_type, placeholder, is_close_friends_only, created_at';
+
+export const HIGHLIGHTS_SELECT = `
+  id,
+  title,
+  cover_story_id,
+  items:story_highlight_items (
+    story:stories (${HIGHLIGHT_STORY_FIELDS})
+  )
+`;
+
+interface HighlightRow {
+  id: string;
+  title: string;
+  cover_story_id: string | null;
+  items: { story: HighlightStory | null }[];
+}
+
+// Items the viewer can't see (close friends only, blocked) come back without
+// a story, and a hidden cover falls back to the first visible story. Other
+// people never see a highlight with nothing visible in it; the owner keeps
+// empty ones so they can still be edited or deleted.
+export const toHighlights = (rows: HighlightRow[], keepEmpty = false): Highlight[] =>
+  rows
+    .map(row => {
+      const stories = row.items
+        .map(item => item.story)
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+      return {
+        id: row.id,
+        title: row.title,
+        cover_story_id: row.cover_story_id,
+        stories,
+        cover: stories.find(s => s.id === row.cover_story_id) || stories[0] || null,
+      };
+    })
+    .filter(highlight => keepEmpty || highlight.stories.length > 0);
+
+export const fetchHighlights = async (profileId: string, keepEmpty: boolean) => {
+  const { data, error } = await supabase
+    .from('story_highlights')
+    .select(HIGHLIGHTS_SELECT)
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return toHighlights(data as unknown as HighlightRow[], keepEmpty);
+};
@@ -0,0 +1,136 @@
+// Shared image pipeline used before anything is uploaded to Storage:
+// crop to the target aspect, downscale, re-encode and build a tiny
+// placeholder. Re-encoding through a canvas drops EXIF/GPS metadata.
+// Videos are passed through untouched.
+
+export interface MediaPreset {
+  // width / height; null keeps the source aspect
+  aspect: number | null;
+  maxWidth: number;
+  maxHeight: number;
+  quality: number;
+  mimeType: 'image/webp' | 'image/jpeg';
+}
+
+export const MEDIA_PRESETS = {
+  post: { aspect: 1, maxWidth: 1080, maxHeight: 1080, quality: 0.85, mimeType: 'image/webp' },
+  story: { aspect: 9 / 16, maxWidth: 1080, maxHeight: 1920, quality: 0.85, mimeType: 'image/webp' },
+  avatar: { aspect: 1, maxWidth: 400, maxHeight: 400, quality: 0.9, mimeType: 'image/webp' },
+  chat: { aspect: null, maxWidth: 1600, maxHeight: 1600, quality: 0.85, mimeType: 'image/webp' },
+} satisfies Record<string, MediaPreset>;
+
+// Fractions of the source image, 0..1
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedMedia {
+  file: File;
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
+}
+
+const PLACEHOLDER_SIZE = 16;
+
+export const FULL_CROP: CropArea = { x: 0, y: 0, width: 1, height: 1 };
+
+export const isProcessableImage = (file: File) =>
+  file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml';
+
+// Largest centered crop with the given aspect
+export const getCenteredCrop = (sourceWidth: number, sourceHeight: number, aspect: number | null): CropArea => {
+  if (!aspect) return FULL_CROP;
+  const sourceAspect = sourceWidth / sourceHeight;
+  if (sourceAspect > aspect) {
+    const width = aspect / sourceAspect;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = sourceAspect / aspect;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+// Scales down (never up) to fit inside the max box, keeping the aspect
+export const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export const getExtensionForType = (mimeType: string) => {
+  if (mimeType === 'image/webp') return 'webp';
+  if (mimeType === 'image/jpeg') return 'jpg';
+  if (mimeType === 'image/png') return 'png';
+  return mimeType.split('/')[1] || 'bin';
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read image'));
+    image.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+
+const createPlaceholder = (source: HTMLCanvasElement) => {
+  const canvas = document.createElement('canvas');
+  const size = fitWithin(source.width, source.height, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, size.width, size.height);
+  return canvas.toDataURL('image/jpeg', 0.5);
+};
+
+export const processImage = async (file: File, preset: MediaPreset, crop?: CropArea): Promise<ProcessedMedia> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const area = crop || getCenteredCrop(image.naturalWidth, image.naturalHeight, preset.aspect);
+
+    const sx = area.x * image.naturalWidth;
+    const sy = area.y * image.naturalHeight;
+    const sw = area.width * image.naturalWidth;
+    const sh = area.height * image.naturalHeight;
+    const target = fitWithin(sw, sh, preset.maxWidth, preset.maxHeight);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = target.width;
+    canvas.height = target.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, sx, sy, sw, sh, 0, 0, target.width, target.height);
+
+    // Browsers without WebP encoding silently return PNG; fall back to JPEG
+    let blob = await canvasToBlob(canvas, preset.mimeType, preset.quality);
+    if (!blob || blob.type !== preset.mimeType) {
+      blob = await canvasToBlob(canvas, 'image/jpeg', preset.quality);
+    }
+    if (!blob) throw new Error('Could not encode image');
+
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    return {
+      file: new File([blob], `${baseName}.${getExtensionForType(blob.type)}`, { type: blob.type }),
+      width: target.width,
+      height: target.height,
+      placeholder: createPlaceholder(canvas),
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Images go through the pipeline, everything else is uploaded as-is
+export const prepareMedia = async (file: File, preset: MediaPreset, crop?: CropArea): Promise<ProcessedMedia> => {
+  if (!isProcessableImage(file)) {
+    return { file, width: null, height: null, placeholder: null };
+  }
+  return processImage(file, preset, crop);
+};
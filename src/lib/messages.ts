@@ -0,0 +1,196 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type MessageType =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'file'
+  | 'audio'
+  | 'post_share'
+  | 'story_reply'
+  | 'profile_share'
+  | 'system';
+
+// Messages that point at a post, story or profile and render as a card
+export const SHARE_MESSAGE_TYPES: MessageType[] = ['post_share', 'story_reply', 'profile_share'];
+
+export const isShareMessage = (messageType: string | null | undefined) =>
+  SHARE_MESSAGE_TYPES.includes(messageType as MessageType);
+
+export interface SharedPost {
+  id: string;
+  media_url: string;
+  media_type: string | null;
+  caption: string | null;
+  profile: { username: string; avatar_url: string | null } | null;
+}
+
+export interface SharedStory {
+  id: string;
+  media_url: string;
+  media_type: string | null;
+  expires_at: string | null;
+  profile: { username: string; avatar_url: string | null } | null;
+}
+
+export interface SharedProfile {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  verified_type: string | null;
+}
+
+// Embeds for the shared content. Each comes back null when the content was
+// deleted or the viewer can no longer see it (private account, expired story).
+export const SHARED_CONTENT_SELECT = `
+  shared_post:posts!messages_shared_post_id_fkey (
+    id, media_url, media_type, caption,
+    profile:profiles (username, avatar_url)
+  ),
+  shared_story:stories!messages_shared_story_id_fkey (
+    id, media_url, media_type, expires_at,
+    profile:profiles (username, avatar_url)
+  ),
+  shared_profile:profiles!messages_shared_profile_id_fkey (
+    id, username, display_name, avatar_url, verified_type
+  )
+`;
+
+export interface MessageReaction {
+  id: string;
+  emoji: string;
+  profile_id: string;
+}
+
+export interface QuotedMessage {
+  id: string;
+  content: string | null;
+  message_type: string | null;
+  sender_id: string;
+}
+
+// The quoted message comes back null once it has been unsent
+export const MESSAGE_THREAD_SELECT = `
+  reply_to:messages!messages_reply_to_id_fkey (id, content, message_type, sender_id),
+  reactions:message_reactions (id, emoji, profile_id)
+`;
+
+export const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+// Mirrors the window enforced by the guard_message_edit trigger
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export const canEditMessage = (message: { message_type: string | null; created_at: string }) =>
+  message.message_type === 'text' && Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+// Collapses reactions into one entry per emoji, most used first
+export const groupReactions = (reactions: MessageReaction[]) => {
+  const groups = new Map<string, string[]>();
+  reactions.forEach(r => groups.set(r.emoji, [...(groups.get(r.emoji) || []), r.profile_id]));
+  return Array.from(groups, ([emoji, profileIds]) => ({ emoji, profileIds })).sort(
+    (a, b) => b.profileIds.length - a.profileIds.length
+  );
+};
+
+interface MessageSummarySource {
+  message_type: string | null;
+  content: string | null;
+}
+
+// One-line description used by conversation and request previews
+export const getMessageSummary = (message: MessageSummarySource, isOwn: boolean) => {
+  switch (message.message_type) {
+    case 'image':
+      return isOwn ? 'You sent a photo' : 'Sent a photo';
+    case 'video':
+      return isOwn ? 'You sent a video' : 'Sent a video';
+    case 'file':
+      return isOwn ? 'You sent a file' : 'Sent a file';
+    case 'audio':
+      return (isOwn ? 'You: ' : '') + 'Voice message';
+    case 'post_share':
+      return isOwn ? 'You sent a post' : 'Sent a post';
+    case 'profile_share':
+      return isOwn ? 'You sent a profile' : 'Sent a profile';
+    case 'story_reply': {
+      const label = isOwn ? 'You replied to their story' : 'Replied to your story';
+      return message.content ? `${label}: ${message.content}` : label;
+    }
+    case 'system':
+      return message.content || '';
+    default:
+      return (isOwn ? 'You: ' : '') + (message.content || '');
+  }
+};
+
+export const CHAT_MEDIA_BUCKET = 'chat-media';
+// Mirrors the bucket's file_size_limit
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+const SIGNED_URL_TTL = 60 * 60;
+
+export type AttachmentType = Extract<MessageType, 'image' | 'video' | 'file' | 'audio'>;
+
+export const ATTACHMENT_MESSAGE_TYPES: MessageType[] = ['image', 'video', 'file', 'audio'];
+
+export const isAttachmentMessage = (messageType: string | null | undefined) =>
+  ATTACHMENT_MESSAGE_TYPES.includes(messageType as MessageType);
+
+export const getAttachmentType = (file: File): AttachmentType => {
+  // SVGs can carry scripts, so they are sent as plain files
+  if (file.type.startsWith('image/') && file.type !== 'image/svg+xml') return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return 'file';
+};
+
+export const formatFileSize = (bytes: number | null | undefined) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// m:ss, used for voice message lengths
+export const formatDuration = (seconds: number | null | undefined) => {
+  const total = Math.max(0, Math.floor(seconds || 0));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Attachments sent before the bucket went private stored a full public URL
+export const isStoragePath = (fileUrl: string) => !/^https?:\/\//.test(fileUrl);
+
+export const getAttachmentPath = (conversationId: string, userId: string, file: File) => {
+  const fileExt = file.name.includes('.') ? file.name.split('.').pop() : 'bin';
+  return `${conversationId}/${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+};
+
+// supabase-js doesn't report upload progress, so upload to a signed URL
+// through XHR instead
+export const uploadChatAttachment = async (path: string, file: File, onProgress?: (percent: number) => void) => {
+  const { data, error } = await supabase.storage.from(CHAT_MEDIA_BUCKET).createSignedUploadUrl(path);
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('content-type', file.type || 'application/octet-stream');
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.onload = () => (xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error(xhr.responseText || 'Upload failed')));
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.send(file);
+  });
+
+  return data.path;
+};
+
+export const getSignedAttachmentUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {} as Record<string, string>;
+  const { data, error } = await supabase.storage.from(CHAT_MEDIA_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).filter(item => item.signedUrl && item.path).map(item => [item.path as string, item.signedUrl])
+  ) as Record<string, string>;
+};
@@ -0,0 +1,38 @@
+export type ReportContentType = 'post' | 'story' | 'comment' | 'profile';
+
+export type ReportStatus = 'pending' | 'reviewing' | 'resolved';
+
+export type ModerationAction = 'start_review' | 'dismiss' | 'remove_content' | 'warn' | 'suspend';
+
+export const REPORT_REASONS = [
+  { value: 'spam', label: "It's spam" },
+  { value: 'harassment', label: 'Bullying or harassment' },
+  { value: 'hate_speech', label: 'Hate speech or symbols' },
+  { value: 'nudity', label: 'Nudity or sexual activity' },
+  { value: 'violence', label: 'Violence or dangerous organizations' },
+  { value: 'false_information', label: 'False information' },
+  { value: 'self_harm', label: 'Suicide or self-injury' },
+  { value: 'scam', label: 'Scam or fraud' },
+  { value: 'other', label: 'Something else' },
+] as const;
+
+export const getReasonLabel = (category: string | null | undefined) =>
+  REPORT_REASONS.find(r => r.value === category)?.label || 'Something else';
+
+export const ACTION_LABELS: Record<ModerationAction, string> = {
+  start_review: 'Started review',
+  dismiss: 'Dismissed report',
+  remove_content: 'Removed content',
+  warn: 'Warned user',
+  suspend: 'Suspended user',
+};
+
+// Resolution stored on the report for each action that closes it
+export const ACTION_RESOLUTIONS: Partial<Record<ModerationAction, string>> = {
+  dismiss: 'dismissed',
+  remove_content: 'content_removed',
+  warn: 'user_warned',
+  suspend: 'user_suspended',
+};
+
+export const SUSPENSION_DAYS = 7;
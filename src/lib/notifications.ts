@@ -0,0 +1,125 @@
+import { getPostPath } from '@/lib/post-media';
+
+export interface NotificationActor {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string | null;
+  is_verified?: boolean | null;
+  verified_type?: string | null;
+}
+
+export interface NotificationRow {
+  id: string;
+  type: string;
+  content_type: string | null;
+  content_id: string | null;
+  message: string | null;
+  is_read: boolean | null;
+  created_at: string;
+  actor: NotificationActor | null;
+}
+
+export interface NotificationGroup {
+  key: string;
+  ids: string[];
+  type: string;
+  content_type: string | null;
+  content_id: string | null;
+  message: string | null;
+  actors: NotificationActor[];
+  latest_at: string;
+  is_read: boolean;
+}
+
+// Likes and follows on the same target collapse into one row per day
+// ("alice and 12 others liked your post"); everything else stays individual.
+const GROUPABLE_TYPES = new Set(['like', 'follow']);
+
+const getGroupKey = (n: NotificationRow) => {
+  if (!GROUPABLE_TYPES.has(n.type)) return n.id;
+  const day = n.created_at.slice(0, 10);
+  return `${n.type}:${n.content_type ?? ''}:${n.content_id ?? ''}:${day}`;
+};
+
+export const groupNotifications = (rows: NotificationRow[]): NotificationGroup[] => {
+  const groups: NotificationGroup[] = [];
+  const byKey = new Map<string, NotificationGroup>();
+
+  rows.forEach(n => {
+    const key = getGroupKey(n);
+    let group = byKey.get(key);
+    if (!group) {
+      group = {
+        key,
+        ids: [],
+        type: n.type,
+        content_type: n.content_type,
+        content_id: n.content_id,
+        message: n.message,
+        actors: [],
+        latest_at: n.created_at,
+        is_read: true,
+      };
+      byKey.set(key, group);
+      groups.push(group);
+    }
+    group.ids.push(n.id);
+    if (!n.is_read) group.is_read = false;
+    if (n.actor && !group.actors.some(a => a.id === n.actor!.id)) {
+      group.actors.push(n.actor);
+    }
+  });
+
+  return groups;
+};
+
+export const getNotificationText = (group: NotificationGroup) => {
+  const target = group.content_type || 'post';
+  switch (group.type) {
+    case 'like':
+      return `liked your ${target}`;
+    case 'comment':
+      return group.message ? `commented on your ${target}: ${group.message}` : `commented on your ${target}`;
+    case 'reply':
+      return group.message ? `replied to your comment: ${group.message}` : 'replied to your comment';
+    case 'follow':
+      return 'started following you';
+    case 'follow_accept':
+      return 'accepted your follow request';
+    case 'mention':
+      // Mentions in post comments carry the comment text; caption mentions don't
+      if (target === 'post' && group.message) return `mentioned you in a comment: ${group.message}`;
+      return `mentioned you in a ${target}`;
+    case 'message':
+      return 'sent you a message';
+    case 'warning':
+      return group.message || 'Your content goes against our community guidelines.';
+    default:
+      return group.message || 'interacted with you';
+  }
+};
+
+export const getActorsLabel = (actors: NotificationActor[]) => {
+  if (actors.length === 0) return 'Someone';
+  if (actors.length === 1) return actors[0].username;
+  if (actors.length === 2) return `${actors[0].username} and ${actors[1].username}`;
+  const others = actors.length - 1;
+  return `${actors[0].username} and ${others} others`;
+};
+
+export const getNotificationLink = (group: NotificationGroup) => {
+  // Moderation warnings may point at content that has since been removed
+  if (group.type === 'warning') return '/notifications';
+  switch (group.content_type) {
+    case 'post':
+      return group.content_id ? getPostPath(group.content_id) : '/profile';
+    // The stories and notes bars open the item named in the query string
+    case 'story':
+      return group.content_id ? `/?story=${group.content_id}` : '/';
+    case 'note':
+      return group.content_id ? `/messages?note=${group.content_id}` : '/messages';
+    default:
+      return group.actors[0] ? `/profile/${group.actors[0].username}` : '/notifications';
+  }
+};
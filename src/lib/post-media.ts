@@ -0,0 +1,20 @@
+export const MAX_POST_MEDIA = 10;
+
+export interface PostMedia {
+  id?: string;
+  media_url: string;
+  media_type: string;
+  alt_text?: string | null;
+  placeholder?: string | null;
+}
+
+// Posts fetched without their post_media rows still have the cover item
+export const getPostMedia = (post: { media_url: string; media_type: string; media?: PostMedia[] | null }) =>
+  post.media && post.media.length > 0
+    ? post.media
+    : [{ media_url: post.media_url, media_type: post.media_type, alt_text: null }];
+
+export const getPostPath = (postId: string) => `/p/${postId}`;
+
+// Absolute permalink for sharing outside the app
+export const getPostUrl = (postId: string) => `${window.location.origin}${getPostPath(postId)}`;
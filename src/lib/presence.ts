@@ -0,0 +1,18 @@
+import { formatDistanceToNow } from 'date-fns';
+
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// Single app-wide Realtime presence channel, keyed by profile id
+export const PRESENCE_CHANNEL = 'presence-online';
+
+// "Active now", "Away", "Active 5m ago"... or null when nothing can be shown
+export const getActivityText = (state: PresenceState, lastSeen: string | null | undefined) => {
+  if (state === 'online') return 'Active now';
+  if (state === 'away') return 'Away';
+  if (!lastSeen) return null;
+
+  const diff = Date.now() - new Date(lastSeen).getTime();
+  if (diff < 60 * 60 * 1000) return `Active ${Math.max(1, Math.floor(diff / 60000))}m ago`;
+  if (diff < 24 * 60 * 60 * 1000) return `Active ${Math.floor(diff / 3600000)}h ago`;
+  return `Active ${formatDistanceToNow(new Date(lastSeen), { addSuffix: true })}`;
+};
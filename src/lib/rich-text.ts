@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// @username, #tag and link parsing shared by captions, comments, notes and messages.
+// Hashtag rules mirror public.extract_hashtags() so the index matches what is rendered.
+
+export type RichTextToken =
+  | { type: 'text'; value: string }
+  | { type: 'mention'; value: string; username: string }
+  | { type: 'hashtag'; value: string; tag: string }
+  | { type: 'link'; value: string; href: string };
+
+// Same character set as sign-up usernames
+const USERNAME_PATTERN = '[A-Za-z0-9_]{1,20}';
+const TAG_PATTERN = '[\\p{L}\\p{N}_]{1,100}';
+// Trailing punctuation is left out so "see https://x.y/z." links without the dot
+const URL_PATTERN = 'https?:\\/\\/[^\\s]*[^\\s.,:;!?\'")\\]]';
+
+// A token must start the text or follow something that isn't part of a word,
+// so emails (a@b.com) and URL fragments (page#section) are left alone
+const TOKEN_REGEX = new RegExp(
+  `(${URL_PATTERN})|(^|[^\\p{L}\\p{N}_&@#])(?:@(${USERNAME_PATTERN})|#(${TAG_PATTERN}))`,
+  'gu'
+);
+
+const isValidTag = (tag: string) => !/^[0-9_]+$/.test(tag);
+
+export const normalizeTag = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+
+export const parseRichText = (text: string): RichTextToken[] => {
+  const tokens: RichTextToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else tokens.push({ type: 'text', value });
+  };
+
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const [, url, prefix = '', username, tag] = match;
+    const start = match.index! + prefix.length;
+    if (tag && !isValidTag(tag)) continue;
+
+    pushText(text.slice(lastIndex, start));
+    if (url) {
+      tokens.push({ type: 'link', value: url, href: url });
+      lastIndex = start + url.length;
+      continue;
+    }
+    if (username) {
+      tokens.push({ type: 'mention', value: `@${username}`, username });
+    } else {
+      tokens.push({ type: 'hashtag', value: `#${tag}`, tag: normalizeTag(tag) });
+    }
+    lastIndex = start + 1 + (username || tag).length;
+  }
+
+  pushText(text.slice(lastIndex));
+  return tokens;
+};
+
+export const extractMentions = (text: string) => {
+  const usernames = parseRichText(text)
+    .filter((t): t is Extract<RichTextToken, { type: 'mention' }> => t.type === 'mention')
+    .map(t => t.username);
+  return [...new Set(usernames)];
+};
+
+export const extractHashtags = (text: string) => {
+  const tags = parseRichText(text)
+    .filter((t): t is Extract<RichTextToken, { type: 'hashtag' }> => t.type === 'hashtag')
+    .map(t => t.tag);
+  return [...new Set(tags)];
+};
+
+// The @mention or #tag being typed right before the caret, if any
+export const getActiveToken = (text: string, caret: number) => {
+  const match = text.slice(0, caret).match(/(^|[^\p{L}\p{N}_&@#])([@#])([\p{L}\p{N}_]{0,100})$/u);
+  if (!match) return null;
+  const query = match[3];
+  return {
+    trigger: match[2] as '@' | '#',
+    query,
+    start: caret - query.length - 1,
+    end: caret,
+  };
+};
+
+interface NotifyMentionsOptions {
+  text: string;
+  actorId: string;
+  contentType: 'post' | 'story' | 'note';
+  contentId: string;
+  message?: string | null;
+  // Profiles that already get a notification for this action (e.g. the post owner)
+  excludeProfileIds?: string[];
+}
+
+// Sends a 'mention' notification to every existing profile @mentioned in the text
+export const notifyMentions = async ({
+  text,
+  actorId,
+  contentType,
+  contentId,
+  message = null,
+  excludeProfileIds = [],
+}: NotifyMentionsOptions) => {
+  const usernames = extractMentions(text);
+  if (usernames.length === 0) return;
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, username')
+    .in('username', usernames);
+
+  const recipients = (profiles || [])
+    .map(p => p.id)
+    .filter(id => id !== actorId && !excludeProfileIds.includes(id));
+  if (recipients.length === 0) return;
+
+  await supabase.from('notifications').insert(
+    recipients.map(profileId => ({
+      profile_id: profileId,
+      type: 'mention',
+      actor_id: actorId,
+      content_type: contentType,
+      content_id: contentId,
+      message: message ? message.slice(0, 100) : null,
+    }))
+  );
+};
@@ -17,6 +17,7 @@ import {
   Lock,
   BadgeCheck,
   LogIn,
+  Flag,
   X
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
@@ -24,6 +25,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Navigate, useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import VerifiedBadge from '@/components/ui/VerifiedBadge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import ModerationQueue from '@/components/moderation/ModerationQueue';
 
 interface UserProfile {
   id: string;
@@ -31,7 +34,8 @@ interface UserProfile {
   username: string;
   display_name: string;
   avatar_url: string | null;
-  last_seen: string;
+  // Kept off profiles so only the owner and admins can read it
+  activity: { last_seen: string } | null;
   created_at: string;
   is_verified: boolean;
   verified_type: string | null;
@@ -76,7 +80,7 @@ const AdminPage: React.FC = () => {
     queryFn: async () => {
       let query = supabase
         .from('profiles')
-        .select('*')
+        .select('*, activity:profile_activity (last_seen)')
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -156,16 +160,18 @@ const AdminPage: React.FC = () => {
   const { data: stats } = useQuery({
     queryKey: ['admin-stats'],
     queryFn: async () => {
-      const [usersCount, messagesCount, conversationsCount] = await Promise.all([
+      const [usersCount, messagesCount, conversationsCount, reportsCount] = await Promise.all([
         supabase.from('profiles').select('*', { count: 'exact', head: true }),
         supabase.from('messages').select('*', { count: 'exact', head: true }),
         supabase.from('conversations').select('*', { count: 'exact', head: true }),
+        supabase.from('reports').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
       ]);
 
       return {
         users: usersCount.count || 0,
         messages: messagesCount.count || 0,
         conversations: conversationsCount.count || 0,
+        pendingReports: reportsCount.count || 0,
       };
     },
     enabled: isAdmin,
@@ -260,66 +266,88 @@ const AdminPage: React.FC = () => {
           </div>
         </div>
 
-        {/* Search Users */}
-        <div className="mb-6">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
-            <Input
-              value={searchQuery}
-              onChange={e => setSearchQuery(e.target.value)}
-              placeholder="Search users..."
-              className="pl-10 bg-secondary border-0"
-            />
-          </div>
-        </div>
+        <Tabs defaultValue="users">
+          <TabsList className="mb-6">
+            <TabsTrigger value="users" className="gap-2">
+              <Users className="w-4 h-4" /> Users
+            </TabsTrigger>
+            <TabsTrigger value="reports" className="gap-2">
+              <Flag className="w-4 h-4" /> Reports
+              {!!stats?.pendingReports && (
+                <span className="bg-destructive text-destructive-foreground text-xs rounded-full px-1.5">{stats.pendingReports}</span>
+              )}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="users">
+            {/* Search Users */}
+            <div className="mb-6">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+                <Input
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  placeholder="Search users..."
+                  className="pl-10 bg-secondary border-0"
+                />
+              </div>
+            </div>
 
-        {/* Users List */}
-        <div className="bg-card rounded-xl overflow-hidden">
-          <div className="p-4 border-b border-border">
-            <h2 className="font-semibold">All Users</h2>
-          </div>
-          <div className="divide-y divide-border max-h-96 overflow-y-auto scrollbar-thin">
-            {users.map(user => (
-              <div
-                key={user.id}
-                className="flex items-center gap-3 p-4 hover:bg-accent transition-colors"
-              >
-                <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
-                  {user.avatar_url ? (
-                    <img src={user.avatar_url} alt={user.username} className="w-full h-full object-cover" />
-                  ) : (
-                    <User className="w-5 h-5 text-muted-foreground" />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-1">
-                    <p className="font-medium truncate">{user.display_name}</p>
-                    <VerifiedBadge type={user.verified_type} />
-                    {user.badge_text && (
-                      <span className="text-xs bg-primary/20 text-primary px-1.5 py-0.5 rounded ml-1">{user.badge_text}</span>
-                    )}
+            {/* Users List */}
+            <div className="bg-card rounded-xl overflow-hidden">
+              <div className="p-4 border-b border-border">
+                <h2 className="font-semibold">All Users</h2>
+              </div>
+              <div className="divide-y divide-border max-h-96 overflow-y-auto scrollbar-thin">
+                {users.map(user => (
+                  <div
+                    key={user.id}
+                    className="flex items-center gap-3 p-4 hover:bg-accent transition-colors"
+                  >
+                    <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                      {user.avatar_url ? (
+                        <img src={user.avatar_url} alt={user.username} className="w-full h-full object-cover" />
+                      ) : (
+                        <User className="w-5 h-5 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-1">
+                        <p className="font-medium truncate">{user.display_name}</p>
+                        <VerifiedBadge type={user.verified_type} />
+                        {user.badge_text && (
+                          <span className="text-xs bg-primary/20 text-primary px-1.5 py-0.5 rounded ml-1">{user.badge_text}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">@{user.username}</p>
+                    </div>
+                    <div className="text-right text-xs text-muted-foreground hidden md:block">
+                      <p>Joined {format(new Date(user.created_at), 'MMM d, yyyy')}</p>
+                      {user.activity && (
+                        <p>Last seen {formatDistanceToNow(new Date(user.activity.last_seen), { addSuffix: true })}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => setSelectedUser(user)} title="View Conversations">
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => { setBadgeDialogUser(user); setBadgeType(user.verified_type || ''); setBadgeText(user.badge_text || ''); }} title="Manage Badge">
+                        <BadgeCheck className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleImpersonate(user)} title="Login as User">
+                        <LogIn className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
-                  <p className="text-sm text-muted-foreground">@{user.username}</p>
-                </div>
-                <div className="text-right text-xs text-muted-foreground hidden md:block">
-                  <p>Joined {format(new Date(user.created_at), 'MMM d, yyyy')}</p>
-                  <p>Last seen {formatDistanceToNow(new Date(user.last_seen), { addSuffix: true })}</p>
-                </div>
-                <div className="flex gap-1">
-                  <Button size="icon" variant="ghost" onClick={() => setSelectedUser(user)} title="View Conversations">
-                    <Eye className="w-4 h-4" />
-                  </Button>
-                  <Button size="icon" variant="ghost" onClick={() => { setBadgeDialogUser(user); setBadgeType(user.verified_type || ''); setBadgeText(user.badge_text || ''); }} title="Manage Badge">
-                    <BadgeCheck className="w-4 h-4" />
-                  </Button>
-                  <Button size="icon" variant="ghost" onClick={() => handleImpersonate(user)} title="Login as User">
-                    <LogIn className="w-4 h-4" />
-                  </Button>
-                </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="reports">
+            <ModerationQueue />
+          </TabsContent>
+        </Tabs>
 
         {/* User Conversations Dialog */}
         <Dialog open={!!selectedUser} onOpenChange={() => setSelectedUser(null)}>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import MainLayout from '@/components/layout/MainLayout';
+import { Hash } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { normalizeTag } from '@/lib/rich-text';
+import { getPostPath } from '@/lib/post-media';
+import PostGrid, { type PostGridItem } from '@/components/posts/PostGrid';
+
+type HashtagSort = 'top' | 'recent';
+
+const POSTS_LIMIT = 60;
+
+const HashtagPage: React.FC = () => {
+  const { tag: rawTag = '' } = useParams();
+  const tag = normalizeTag(rawTag);
+  const navigate = useNavigate();
+  const [sort, setSort] = useState<HashtagSort>('top');
+
+  const { data: hashtag, isLoading } = useQuery({
+    queryKey: ['hashtag', tag],
+    queryFn: async () => {
+      const { data } = await supabase.from('hashtags').select('id, tag, post_count').eq('tag', tag).maybeSingle();
+      return data;
+    },
+  });
+
+  const { data: posts = [], isLoading: postsLoading } = useQuery({
+    queryKey: ['hashtag-posts', tag, sort],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_hashtag_posts', { _tag: tag, _sort: sort, _limit: POSTS_LIMIT });
+      if (error) throw error;
+      return (data || []) as PostGridItem[];
+    },
+    enabled: !!hashtag,
+  });
+
+  if (isLoading) {
+    return <MainLayout><div className="flex items-center justify-center h-screen"><p className="text-muted-foreground animate-pulse-soft">Loading...</p></div></MainLayout>;
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-4xl mx-auto py-8 px-4">
+        <div className="flex items-center gap-6 mb-8">
+          <div className="w-24 h-24 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+            <Hash className="w-10 h-10 text-muted-foreground" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-semibold">#{tag}</h1>
+            <p className="text-muted-foreground">
+              {hashtag?.post_count || 0} {hashtag?.post_count === 1 ? 'post' : 'posts'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex border-b border-border mb-4">
+          {(['top', 'recent'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setSort(tab)}
+              className={cn(
+                'flex-1 py-3 text-sm font-medium border-b-2 transition-colors',
+                sort === tab ? 'border-foreground text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {tab === 'top' ? 'Top posts' : 'Most recent'}
+            </button>
+          ))}
+        </div>
+
+        {hashtag && postsLoading ? (
+          <p className="text-center py-12 text-muted-foreground animate-pulse-soft">Loading posts...</p>
+        ) : posts.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">No posts yet</p>
+        ) : (
+          <PostGrid posts={posts} onSelect={id => navigate(getPostPath(id))} />
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default HashtagPage;
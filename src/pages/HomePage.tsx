@@ -1,118 +1,48 @@
-import React, { useState } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { useQuery } from '@tanstack/react-query';
+import React, { useMemo, useState } from 'react';
 import MainLayout from '@/components/layout/MainLayout';
 import StoriesBar from '@/components/stories/StoriesBar';
 import PostCard from '@/components/posts/PostCard';
 import CreatePostDialog from '@/components/posts/CreatePostDialog';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Plus, Sparkles } from 'lucide-react';
+import { useFeedPosts, useForYouFeed, type RankedFeedPost } from '@/hooks/use-feed-posts';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { cn } from '@/lib/utils';
 
-interface Post {
-  id: string;
-  caption: string | null;
-  media_url: string;
-  media_type: string;
-  created_at: string;
-  profile: {
-    id: string;
-    username: string;
-    display_name: string;
-    avatar_url: string | null;
-    is_verified?: boolean;
-    verified_type?: string | null;
-  };
-  likes_count: number;
-  comments_count: number;
-  is_liked: boolean;
-  is_saved: boolean;
-}
+type FeedMode = 'following' | 'for-you';
+
+const FOR_YOU_PAGE_SIZE = 10;
 
 const HomePage: React.FC = () => {
-  const { profile } = useAuth();
   const [createOpen, setCreateOpen] = useState(false);
+  const [mode, setMode] = useState<FeedMode>('following');
+  const [forYouVisible, setForYouVisible] = useState(FOR_YOU_PAGE_SIZE);
 
-  const { data: posts = [], isLoading } = useQuery({
-    queryKey: ['feed-posts', profile?.id],
-    queryFn: async () => {
-      if (!profile?.id) return [];
-
-      // Get posts from people the user follows + their own posts
-      const { data: following } = await supabase
-        .from('follows')
-        .select('following_id')
-        .eq('follower_id', profile.id);
-
-      const followingIds = following?.map(f => f.following_id) || [];
-      followingIds.push(profile.id);
-
-      const { data: postsData, error } = await supabase
-        .from('posts')
-        .select(`
-          *,
-          profile:profiles (
-            id,
-            username,
-            display_name,
-            avatar_url,
-            is_verified,
-            verified_type
-          )
-        `)
-        .in('profile_id', followingIds)
-        .order('created_at', { ascending: false })
-        .limit(50);
+  const following = useFeedPosts();
+  const forYou = useForYouFeed();
 
-      if (error) throw error;
+  const followingPosts = useMemo(() => following.data?.pages.flat() || [], [following.data]);
+  const rankedPosts = forYou.data || [];
 
-      // Get likes and saves for each post
-      const postIds = postsData?.map(p => p.id) || [];
-      
-      const [likesData, savesData, likesCount, commentsCount] = await Promise.all([
-        supabase
-          .from('post_likes')
-          .select('post_id')
-          .eq('profile_id', profile.id)
-          .in('post_id', postIds),
-        supabase
-          .from('post_saves')
-          .select('post_id')
-          .eq('profile_id', profile.id)
-          .in('post_id', postIds),
-        supabase
-          .from('post_likes')
-          .select('post_id')
-          .in('post_id', postIds),
-        supabase
-          .from('post_comments')
-          .select('post_id')
-          .in('post_id', postIds),
-      ]);
+  const posts = mode === 'following' ? followingPosts : rankedPosts.slice(0, forYouVisible);
+  const isLoading = mode === 'following' ? following.isLoading : forYou.isLoading;
+  const hasMore = mode === 'following'
+    ? !!following.hasNextPage && !following.isFetchingNextPage
+    : forYouVisible < rankedPosts.length;
 
-      const likedPosts = new Set(likesData.data?.map(l => l.post_id) || []);
-      const savedPosts = new Set(savesData.data?.map(s => s.post_id) || []);
-      
-      const likesCountMap: Record<string, number> = {};
-      likesCount.data?.forEach(l => {
-        likesCountMap[l.post_id] = (likesCountMap[l.post_id] || 0) + 1;
-      });
+  const sentinelRef = useInfiniteScroll(() => {
+    if (mode === 'for-you') {
+      setForYouVisible(count => count + FOR_YOU_PAGE_SIZE);
+    } else if (following.hasNextPage && !following.isFetchingNextPage) {
+      following.fetchNextPage();
+    }
+  }, hasMore, posts.length);
 
-      const commentsCountMap: Record<string, number> = {};
-      commentsCount.data?.forEach(c => {
-        commentsCountMap[c.post_id] = (commentsCountMap[c.post_id] || 0) + 1;
-      });
-
-      return (postsData || []).map(post => ({
-        ...post,
-        likes_count: likesCountMap[post.id] || 0,
-        comments_count: commentsCountMap[post.id] || 0,
-        is_liked: likedPosts.has(post.id),
-        is_saved: savedPosts.has(post.id),
-      })) as Post[];
-    },
-    enabled: !!profile?.id,
-  });
+  const switchMode = (next: FeedMode) => {
+    setMode(next);
+    setForYouVisible(FOR_YOU_PAGE_SIZE);
+    window.scrollTo({ top: 0 });
+  };
 
   return (
     <MainLayout>
@@ -131,6 +61,22 @@ const HomePage: React.FC = () => {
           </Button>
         </div>
 
+        {/* Feed mode tabs */}
+        <div className="flex border-b border-border">
+          {(['following', 'for-you'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => switchMode(tab)}
+              className={cn(
+                'flex-1 py-3 text-sm font-medium border-b-2 transition-colors',
+                mode === tab ? 'border-foreground text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {tab === 'following' ? 'Following' : 'For You'}
+            </button>
+          ))}
+        </div>
+
         {/* Posts feed */}
         <div className="divide-y divide-border">
           {isLoading ? (
@@ -139,15 +85,32 @@ const HomePage: React.FC = () => {
             </div>
           ) : posts.length === 0 ? (
             <div className="p-8 text-center text-muted-foreground">
-              <p>No posts yet. Follow people to see their posts here!</p>
+              <p>
+                {mode === 'following'
+                  ? 'No posts yet. Follow people to see their posts here!'
+                  : 'Nothing to recommend yet. Check back soon!'}
+              </p>
             </div>
           ) : (
             posts.map(post => (
-              <PostCard key={post.id} post={post} />
+              <div key={post.id}>
+                {mode === 'for-you' && !(post as RankedFeedPost).is_following && (
+                  <p className="flex items-center gap-1 px-3 pt-3 text-xs text-muted-foreground bg-card">
+                    <Sparkles className="w-3 h-3" />
+                    Suggested for you
+                  </p>
+                )}
+                <PostCard post={post} />
+              </div>
             ))
           )}
         </div>
 
+        <div ref={sentinelRef} />
+        {following.isFetchingNextPage && mode === 'following' && (
+          <div className="p-4 text-center text-muted-foreground text-sm">Loading more...</div>
+        )}
+
         <CreatePostDialog open={createOpen} onOpenChange={setCreateOpen} />
       </div>
     </MainLayout>
@@ -1,7 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import MainLayout from '@/components/layout/MainLayout';
 import ConversationList from '@/components/chat/ConversationList';
 import ChatArea from '@/components/chat/ChatArea';
@@ -9,46 +7,12 @@ import EmptyChat from '@/components/chat/EmptyChat';
 import NewConversationDialog from '@/components/chat/NewConversationDialog';
 import NotesBar from '@/components/chat/NotesBar';
 
-interface Participant {
-  id: string;
-  username: string;
-  display_name: string;
-  avatar_url: string | null;
-  last_seen: string;
-}
-
 const MessagesPage: React.FC = () => {
   const { conversationId } = useParams();
   const navigate = useNavigate();
-  const { profile } = useAuth();
   const [newConversationOpen, setNewConversationOpen] = useState(false);
-  const [selectedParticipant, setSelectedParticipant] = useState<Participant | null>(null);
-
-  useEffect(() => {
-    if (!profile?.id) return;
-
-    const updateLastSeen = async () => {
-      await supabase
-        .from('profiles')
-        .update({ last_seen: new Date().toISOString() })
-        .eq('id', profile.id);
-    };
-
-    updateLastSeen();
-    const interval = setInterval(updateLastSeen, 60000);
-    return () => clearInterval(interval);
-  }, [profile?.id]);
-
-  const handleSelectConversation = (id: string, participant: Participant) => {
-    setSelectedParticipant(participant);
-    navigate(`/messages/${id}`);
-  };
 
-  const handleConversationCreated = (id: string, participant: any) => {
-    setSelectedParticipant({
-      ...participant,
-      last_seen: new Date().toISOString(),
-    });
+  const handleSelectConversation = (id: string) => {
     navigate(`/messages/${id}`);
   };
 
@@ -65,11 +29,8 @@ const MessagesPage: React.FC = () => {
         </div>
         
         <div className="flex-1 max-md:w-full" style={{ display: !conversationId ? 'none' : undefined }}>
-          {conversationId && selectedParticipant ? (
-            <ChatArea
-              conversationId={conversationId}
-              participant={selectedParticipant}
-            />
+          {conversationId ? (
+            <ChatArea key={conversationId} conversationId={conversationId} />
           ) : (
             <EmptyChat onNewMessage={() => setNewConversationOpen(true)} />
           )}
@@ -84,7 +45,7 @@ const MessagesPage: React.FC = () => {
         <NewConversationDialog
           open={newConversationOpen}
           onOpenChange={setNewConversationOpen}
-          onConversationCreated={handleConversationCreated}
+          onConversationCreated={handleSelectConversation}
         />
       </div>
     </MainLayout>
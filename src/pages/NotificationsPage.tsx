@@ -1,90 +1,182 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
 import MainLayout from '@/components/layout/MainLayout';
-import { Bell, Heart, UserPlus, MessageCircle, AtSign } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import FollowRequestsList from '@/components/profile/FollowRequestsList';
+import { Bell, Heart, UserPlus, MessageCircle, AtSign, User, X, CheckCheck, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNotifications } from '@/hooks/use-notifications';
+import {
+  groupNotifications,
+  getNotificationText,
+  getActorsLabel,
+  getNotificationLink,
+  type NotificationGroup,
+} from '@/lib/notifications';
 
 const NotificationsPage: React.FC = () => {
-  // Placeholder notifications for UI demonstration
-  const notifications = [
-    {
-      id: '1',
-      type: 'follow',
-      message: 'started following you',
-      time: '2h ago',
-      read: false,
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useNotifications();
+
+  const notifications = useMemo(
+    () => groupNotifications(data?.pages.flat() || []),
+    [data]
+  );
+  const hasUnread = notifications.some(n => !n.is_read);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase.from('notifications').update({ is_read: true }).in('id', ids);
+      if (error) throw error;
     },
-    {
-      id: '2', 
-      type: 'like',
-      message: 'liked your story',
-      time: '4h ago',
-      read: true,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications', profile?.id] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.id) return;
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .eq('profile_id', profile.id)
+        .eq('is_read', false);
+      if (error) throw error;
     },
-    {
-      id: '3',
-      type: 'mention',
-      message: 'mentioned you in their note',
-      time: '1d ago',
-      read: true,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications', profile?.id] }),
+    onError: () => toast({ title: 'Failed to mark notifications as read', variant: 'destructive' }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase.from('notifications').delete().in('id', ids);
+      if (error) throw error;
     },
-  ];
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications', profile?.id] }),
+    onError: () => toast({ title: 'Failed to delete notification', variant: 'destructive' }),
+  });
+
+  const handleOpen = (notification: NotificationGroup) => {
+    if (!notification.is_read) markReadMutation.mutate(notification.ids);
+    navigate(getNotificationLink(notification));
+  };
 
   const getIcon = (type: string) => {
     switch (type) {
       case 'follow':
-        return <UserPlus className="w-5 h-5 text-primary" />;
+      case 'follow_accept':
+        return <UserPlus className="w-3 h-3 text-primary" />;
       case 'like':
-        return <Heart className="w-5 h-5 text-red-500" />;
+        return <Heart className="w-3 h-3 text-red-500" />;
+      case 'comment':
+      case 'reply':
       case 'message':
-        return <MessageCircle className="w-5 h-5 text-primary" />;
+        return <MessageCircle className="w-3 h-3 text-primary" />;
       case 'mention':
-        return <AtSign className="w-5 h-5 text-primary" />;
+        return <AtSign className="w-3 h-3 text-primary" />;
+      case 'warning':
+        return <ShieldAlert className="w-3 h-3 text-destructive" />;
       default:
-        return <Bell className="w-5 h-5 text-muted-foreground" />;
+        return <Bell className="w-3 h-3 text-muted-foreground" />;
     }
   };
 
   return (
     <MainLayout>
       <div className="max-w-2xl mx-auto py-8 px-4">
-        <h1 className="text-2xl font-semibold mb-6">Notifications</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-semibold">Notifications</h1>
+          {hasUnread && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {profile?.is_private && <FollowRequestsList />}
 
         <div className="space-y-1">
-          {notifications.length === 0 ? (
+          {isLoading ? (
+            <div className="text-center py-8 text-muted-foreground animate-pulse-soft">Loading...</div>
+          ) : notifications.length === 0 ? (
             <div className="text-center py-16 text-muted-foreground">
               <Bell className="w-16 h-16 mx-auto mb-4 opacity-30" />
               <p>No notifications yet</p>
               <p className="text-sm mt-1">When someone interacts with you, you'll see it here</p>
             </div>
           ) : (
-            notifications.map(notification => (
-              <div
-                key={notification.id}
-                className={`flex items-center gap-3 p-4 rounded-lg transition-colors ${
-                  notification.read ? 'bg-card' : 'bg-accent'
-                }`}
-              >
-                <div className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
-                  {getIcon(notification.type)}
-                </div>
-                <div className="flex-1">
-                  <p className="text-sm">
-                    <span className="font-medium">Someone</span> {notification.message}
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-1">{notification.time}</p>
+            notifications.map(notification => {
+              const actor = notification.actors[0];
+              return (
+                <div
+                  key={notification.key}
+                  onClick={() => handleOpen(notification)}
+                  className={`group flex items-center gap-3 p-4 rounded-lg transition-colors cursor-pointer hover:bg-accent ${
+                    notification.is_read ? 'bg-card' : 'bg-accent'
+                  }`}
+                >
+                  <div className="relative flex-shrink-0">
+                    <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                      {actor?.avatar_url ? (
+                        <img src={actor.avatar_url} alt={actor.username} className="w-full h-full object-cover" />
+                      ) : (
+                        <User className="w-5 h-5 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="absolute -bottom-1 -right-1 w-5 h-5 rounded-full bg-secondary border-2 border-background flex items-center justify-center">
+                      {getIcon(notification.type)}
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm break-words">
+                      {notification.type !== 'warning' && (
+                        <><span className="font-medium">{getActorsLabel(notification.actors)}</span>{' '}</>
+                      )}
+                      {getNotificationText(notification)}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.latest_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.is_read && (
+                    <div className="w-2 h-2 bg-primary rounded-full flex-shrink-0" />
+                  )}
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(notification.ids);
+                    }}
+                    // Always visible on touch screens, which have no hover to reveal it
+                    className="p-1 rounded-full [@media(hover:hover)]:opacity-0 [@media(hover:hover)]:group-hover:opacity-100 focus-visible:opacity-100 hover:bg-secondary transition-opacity"
+                    title="Delete"
+                  >
+                    <X className="w-4 h-4 text-muted-foreground" />
+                  </button>
                 </div>
-                {!notification.read && (
-                  <div className="w-2 h-2 bg-primary rounded-full" />
-                )}
-              </div>
-            ))
+              );
+            })
           )}
         </div>
 
-        <div className="mt-8 p-4 bg-card rounded-xl text-center">
-          <p className="text-muted-foreground text-sm">
-            Full notification system coming soon!
-          </p>
-        </div>
+        {hasNextPage && (
+          <div className="mt-4 text-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
       </div>
     </MainLayout>
   );
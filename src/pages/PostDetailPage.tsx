@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import MainLayout from '@/components/layout/MainLayout';
+import { Button } from '@/components/ui/button';
+import { Lock, User, ImageOff } from 'lucide-react';
+import PostCard from '@/components/posts/PostCard';
+import PostGrid from '@/components/posts/PostGrid';
+import CommentsSection from '@/components/posts/CommentsSection';
+import { useProfilePosts, type FeedPost } from '@/hooks/use-feed-posts';
+import { getPostPath } from '@/lib/post-media';
+
+const MORE_POSTS_COUNT = 6;
+
+const PostDetailPage: React.FC = () => {
+  const { postId = '' } = useParams();
+  const navigate = useNavigate();
+
+  const { data: post, isLoading } = useQuery({
+    queryKey: ['post', postId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_post', { _post_id: postId });
+      if (error) throw error;
+      return ((data || []) as unknown as FeedPost[])[0] || null;
+    },
+  });
+
+  // Only asked when the post is hidden, to tell a private post from a missing one
+  const { data: owner, isLoading: ownerLoading } = useQuery({
+    queryKey: ['post-owner', postId],
+    queryFn: async () => {
+      const { data } = await supabase.rpc('get_post_owner', { _post_id: postId });
+      return data?.[0] || null;
+    },
+    enabled: !isLoading && !post,
+  });
+
+  const { data: authorPosts } = useProfilePosts(post?.profile_id);
+  const morePosts = useMemo(
+    () => (authorPosts?.pages.flat() || [])
+      .filter(p => p.id !== postId)
+      .slice(0, MORE_POSTS_COUNT)
+      .map(p => ({ ...p, media_count: p.media?.length || 1 })),
+    [authorPosts, postId]
+  );
+
+  if (isLoading || (!post && ownerLoading)) {
+    return <MainLayout><div className="flex items-center justify-center h-screen"><p className="text-muted-foreground animate-pulse-soft">Loading...</p></div></MainLayout>;
+  }
+
+  if (!post && owner) {
+    return (
+      <MainLayout>
+        <div className="max-w-md mx-auto py-16 px-4 text-center">
+          <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+            {owner.avatar_url ? (
+              <img src={owner.avatar_url} alt={owner.username} className="w-full h-full object-cover" />
+            ) : (
+              <User className="w-8 h-8 text-muted-foreground" />
+            )}
+          </div>
+          <Lock className="w-10 h-10 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-xl font-medium mb-2">This Account is Private</h3>
+          <p className="text-muted-foreground mb-6">Follow @{owner.username} to see their photos and videos.</p>
+          <Button onClick={() => navigate(`/profile/${owner.username}`)}>Go to profile</Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!post) {
+    return (
+      <MainLayout>
+        <div className="max-w-md mx-auto py-16 px-4 text-center">
+          <ImageOff className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-xl font-medium mb-2">Sorry, this post isn't available</h3>
+          <p className="text-muted-foreground mb-6">The link may be broken, or the post may have been removed.</p>
+          <Button variant="secondary" onClick={() => navigate('/')}>Back to Home</Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="max-w-xl mx-auto py-8 px-4">
+        <div className="border border-border rounded-lg overflow-hidden">
+          <PostCard post={post} />
+          <div className="flex flex-col max-h-[32rem] px-4 border-t border-border">
+            <CommentsSection postId={post.id} postOwnerId={post.profile.id} />
+          </div>
+        </div>
+
+        {morePosts.length > 0 && (
+          <div className="mt-10">
+            <p className="text-sm text-muted-foreground mb-3">
+              More posts from{' '}
+              <Link to={`/profile/${post.profile.username}`} className="font-semibold text-foreground hover:underline">
+                {post.profile.username}
+              </Link>
+            </p>
+            <PostGrid posts={morePosts} onSelect={id => navigate(getPostPath(id))} />
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default PostDetailPage;
@@ -1,39 +1,54 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import MainLayout from '@/components/layout/MainLayout';
-import { Grid3X3, Sparkles } from 'lucide-react';
+import { Compass } from 'lucide-react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import PostCard from '@/components/posts/PostCard';
+import PostGrid from '@/components/posts/PostGrid';
+import { useExplorePosts } from '@/hooks/use-feed-posts';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
 
+// Explore: popular posts from public accounts the user doesn't follow
 const PostsPage: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useExplorePosts();
+
+  const posts = useMemo(() => data?.pages.flat() || [], [data]);
+  const gridPosts = useMemo(
+    () => posts.map(post => ({ ...post, media_count: post.media?.length || 1 })),
+    [posts]
+  );
+  const selectedPost = posts.find(post => post.id === selectedId);
+
+  const sentinelRef = useInfiniteScroll(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, !!hasNextPage && !isFetchingNextPage);
+
   return (
     <MainLayout>
-      <div className="flex flex-col items-center justify-center min-h-screen px-4">
-        <div className="text-center max-w-md animate-fade-in">
-          <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
-            <Grid3X3 className="w-12 h-12 text-primary" />
-          </div>
-          
-          <div className="flex items-center justify-center gap-2 mb-4">
-            <Sparkles className="w-5 h-5 text-primary animate-pulse-soft" />
-            <h1 className="text-3xl font-light">Posts coming soon!</h1>
-            <Sparkles className="w-5 h-5 text-primary animate-pulse-soft" />
-          </div>
-          
-          <p className="text-muted-foreground text-lg mb-8">
-            Stay tuned for the ability to share photos and videos with your followers.
-          </p>
+      <div className="max-w-4xl mx-auto py-8 px-4">
+        <h1 className="text-2xl font-semibold mb-6">Explore</h1>
 
-          <div className="grid grid-cols-3 gap-1 opacity-30">
-            {Array.from({ length: 9 }).map((_, i) => (
-              <div 
-                key={i} 
-                className="aspect-square bg-muted rounded-sm"
-                style={{
-                  animationDelay: `${i * 100}ms`,
-                }}
-              />
-            ))}
+        {isLoading ? (
+          <p className="text-center py-12 text-muted-foreground animate-pulse-soft">Loading posts...</p>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Compass className="w-16 h-16 mx-auto mb-4 opacity-30" />
+            <p>Nothing to explore yet</p>
           </div>
-        </div>
+        ) : (
+          <PostGrid posts={gridPosts} onSelect={setSelectedId} />
+        )}
+        <div ref={sentinelRef} />
+        {isFetchingNextPage && (
+          <p className="text-center py-4 text-sm text-muted-foreground">Loading more...</p>
+        )}
       </div>
+
+      <Dialog open={!!selectedPost} onOpenChange={open => !open && setSelectedId(null)}>
+        <DialogContent className="bg-card max-w-lg p-0 overflow-hidden max-h-[90vh] overflow-y-auto">
+          {selectedPost && <PostCard post={selectedPost} />}
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 };
@@ -1,13 +1,26 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import MainLayout from '@/components/layout/MainLayout';
 import { Button } from '@/components/ui/button';
-import { User, Settings, Grid3X3, Bookmark, Tag, Heart, MessageCircle, Lock } from 'lucide-react';
+import { User, Settings, Grid3X3, Bookmark, Tag, Heart, MessageCircle, Lock, MoreHorizontal, Flag, Copy, Ban, VolumeX, Archive, Send } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import VerifiedBadge from '@/components/ui/VerifiedBadge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import ReportDialog from '@/components/moderation/ReportDialog';
+import HighlightsBar from '@/components/stories/HighlightsBar';
+import StoryArchiveDialog from '@/components/stories/StoryArchiveDialog';
+import SharePostDialog from '@/components/posts/SharePostDialog';
+import { useProfilePosts } from '@/hooks/use-feed-posts';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { getPostPath } from '@/lib/post-media';
 
 interface ProfileData {
   id: string;
@@ -26,6 +39,7 @@ interface Post {
   id: string;
   media_url: string;
   media_type: string;
+  media?: { id?: string }[];
   likes_count: number;
   comments_count: number;
 }
@@ -37,6 +51,9 @@ const ProfilePage: React.FC = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<'posts' | 'saved' | 'tagged'>('posts');
+  const [reportOpen, setReportOpen] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
 
   const isOwnProfile = !username || username === myProfile?.username;
 
@@ -82,28 +99,46 @@ const ProfilePage: React.FC = () => {
     enabled: !!myProfile?.id && !!profileData?.id && !isOwnProfile,
   });
 
+  // Pending request to follow a private account
+  const { data: followRequestId = null } = useQuery({
+    queryKey: ['follow-request', myProfile?.id, profileData?.id],
+    queryFn: async () => {
+      const { data } = await supabase.from('follow_requests').select('id').eq('requester_id', myProfile.id).eq('target_id', profileData.id).maybeSingle();
+      return data?.id ?? null;
+    },
+    enabled: !!myProfile?.id && !!profileData?.id && !isOwnProfile && !!profileData?.is_private && isFollowing === false,
+  });
+
+  const { data: isMuted = false } = useQuery({
+    queryKey: ['is-muted', myProfile?.id, profileData?.id],
+    queryFn: async () => {
+      const { data } = await supabase.from('mutes').select('id').eq('muter_id', myProfile.id).eq('muted_id', profileData.id).maybeSingle();
+      return !!data;
+    },
+    enabled: !!myProfile?.id && !!profileData?.id && !isOwnProfile,
+  });
+
   // Fetch user's posts
-  const { data: posts = [] } = useQuery({
-    queryKey: ['profile-posts', profileData?.id],
+  const {
+    data: postsData,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useProfilePosts(profileData?.id, activeTab === 'posts');
+  const posts = useMemo(() => postsData?.pages.flat() || [], [postsData]);
+
+  const sentinelRef = useInfiniteScroll(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, activeTab === 'posts' && !!hasNextPage && !isFetchingNextPage);
+
+  const { data: postsCount = 0 } = useQuery({
+    queryKey: ['profile-posts', profileData?.id, 'count'],
     queryFn: async () => {
-      if (!profileData?.id) return [];
-      const { data: postsData } = await supabase.from('posts').select('*').eq('profile_id', profileData.id).order('created_at', { ascending: false });
-      if (!postsData) return [];
-      
-      const postIds = postsData.map(p => p.id);
-      const [likesData, commentsData] = await Promise.all([
-        supabase.from('post_likes').select('post_id').in('post_id', postIds),
-        supabase.from('post_comments').select('post_id').in('post_id', postIds),
-      ]);
-      
-      const likesCount: Record<string, number> = {};
-      const commentsCount: Record<string, number> = {};
-      likesData.data?.forEach(l => { likesCount[l.post_id] = (likesCount[l.post_id] || 0) + 1; });
-      commentsData.data?.forEach(c => { commentsCount[c.post_id] = (commentsCount[c.post_id] || 0) + 1; });
-      
-      return postsData.map(p => ({ ...p, likes_count: likesCount[p.id] || 0, comments_count: commentsCount[p.id] || 0 })) as Post[];
+      if (!profileData?.id) return 0;
+      const { count } = await supabase.from('posts').select('*', { count: 'exact', head: true }).eq('profile_id', profileData.id);
+      return count || 0;
     },
-    enabled: !!profileData?.id && activeTab === 'posts',
+    enabled: !!profileData?.id,
   });
 
   // Fetch saved posts (only for own profile)
@@ -111,7 +146,7 @@ const ProfilePage: React.FC = () => {
     queryKey: ['saved-posts', myProfile?.id],
     queryFn: async () => {
       if (!myProfile?.id) return [];
-      const { data } = await supabase.from('post_saves').select('post:posts(id, media_url, media_type)').eq('profile_id', myProfile.id);
+      const { data } = await supabase.from('post_saves').select('post:posts(id, media_url, media_type, media:post_media(id))').eq('profile_id', myProfile.id);
       return (data || []).map(s => s.post).filter(Boolean) as Post[];
     },
     enabled: !!myProfile?.id && activeTab === 'saved' && isOwnProfile,
@@ -122,27 +157,75 @@ const ProfilePage: React.FC = () => {
     queryKey: ['tagged-posts', profileData?.id],
     queryFn: async () => {
       if (!profileData?.id) return [];
-      const { data } = await supabase.from('post_tags').select('post:posts(id, media_url, media_type)').eq('tagged_profile_id', profileData.id);
+      const { data } = await supabase.from('post_tags').select('post:posts(id, media_url, media_type, media:post_media(id))').eq('tagged_profile_id', profileData.id);
       return (data || []).map(t => t.post).filter(Boolean) as Post[];
     },
     enabled: !!profileData?.id && activeTab === 'tagged',
   });
 
+  // Private accounts get a follow request instead of a follow; pressing again cancels it
   const followMutation = useMutation({
     mutationFn: async () => {
       if (!myProfile?.id || !profileData?.id) return;
       if (isFollowing) {
-        await supabase.from('follows').delete().eq('follower_id', myProfile.id).eq('following_id', profileData.id);
-      } else {
-        await supabase.from('follows').insert({ follower_id: myProfile.id, following_id: profileData.id });
-        await supabase.from('notifications').insert({ profile_id: profileData.id, type: 'follow', actor_id: myProfile.id });
+        const { error } = await supabase.from('follows').delete().eq('follower_id', myProfile.id).eq('following_id', profileData.id);
+        if (error) throw error;
+        return 'Unfollowed';
+      }
+      if (followRequestId) {
+        const { error } = await supabase.from('follow_requests').delete().eq('id', followRequestId);
+        if (error) throw error;
+        return 'Request cancelled';
+      }
+      if (profileData.is_private) {
+        const { error } = await supabase.from('follow_requests').insert({ requester_id: myProfile.id, target_id: profileData.id });
+        if (error) throw error;
+        return 'Follow request sent';
       }
+      const { error } = await supabase.from('follows').insert({ follower_id: myProfile.id, following_id: profileData.id });
+      if (error) throw error;
+      await supabase.from('notifications').insert({ profile_id: profileData.id, type: 'follow', actor_id: myProfile.id });
+      return 'Following!';
     },
-    onSuccess: () => {
+    onSuccess: (title) => {
       queryClient.invalidateQueries({ queryKey: ['is-following'] });
+      queryClient.invalidateQueries({ queryKey: ['follow-request'] });
       queryClient.invalidateQueries({ queryKey: ['followers-count'] });
-      toast({ title: isFollowing ? 'Unfollowed' : 'Following!' });
+      if (title) toast({ title });
     },
+    onError: () => toast({ title: 'Something went wrong', variant: 'destructive' }),
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = isMuted
+        ? await supabase.from('mutes').delete().eq('muter_id', myProfile.id).eq('muted_id', profileData.id)
+        : await supabase.from('mutes').insert({ muter_id: myProfile.id, muted_id: profileData.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['is-muted'] });
+      queryClient.invalidateQueries({ queryKey: ['feed-posts'] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+      toast({ title: isMuted ? `Unmuted ${profileData.username}` : `Muted ${profileData.username}` });
+    },
+    onError: () => toast({ title: 'Something went wrong', variant: 'destructive' }),
+  });
+
+  // Blocking also removes any follow between the two accounts, and the
+  // profile disappears for both of them, so leave the page afterwards
+  const blockMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('blocks').insert({ blocker_id: myProfile.id, blocked_id: profileData.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast({ title: `Blocked ${profileData.username}` });
+      navigate('/');
+    },
+    onError: () => toast({ title: 'Something went wrong', variant: 'destructive' }),
   });
 
   const currentPosts = activeTab === 'posts' ? posts : activeTab === 'saved' ? savedPosts : taggedPosts;
@@ -184,17 +267,44 @@ const ProfilePage: React.FC = () => {
               {isOwnProfile ? (
                 <div className="flex gap-2">
                   <Button variant="secondary" size="sm" onClick={() => navigate('/settings')}>Edit profile</Button>
+                  <Button variant="ghost" size="icon" onClick={() => setShareOpen(true)} aria-label="Share profile"><Send className="w-5 h-5" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => setArchiveOpen(true)} aria-label="Story archive"><Archive className="w-5 h-5" /></Button>
                   <Button variant="ghost" size="icon" onClick={() => navigate('/settings')}><Settings className="w-5 h-5" /></Button>
                 </div>
               ) : (
-                <Button onClick={() => followMutation.mutate()} disabled={followMutation.isPending} variant={isFollowing ? 'secondary' : 'default'} size="sm">
-                  {isFollowing ? 'Following' : 'Follow'}
-                </Button>
+                <div className="flex gap-2">
+                  <Button onClick={() => followMutation.mutate()} disabled={followMutation.isPending} variant={isFollowing || followRequestId ? 'secondary' : 'default'} size="sm">
+                    {isFollowing ? 'Following' : followRequestId ? 'Requested' : 'Follow'}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon"><MoreHorizontal className="w-5 h-5" /></Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="bg-card">
+                      <DropdownMenuItem onClick={() => setShareOpen(true)}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Share profile
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setReportOpen(true)}>
+                        <Flag className="w-4 h-4 mr-2" />
+                        Report
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => muteMutation.mutate()} disabled={muteMutation.isPending}>
+                        <VolumeX className="w-4 h-4 mr-2" />
+                        {isMuted ? 'Unmute' : 'Mute'}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => blockMutation.mutate()} disabled={blockMutation.isPending} className="text-destructive">
+                        <Ban className="w-4 h-4 mr-2" />
+                        Block
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               )}
             </div>
 
             <div className="flex justify-center md:justify-start gap-8 mb-4">
-              <div><span className="font-semibold">{posts.length}</span><span className="text-muted-foreground ml-1">posts</span></div>
+              <div><span className="font-semibold">{postsCount}</span><span className="text-muted-foreground ml-1">posts</span></div>
               <button className="hover:opacity-70 transition-opacity"><span className="font-semibold">{followersCount}</span><span className="text-muted-foreground ml-1">followers</span></button>
               <button className="hover:opacity-70 transition-opacity"><span className="font-semibold">{followingCount}</span><span className="text-muted-foreground ml-1">following</span></button>
             </div>
@@ -217,6 +327,8 @@ const ProfilePage: React.FC = () => {
 
         {canViewProfile && (
           <>
+            <HighlightsBar profile={profileData} isOwnProfile={isOwnProfile} />
+
             {/* Tabs */}
             <div className="border-t border-border">
               <div className="flex justify-center gap-12">
@@ -253,8 +365,11 @@ const ProfilePage: React.FC = () => {
             ) : (
               <div className="grid grid-cols-3 gap-1 mt-4">
                 {currentPosts.map((post: any) => (
-                  <div key={post.id} className="aspect-square bg-muted relative group cursor-pointer">
+                  <div key={post.id} onClick={() => navigate(getPostPath(post.id))} className="aspect-square bg-muted relative group cursor-pointer">
                     <img src={post.media_url} alt="" className="w-full h-full object-cover" />
+                    {post.media?.length > 1 && (
+                      <Copy className="absolute top-2 right-2 w-5 h-5 text-white drop-shadow" />
+                    )}
                     <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 text-white">
                       <div className="flex items-center gap-1"><Heart className="w-5 h-5 fill-white" /><span className="font-semibold">{post.likes_count || 0}</span></div>
                       <div className="flex items-center gap-1"><MessageCircle className="w-5 h-5 fill-white" /><span className="font-semibold">{post.comments_count || 0}</span></div>
@@ -263,8 +378,15 @@ const ProfilePage: React.FC = () => {
                 ))}
               </div>
             )}
+            {activeTab === 'posts' && <div ref={sentinelRef} />}
           </>
         )}
+
+        {isOwnProfile && <StoryArchiveDialog open={archiveOpen} onOpenChange={setArchiveOpen} />}
+        <SharePostDialog open={shareOpen} onOpenChange={setShareOpen} profileId={profileData.id} />
+        {!isOwnProfile && (
+          <ReportDialog open={reportOpen} onOpenChange={setReportOpen} contentType="profile" contentId={profileData.id} />
+        )}
       </div>
     </MainLayout>
   );
@@ -1,45 +1,308 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePresence } from '@/contexts/PresenceContext';
 import { supabase } from '@/integrations/supabase/client';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import MainLayout from '@/components/layout/MainLayout';
 import { Input } from '@/components/ui/input';
-import { User, Search } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { User, Search, Hash, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import VerifiedBadge from '@/components/ui/VerifiedBadge';
+import PostGrid, { type PostGridItem } from '@/components/posts/PostGrid';
+import { getPostPath } from '@/lib/post-media';
+import { getActivityText } from '@/lib/presence';
+
+type SearchTab = 'accounts' | 'tags' | 'posts';
+
+type RecentSearchKind = 'account' | 'hashtag' | 'keyword';
 
 interface SearchResult {
   id: string;
   username: string;
   display_name: string;
   avatar_url: string | null;
-  last_seen: string;
+  last_seen: string | null;
+  verified_type?: string | null;
+}
+
+interface HashtagResult {
+  id: string;
+  tag: string;
+  post_count: number;
 }
 
+interface RecentSearch {
+  id: string;
+  kind: RecentSearchKind;
+  value: string;
+  searched_profile: {
+    id: string;
+    username: string;
+    display_name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+const TABS: { value: SearchTab; label: string }[] = [
+  { value: 'accounts', label: 'Accounts' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'posts', label: 'Posts' },
+];
+
+const RECENT_LIMIT = 15;
+
 const SearchPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { getPresence } = usePresence();
+  const queryClient = useQueryClient();
   const [query, setQuery] = useState('');
+  const [tab, setTab] = useState<SearchTab>('accounts');
   const navigate = useNavigate();
 
-  const { data: results = [], isLoading } = useQuery({
-    queryKey: ['search-users', query],
+  const term = query.trim();
+
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery({
+    queryKey: ['search-users', term],
     queryFn: async () => {
-      if (!query.trim()) return [];
+      const { data, error } = await supabase.rpc('search_profiles', { _query: term });
+      if (error) throw error;
+      return data as SearchResult[];
+    },
+    enabled: tab === 'accounts' && term.length > 0,
+  });
 
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, username, display_name, avatar_url, last_seen')
-        .or(`username.ilike.%${query}%,display_name.ilike.%${query}%`)
-        .limit(20);
+  const { data: hashtags = [], isLoading: hashtagsLoading } = useQuery({
+    queryKey: ['search-hashtags', term],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_hashtags', { _query: term });
+      if (error) throw error;
+      return data as HashtagResult[];
+    },
+    enabled: tab === 'tags' && term.replace(/^#/, '').length > 0,
+  });
 
+  const { data: posts = [], isLoading: postsLoading } = useQuery({
+    queryKey: ['search-posts', term],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_posts', { _query: term });
       if (error) throw error;
-      return data as SearchResult[];
+      return data as PostGridItem[];
+    },
+    enabled: tab === 'posts' && term.length > 0,
+  });
+
+  const { data: recentSearches = [] } = useQuery({
+    queryKey: ['recent-searches', profile?.id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('recent_searches')
+        .select('id, kind, value, searched_profile:profiles!recent_searches_searched_profile_id_fkey(id, username, display_name, avatar_url)')
+        .eq('profile_id', profile!.id)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT);
+      return (data || []) as RecentSearch[];
     },
-    enabled: query.trim().length > 0,
+    enabled: !!profile?.id,
   });
 
-  const isOnline = (lastSeen: string) => {
-    const diff = Date.now() - new Date(lastSeen).getTime();
-    return diff < 5 * 60 * 1000;
+  const invalidateRecent = () => queryClient.invalidateQueries({ queryKey: ['recent-searches', profile?.id] });
+
+  // Re-searching something moves it back to the top
+  const saveSearchMutation = useMutation({
+    mutationFn: async ({ kind, value, searchedProfileId }: { kind: RecentSearchKind; value: string; searchedProfileId?: string }) => {
+      if (!profile?.id) return;
+      await supabase.from('recent_searches').upsert(
+        {
+          profile_id: profile.id,
+          kind,
+          value,
+          searched_profile_id: searchedProfileId || null,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: 'profile_id,kind,value' }
+      );
+    },
+    onSuccess: invalidateRecent,
+  });
+
+  const removeSearchMutation = useMutation({
+    mutationFn: async (id: string | null) => {
+      if (!profile?.id) return;
+      const request = supabase.from('recent_searches').delete().eq('profile_id', profile.id);
+      await (id ? request.eq('id', id) : request);
+    },
+    onSuccess: invalidateRecent,
+  });
+
+  const openAccount = (username: string, profileId?: string) => {
+    saveSearchMutation.mutate({ kind: 'account', value: username, searchedProfileId: profileId });
+    navigate(`/profile/${username}`);
+  };
+
+  const openHashtag = (tag: string) => {
+    saveSearchMutation.mutate({ kind: 'hashtag', value: tag });
+    navigate(`/tags/${encodeURIComponent(tag)}`);
+  };
+
+  const openRecent = (recent: RecentSearch) => {
+    if (recent.kind === 'account') {
+      openAccount(recent.searched_profile?.username || recent.value, recent.searched_profile?.id);
+    } else if (recent.kind === 'hashtag') {
+      openHashtag(recent.value);
+    } else {
+      setQuery(recent.value);
+      setTab('posts');
+      saveSearchMutation.mutate({ kind: 'keyword', value: recent.value });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tab === 'posts' && term) {
+      saveSearchMutation.mutate({ kind: 'keyword', value: term });
+    }
+  };
+
+  const renderAccounts = () => {
+    if (accountsLoading) return <p className="text-center py-8 text-muted-foreground animate-pulse-soft">Searching...</p>;
+    if (accounts.length === 0) return <p className="text-center py-8 text-muted-foreground">No users found for "{term}"</p>;
+
+    return accounts.map(user => {
+      const presence = getPresence(user.id);
+      // last_seen is already null when the activity status is hidden
+      const activityText = getActivityText(presence, user.last_seen);
+
+      return (
+        <button
+          key={user.id}
+          onClick={() => openAccount(user.username, user.id)}
+          className="w-full flex items-center gap-3 p-3 hover:bg-accent rounded-lg transition-colors"
+        >
+          <div className="relative">
+            <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+              {user.avatar_url ? (
+                <img
+                  src={user.avatar_url}
+                  alt={user.username}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <User className="w-6 h-6 text-muted-foreground" />
+              )}
+            </div>
+            {presence === 'online' && (
+              <div className="absolute bottom-0 right-0 online-indicator" />
+            )}
+          </div>
+          <div className="flex-1 text-left">
+            <p className="font-medium flex items-center gap-1">
+              {user.display_name}
+              <VerifiedBadge type={user.verified_type} size="sm" />
+            </p>
+            <p className="text-sm text-muted-foreground">@{user.username}</p>
+          </div>
+          {activityText && (
+            <span className={cn(
+              'text-xs',
+              presence === 'online' ? 'text-active' : 'text-muted-foreground'
+            )}>
+              {activityText}
+            </span>
+          )}
+        </button>
+      );
+    });
+  };
+
+  const renderHashtags = () => {
+    if (hashtagsLoading) return <p className="text-center py-8 text-muted-foreground animate-pulse-soft">Searching...</p>;
+    if (hashtags.length === 0) return <p className="text-center py-8 text-muted-foreground">No tags found for "{term}"</p>;
+
+    return hashtags.map(hashtag => (
+      <button
+        key={hashtag.id}
+        onClick={() => openHashtag(hashtag.tag)}
+        className="w-full flex items-center gap-3 p-3 hover:bg-accent rounded-lg transition-colors"
+      >
+        <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center border border-border">
+          <Hash className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div className="flex-1 text-left">
+          <p className="font-medium">#{hashtag.tag}</p>
+          <p className="text-sm text-muted-foreground">
+            {hashtag.post_count} {hashtag.post_count === 1 ? 'post' : 'posts'}
+          </p>
+        </div>
+      </button>
+    ));
+  };
+
+  const renderPosts = () => {
+    if (postsLoading) return <p className="text-center py-8 text-muted-foreground animate-pulse-soft">Searching...</p>;
+    if (posts.length === 0) return <p className="text-center py-8 text-muted-foreground">No posts found for "{term}"</p>;
+    return <PostGrid posts={posts} onSelect={id => navigate(getPostPath(id))} />;
+  };
+
+  const renderRecent = () => {
+    if (recentSearches.length === 0) {
+      return (
+        <div className="text-center py-16 text-muted-foreground">
+          <Search className="w-16 h-16 mx-auto mb-4 opacity-30" />
+          <p>Search for people, tags and posts</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="flex items-center justify-between px-3 mb-2">
+          <h2 className="font-semibold">Recent</h2>
+          <button
+            onClick={() => removeSearchMutation.mutate(null)}
+            className="text-sm text-primary hover:underline"
+          >
+            Clear all
+          </button>
+        </div>
+        {recentSearches.map(recent => (
+          <div key={recent.id} className="flex items-center gap-3 p-3 hover:bg-accent rounded-lg transition-colors">
+            <button onClick={() => openRecent(recent)} className="flex-1 flex items-center gap-3 min-w-0 text-left">
+              <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center overflow-hidden flex-shrink-0">
+                {recent.kind === 'account' && recent.searched_profile?.avatar_url ? (
+                  <img src={recent.searched_profile.avatar_url} alt="" className="w-full h-full object-cover" />
+                ) : recent.kind === 'account' ? (
+                  <User className="w-6 h-6 text-muted-foreground" />
+                ) : recent.kind === 'hashtag' ? (
+                  <Hash className="w-5 h-5 text-muted-foreground" />
+                ) : (
+                  <Search className="w-5 h-5 text-muted-foreground" />
+                )}
+              </div>
+              <div className="min-w-0">
+                {recent.kind === 'account' ? (
+                  <>
+                    <p className="font-medium truncate">{recent.value}</p>
+                    {recent.searched_profile && (
+                      <p className="text-sm text-muted-foreground truncate">{recent.searched_profile.display_name}</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="font-medium truncate">{recent.kind === 'hashtag' ? `#${recent.value}` : recent.value}</p>
+                )}
+              </div>
+            </button>
+            <button
+              onClick={() => removeSearchMutation.mutate(recent.id)}
+              className="p-1 text-muted-foreground hover:text-foreground"
+              aria-label="Remove from recent searches"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </>
+    );
   };
 
   return (
@@ -47,69 +310,41 @@ const SearchPage: React.FC = () => {
       <div className="max-w-2xl mx-auto py-8 px-4">
         <h1 className="text-2xl font-semibold mb-6">Search</h1>
 
-        <div className="relative mb-6">
+        <form onSubmit={handleSubmit} className="relative mb-4">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
           <Input
             value={query}
             onChange={e => setQuery(e.target.value)}
-            placeholder="Search users..."
+            placeholder="Search"
             className="pl-10 bg-secondary border-0 h-12 text-base"
           />
-        </div>
+        </form>
 
-        <div className="space-y-1">
-          {query.trim() === '' ? (
-            <div className="text-center py-16 text-muted-foreground">
-              <Search className="w-16 h-16 mx-auto mb-4 opacity-30" />
-              <p>Search for people by username or name</p>
-            </div>
-          ) : isLoading ? (
-            <div className="text-center py-8 text-muted-foreground animate-pulse-soft">
-              Searching...
-            </div>
-          ) : results.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              No users found for "{query}"
-            </div>
-          ) : (
-            results.map(user => (
+        {term !== '' && (
+          <div className="flex border-b border-border mb-4">
+            {TABS.map(t => (
               <button
-                key={user.id}
-                onClick={() => navigate(`/profile/${user.username}`)}
-                className="w-full flex items-center gap-3 p-3 hover:bg-accent rounded-lg transition-colors"
+                key={t.value}
+                onClick={() => setTab(t.value)}
+                className={cn(
+                  'flex-1 py-3 text-sm font-medium border-b-2 transition-colors',
+                  tab === t.value ? 'border-foreground text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground'
+                )}
               >
-                <div className="relative">
-                  <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center overflow-hidden">
-                    {user.avatar_url ? (
-                      <img 
-                        src={user.avatar_url}
-                        alt={user.username}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <User className="w-6 h-6 text-muted-foreground" />
-                    )}
-                  </div>
-                  {isOnline(user.last_seen) && (
-                    <div className="absolute bottom-0 right-0 online-indicator" />
-                  )}
-                </div>
-                <div className="flex-1 text-left">
-                  <p className="font-medium">{user.display_name}</p>
-                  <p className="text-sm text-muted-foreground">@{user.username}</p>
-                </div>
-                <span className={cn(
-                  'text-xs',
-                  isOnline(user.last_seen) ? 'text-active' : 'text-muted-foreground'
-                )}>
-                  {isOnline(user.last_seen) 
-                    ? 'Active now' 
-                    : formatDistanceToNow(new Date(user.last_seen), { addSuffix: true })
-                  }
-                </span>
+                {t.label}
               </button>
-            ))
-          )}
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          {term === ''
+            ? renderRecent()
+            : tab === 'accounts'
+              ? renderAccounts()
+              : tab === 'tags'
+                ? renderHashtags()
+                : renderPosts()}
         </div>
       </div>
     </MainLayout>
@@ -27,6 +27,9 @@ import {
   Search,
   Camera,
   Loader2,
+  Inbox,
+  Ban,
+  VolumeX,
 } from 'lucide-react';
 import {
   Dialog,
@@ -35,6 +38,9 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
+import CropDialog from '@/components/media/CropDialog';
+import RestrictedAccountsDialog from '@/components/profile/RestrictedAccountsDialog';
+import { MEDIA_PRESETS, type ProcessedMedia } from '@/lib/media-pipeline';
 
 interface CloseFriend {
   id: string;
@@ -58,10 +64,13 @@ const SettingsPage: React.FC = () => {
   const [editProfileOpen, setEditProfileOpen] = useState(false);
   const [notificationsOpen, setNotificationsOpen] = useState(false);
   const [privacyOpen, setPrivacyOpen] = useState(false);
+  const [blockedOpen, setBlockedOpen] = useState(false);
+  const [mutedOpen, setMutedOpen] = useState(false);
   const [helpOpen, setHelpOpen] = useState(false);
   const [aboutOpen, setAboutOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isUploading, setIsUploading] = useState(false);
+  const [pendingAvatar, setPendingAvatar] = useState<File | null>(null);
 
   const [displayName, setDisplayName] = useState(profile?.display_name || '');
   const [bio, setBio] = useState(profile?.bio || '');
@@ -156,15 +165,23 @@ const SettingsPage: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['close-friends'] }),
   });
 
-  const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAvatarSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !user?.id) return;
+    e.target.value = '';
+    if (!file) return;
 
     if (!file.type.startsWith('image/')) {
       toast({ title: 'Please select an image file', variant: 'destructive' });
       return;
     }
 
+    setPendingAvatar(file);
+  };
+
+  const handleAvatarUpload = async ({ file }: ProcessedMedia) => {
+    setPendingAvatar(null);
+    if (!user?.id) return;
+
     setIsUploading(true);
     try {
       const fileExt = file.name.split('.').pop();
@@ -231,6 +248,16 @@ const SettingsPage: React.FC = () => {
           checked: settings?.show_read_receipts ?? true,
           onToggle: (checked: boolean) => updateSettingsMutation.mutate({ show_read_receipts: checked }),
         },
+        {
+          icon: Inbox,
+          label: 'Filter message requests',
+          subtitle: "Messages from people you don't follow go to Requests",
+          toggle: true,
+          checked: settings?.require_message_requests ?? true,
+          onToggle: (checked: boolean) => updateSettingsMutation.mutate({ require_message_requests: checked }),
+        },
+        { icon: Ban, label: 'Blocked accounts', onClick: () => setBlockedOpen(true) },
+        { icon: VolumeX, label: 'Muted accounts', onClick: () => setMutedOpen(true) },
       ],
     },
     {
@@ -273,7 +300,10 @@ const SettingsPage: React.FC = () => {
                     <div className="flex items-center justify-between px-4 py-3">
                       <div className="flex items-center gap-3">
                         <item.icon className="w-5 h-5 text-muted-foreground" />
-                        <span>{item.label}</span>
+                        <div className="text-left">
+                          <p>{item.label}</p>
+                          {item.subtitle && <p className="text-sm text-muted-foreground">{item.subtitle}</p>}
+                        </div>
                       </div>
                       <Switch checked={item.checked} onCheckedChange={item.onToggle} />
                     </div>
@@ -313,7 +343,7 @@ const SettingsPage: React.FC = () => {
                     {isUploading ? <Loader2 className="w-6 h-6 text-white animate-spin" /> : <Camera className="w-6 h-6 text-white" />}
                   </div>
                 </button>
-                <input ref={fileInputRef} type="file" accept="image/*" onChange={handleAvatarUpload} className="hidden" />
+                <input ref={fileInputRef} type="file" accept="image/*" onChange={handleAvatarSelect} className="hidden" />
               </div>
               <div className="space-y-2">
                 <Label>Name</Label>
@@ -331,6 +361,15 @@ const SettingsPage: React.FC = () => {
           </DialogContent>
         </Dialog>
 
+        <CropDialog
+          file={pendingAvatar}
+          preset={MEDIA_PRESETS.avatar}
+          title="Crop profile photo"
+          round
+          onCancel={() => setPendingAvatar(null)}
+          onComplete={handleAvatarUpload}
+        />
+
         {/* Close Friends Dialog */}
         <Dialog open={closeFriendsOpen} onOpenChange={setCloseFriendsOpen}>
           <DialogContent className="bg-card max-w-md">
@@ -363,6 +402,9 @@ const SettingsPage: React.FC = () => {
           </DialogContent>
         </Dialog>
 
+        <RestrictedAccountsDialog restriction="blocked" open={blockedOpen} onOpenChange={setBlockedOpen} />
+        <RestrictedAccountsDialog restriction="muted" open={mutedOpen} onOpenChange={setMutedOpen} />
+
         {/* Notifications Settings Dialog */}
         <Dialog open={notificationsOpen} onOpenChange={setNotificationsOpen}>
           <DialogContent className="bg-card">
@@ -0,0 +1,11 @@
+-- Speed up the notifications inbox (newest first, unread count)
+CREATE INDEX IF NOT EXISTS notifications_profile_created_idx
+ON public.notifications (profile_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_profile_unread_idx
+ON public.notifications (profile_id)
+WHERE is_read = false;
+
+-- Enable realtime for notifications so new rows show up live
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,34 @@
+-- Link each message request to the conversation holding its messages
+ALTER TABLE public.message_requests
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.message_requests
+ADD CONSTRAINT message_requests_status_check
+CHECK (status IN ('pending', 'accepted', 'declined', 'blocked'));
+
+CREATE INDEX IF NOT EXISTS message_requests_receiver_status_idx
+ON public.message_requests (receiver_id, status);
+
+-- Let users choose whether messages from people they don't follow go to Requests
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS require_message_requests BOOLEAN DEFAULT true;
+
+-- Whether a new conversation with _receiver_id has to go through a message request.
+-- Security definer because the sender cannot read the receiver's settings.
+CREATE OR REPLACE FUNCTION public.needs_message_request(_receiver_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT require_message_requests FROM public.user_settings WHERE profile_id = _receiver_id),
+    true
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = _receiver_id
+      AND following_id = public.get_my_profile_id()
+  )
+$$;
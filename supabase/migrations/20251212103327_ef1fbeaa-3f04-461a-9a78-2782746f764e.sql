@@ -0,0 +1,82 @@
+-- Structured report reasons and review workflow
+ALTER TABLE public.reports
+ADD COLUMN IF NOT EXISTS reason_category TEXT DEFAULT 'other',
+ADD COLUMN IF NOT EXISTS details TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS resolution TEXT,
+ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+ALTER TABLE public.reports
+ADD CONSTRAINT reports_reason_category_check
+CHECK (reason_category IN ('spam', 'harassment', 'hate_speech', 'nudity', 'violence', 'false_information', 'self_harm', 'scam', 'other'));
+
+ALTER TABLE public.reports
+ADD CONSTRAINT reports_status_check
+CHECK (status IN ('pending', 'reviewing', 'resolved'));
+
+ALTER TABLE public.reports
+ADD CONSTRAINT reports_content_type_check
+CHECK (content_type IN ('post', 'story', 'comment', 'profile'));
+
+ALTER TABLE public.reports
+ADD CONSTRAINT reports_resolution_check
+CHECK (resolution IN ('dismissed', 'content_removed', 'user_warned', 'user_suspended') OR resolution IS NULL);
+
+CREATE INDEX IF NOT EXISTS reports_status_created_idx
+ON public.reports (status, created_at DESC);
+
+CREATE TRIGGER update_reports_updated_at
+  BEFORE UPDATE ON public.reports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE POLICY "Admins can update reports" ON public.reports FOR UPDATE USING (has_role(auth.uid(), 'admin'));
+
+-- Audit trail of moderation actions
+CREATE TABLE public.moderation_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  admin_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('start_review', 'dismiss', 'remove_content', 'warn', 'suspend')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view moderation actions" ON public.moderation_actions FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can log moderation actions" ON public.moderation_actions FOR INSERT WITH CHECK (
+  has_role(auth.uid(), 'admin') AND admin_id = get_my_profile_id()
+);
+
+-- Suspensions
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE;
+
+CREATE POLICY "Admins can update any profile" ON public.profiles FOR UPDATE USING (has_role(auth.uid(), 'admin'));
+
+-- Only admins may change a suspension; owners keep updating the rest of their profile
+CREATE OR REPLACE FUNCTION public.protect_suspension()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.suspended_until IS DISTINCT FROM OLD.suspended_until AND NOT has_role(auth.uid(), 'admin') THEN
+    NEW.suspended_until := OLD.suspended_until;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_suspension
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_suspension();
+
+-- Admins need to see and remove reported content regardless of privacy
+CREATE POLICY "Admins can view all posts" ON public.posts FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete any post" ON public.posts FOR DELETE USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can view all stories" ON public.stories FOR SELECT USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete any story" ON public.stories FOR DELETE USING (has_role(auth.uid(), 'admin'));
+CREATE POLICY "Admins can delete any comment" ON public.post_comments FOR DELETE USING (has_role(auth.uid(), 'admin'));
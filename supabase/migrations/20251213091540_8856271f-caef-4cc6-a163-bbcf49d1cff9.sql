@@ -0,0 +1,70 @@
+-- Indexes backing the feed and per-post counts
+CREATE INDEX IF NOT EXISTS posts_profile_created_idx
+ON public.posts (profile_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS post_likes_post_id_idx ON public.post_likes (post_id);
+CREATE INDEX IF NOT EXISTS post_comments_post_id_idx ON public.post_comments (post_id);
+
+-- Feed posts with engagement counts in one round trip.
+-- Without _profile_id this is the home feed (own posts + followed accounts),
+-- otherwise the posts of that profile. Pages are keyed on (created_at, id).
+-- Runs as the caller, so the posts privacy policy still applies.
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  _profile_id UUID DEFAULT NULL,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE
+    CASE
+      WHEN _profile_id IS NULL THEN
+        p.profile_id = get_my_profile_id()
+        OR p.profile_id IN (SELECT following_id FROM follows WHERE follower_id = get_my_profile_id())
+      ELSE p.profile_id = _profile_id
+    END
+    AND (_before_created_at IS NULL OR (p.created_at, p.id) < (_before_created_at, _before_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(_limit, 50)
+$$;
@@ -0,0 +1,115 @@
+-- Candidate posts for the ranked "For You" feed: own posts, followed
+-- accounts, and public accounts the viewer doesn't follow yet.
+-- Ranking itself happens on the client (src/lib/feed-ranking.ts).
+CREATE OR REPLACE FUNCTION public.get_feed_candidates(
+  _since TIMESTAMP WITH TIME ZONE,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  is_following BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved,
+    (
+      p.profile_id = get_my_profile_id()
+      OR EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+    ) AS is_following
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.created_at >= _since
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(_limit, 500)
+$$;
+
+-- How often the caller liked, commented on or messaged each author since _since.
+-- Security definer so message recipients can be resolved; it only ever reads
+-- the caller's own activity.
+CREATE OR REPLACE FUNCTION public.get_my_affinity(_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  profile_id UUID,
+  likes BIGINT,
+  comments BIGINT,
+  messages BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH like_counts AS (
+    SELECT p.profile_id, count(*) AS n
+    FROM post_likes l
+    JOIN posts p ON p.id = l.post_id
+    WHERE l.profile_id = get_my_profile_id() AND l.created_at >= _since
+    GROUP BY p.profile_id
+  ),
+  comment_counts AS (
+    SELECT p.profile_id, count(*) AS n
+    FROM post_comments c
+    JOIN posts p ON p.id = c.post_id
+    WHERE c.profile_id = get_my_profile_id() AND c.created_at >= _since
+    GROUP BY p.profile_id
+  ),
+  message_counts AS (
+    SELECT cp.profile_id, count(*) AS n
+    FROM messages m
+    JOIN conversation_participants cp
+      ON cp.conversation_id = m.conversation_id AND cp.profile_id <> m.sender_id
+    WHERE m.sender_id = get_my_profile_id() AND m.created_at >= _since
+    GROUP BY cp.profile_id
+  ),
+  authors AS (
+    SELECT profile_id FROM like_counts
+    UNION SELECT profile_id FROM comment_counts
+    UNION SELECT profile_id FROM message_counts
+  )
+  SELECT
+    a.profile_id,
+    COALESCE(lc.n, 0) AS likes,
+    COALESCE(cc.n, 0) AS comments,
+    COALESCE(mc.n, 0) AS messages
+  FROM authors a
+  LEFT JOIN like_counts lc ON lc.profile_id = a.profile_id
+  LEFT JOIN comment_counts cc ON cc.profile_id = a.profile_id
+  LEFT JOIN message_counts mc ON mc.profile_id = a.profile_id
+  WHERE a.profile_id <> get_my_profile_id()
+$$;
+
+CREATE INDEX IF NOT EXISTS posts_created_at_idx ON public.posts (created_at DESC);
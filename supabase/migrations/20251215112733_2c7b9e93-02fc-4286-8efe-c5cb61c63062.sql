@@ -0,0 +1,174 @@
+-- Carousel posts: every post gets one or more ordered media items.
+-- posts.media_url/media_type stay as the cover (first item) so existing
+-- readers such as shares and notifications keep working.
+CREATE TABLE public.post_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  media_url TEXT NOT NULL,
+  media_type TEXT NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video')),
+  alt_text TEXT,
+  position INTEGER NOT NULL DEFAULT 0 CHECK (position >= 0 AND position < 10),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(post_id, position)
+);
+
+ALTER TABLE public.post_media ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the parent post is visible to the caller
+CREATE POLICY "Post media viewable with its post" ON public.post_media FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE id = post_id)
+);
+CREATE POLICY "Post owner can add media" ON public.post_media FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.posts WHERE id = post_id AND profile_id = get_my_profile_id())
+);
+CREATE POLICY "Post owner can update media" ON public.post_media FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE id = post_id AND profile_id = get_my_profile_id())
+);
+CREATE POLICY "Post owner can remove media" ON public.post_media FOR DELETE USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE id = post_id AND profile_id = get_my_profile_id())
+);
+
+-- Move every existing post's single media item into post_media
+INSERT INTO public.post_media (post_id, media_url, media_type, position, created_at)
+SELECT id, media_url, COALESCE(media_type, 'image'), 0, created_at
+FROM public.posts;
+
+-- Feed functions now return the ordered media items
+DROP FUNCTION IF EXISTS public.get_feed_posts(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.get_feed_candidates(TIMESTAMP WITH TIME ZONE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  _profile_id UUID DEFAULT NULL,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', m.id, 'media_url', m.media_url, 'media_type', m.media_type, 'alt_text', m.alt_text)
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE
+    CASE
+      WHEN _profile_id IS NULL THEN
+        p.profile_id = get_my_profile_id()
+        OR p.profile_id IN (SELECT following_id FROM follows WHERE follower_id = get_my_profile_id())
+      ELSE p.profile_id = _profile_id
+    END
+    AND (_before_created_at IS NULL OR (p.created_at, p.id) < (_before_created_at, _before_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_feed_candidates(
+  _since TIMESTAMP WITH TIME ZONE,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  is_following BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', m.id, 'media_url', m.media_url, 'media_type', m.media_type, 'alt_text', m.alt_text)
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved,
+    (
+      p.profile_id = get_my_profile_id()
+      OR EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+    ) AS is_following
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.created_at >= _since
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(_limit, 500)
+$$;
@@ -0,0 +1,162 @@
+-- Output of the client-side media pipeline: a tiny blurred placeholder
+-- (data URL) shown while the full image loads, plus the encoded size
+ALTER TABLE public.post_media
+ADD COLUMN IF NOT EXISTS placeholder TEXT,
+ADD COLUMN IF NOT EXISTS width INTEGER,
+ADD COLUMN IF NOT EXISTS height INTEGER;
+
+ALTER TABLE public.stories
+ADD COLUMN IF NOT EXISTS placeholder TEXT;
+
+-- Include the new columns in the feed media items
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  _profile_id UUID DEFAULT NULL,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE
+    CASE
+      WHEN _profile_id IS NULL THEN
+        p.profile_id = get_my_profile_id()
+        OR p.profile_id IN (SELECT following_id FROM follows WHERE follower_id = get_my_profile_id())
+      ELSE p.profile_id = _profile_id
+    END
+    AND (_before_created_at IS NULL OR (p.created_at, p.id) < (_before_created_at, _before_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_feed_candidates(
+  _since TIMESTAMP WITH TIME ZONE,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  is_following BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved,
+    (
+      p.profile_id = get_my_profile_id()
+      OR EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+    ) AS is_following
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.created_at >= _since
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(_limit, 500)
+$$;
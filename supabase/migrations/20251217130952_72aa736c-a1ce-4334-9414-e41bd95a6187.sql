@@ -0,0 +1,29 @@
+-- Reply threads: replies point at the top-level comment they belong to
+ALTER TABLE public.post_comments
+ADD COLUMN IF NOT EXISTS parent_comment_id UUID REFERENCES public.post_comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS post_comments_parent_idx ON public.post_comments (parent_comment_id);
+
+-- Comment likes
+CREATE TABLE IF NOT EXISTS public.comment_likes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.post_comments(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(comment_id, profile_id)
+);
+
+ALTER TABLE public.comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment likes are viewable by everyone" ON public.comment_likes FOR SELECT USING (true);
+CREATE POLICY "Users can like comments" ON public.comment_likes FOR INSERT WITH CHECK (profile_id = get_my_profile_id());
+CREATE POLICY "Users can unlike comments" ON public.comment_likes FOR DELETE USING (profile_id = get_my_profile_id());
+
+-- Post owners can moderate the comments on their posts
+CREATE POLICY "Post owner can delete comments" ON public.post_comments FOR DELETE USING (
+  EXISTS (SELECT 1 FROM public.posts WHERE id = post_id AND profile_id = get_my_profile_id())
+);
+
+-- One pinned comment per post, chosen by the post owner
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS pinned_comment_id UUID REFERENCES public.post_comments(id) ON DELETE SET NULL;
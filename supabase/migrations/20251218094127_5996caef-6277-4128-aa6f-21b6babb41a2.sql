@@ -0,0 +1,99 @@
+-- Hashtags used in post captions
+CREATE TABLE IF NOT EXISTS public.hashtags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tag TEXT NOT NULL UNIQUE,
+  post_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.post_hashtags (
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  hashtag_id UUID NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (post_id, hashtag_id)
+);
+
+CREATE INDEX IF NOT EXISTS post_hashtags_hashtag_idx ON public.post_hashtags (hashtag_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS hashtags_tag_prefix_idx ON public.hashtags (tag text_pattern_ops);
+
+ALTER TABLE public.hashtags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_hashtags ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the caption trigger below
+CREATE POLICY "Hashtags are viewable by everyone" ON public.hashtags FOR SELECT USING (true);
+CREATE POLICY "Post hashtags are viewable by everyone" ON public.post_hashtags FOR SELECT USING (true);
+
+-- Same rules as the client parser in src/lib/rich-text.ts: lowercase, not all digits
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_text TEXT)
+RETURNS SETOF TEXT
+LANGUAGE sql IMMUTABLE SET search_path = public
+AS $$
+  SELECT DISTINCT lower(m[2])
+  FROM regexp_matches(coalesce(_text, ''), '(^|[^[:alnum:]_&#])#([[:alnum:]_]{1,100})', 'g') AS m
+  WHERE m[2] !~ '^[0-9_]+$'
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_post_hashtags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.caption IS NOT DISTINCT FROM OLD.caption THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.hashtags (tag)
+  SELECT tag FROM extract_hashtags(NEW.caption) AS tag
+  ON CONFLICT (tag) DO NOTHING;
+
+  DELETE FROM public.post_hashtags ph
+  USING public.hashtags h
+  WHERE ph.hashtag_id = h.id
+    AND ph.post_id = NEW.id
+    AND h.tag NOT IN (SELECT extract_hashtags(NEW.caption));
+
+  INSERT INTO public.post_hashtags (post_id, hashtag_id)
+  SELECT NEW.id, h.id FROM public.hashtags h
+  WHERE h.tag IN (SELECT extract_hashtags(NEW.caption))
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_posts_hashtags
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_post_hashtags();
+
+-- Keep post_count in step, including cascades when a post is deleted
+CREATE OR REPLACE FUNCTION public.update_hashtag_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.hashtags SET post_count = post_count + 1 WHERE id = NEW.hashtag_id;
+  ELSE
+    UPDATE public.hashtags SET post_count = GREATEST(post_count - 1, 0) WHERE id = OLD.hashtag_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_hashtags_post_count
+  AFTER INSERT OR DELETE ON public.post_hashtags
+  FOR EACH ROW EXECUTE FUNCTION public.update_hashtag_count();
+
+-- Index existing captions
+INSERT INTO public.hashtags (tag)
+SELECT DISTINCT extract_hashtags(caption) FROM public.posts WHERE caption IS NOT NULL
+ON CONFLICT (tag) DO NOTHING;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id, created_at)
+SELECT p.id, h.id, p.created_at
+FROM public.posts p
+CROSS JOIN LATERAL extract_hashtags(p.caption) AS t(tag)
+JOIN public.hashtags h ON h.tag = t.tag
+ON CONFLICT DO NOTHING;
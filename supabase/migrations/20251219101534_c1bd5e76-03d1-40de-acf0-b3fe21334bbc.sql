@@ -0,0 +1,141 @@
+-- Search: trigram matching for accounts and hashtags, full-text for captions
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS profiles_username_trgm_idx ON public.profiles USING gin (username extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS profiles_display_name_trgm_idx ON public.profiles USING gin (display_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS hashtags_tag_trgm_idx ON public.hashtags USING gin (tag extensions.gin_trgm_ops);
+
+-- 'simple' config: captions are multilingual and full of handles and tags
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS caption_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce(caption, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS posts_caption_tsv_idx ON public.posts USING gin (caption_tsv);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE,
+  is_verified BOOLEAN,
+  verified_type TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT p.id, p.username, p.display_name, p.avatar_url, p.last_seen, p.is_verified, p.verified_type
+  FROM profiles p
+  WHERE _query <% p.username OR _query <% p.display_name
+  ORDER BY
+    (lower(p.username) = lower(_query)) DESC,
+    GREATEST(word_similarity(_query, p.username), word_similarity(_query, p.display_name)) DESC,
+    p.username
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_hashtags(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  tag TEXT,
+  post_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT h.id, h.tag, h.post_count
+  FROM hashtags h
+  WHERE lower(ltrim(_query, '#')) <% h.tag
+  ORDER BY
+    (h.tag = lower(ltrim(_query, '#'))) DESC,
+    word_similarity(lower(ltrim(_query, '#')), h.tag) DESC,
+    h.post_count DESC
+  LIMIT LEAST(_limit, 50)
+$$;
+
+-- Grid tiles for search results and hashtag pages. Runs as the caller, so
+-- posts from private accounts they don't follow are filtered out by RLS.
+CREATE OR REPLACE FUNCTION public.search_posts(_query TEXT, _limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  id UUID,
+  media_url TEXT,
+  media_type TEXT,
+  media_count BIGINT,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.media_url,
+    p.media_type,
+    (SELECT count(*) FROM post_media m WHERE m.post_id = p.id) AS media_count,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    p.created_at
+  FROM posts p
+  WHERE p.caption_tsv @@ websearch_to_tsquery('simple', _query)
+  ORDER BY ts_rank(p.caption_tsv, websearch_to_tsquery('simple', _query)) DESC, p.created_at DESC
+  LIMIT LEAST(_limit, 60)
+$$;
+
+-- 'top' ranks by engagement, 'recent' by posting time
+CREATE OR REPLACE FUNCTION public.get_hashtag_posts(_tag TEXT, _sort TEXT DEFAULT 'recent', _limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  id UUID,
+  media_url TEXT,
+  media_type TEXT,
+  media_count BIGINT,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT
+      p.id,
+      p.media_url,
+      p.media_type,
+      (SELECT count(*) FROM post_media m WHERE m.post_id = p.id) AS media_count,
+      (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+      (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+      p.created_at
+    FROM hashtags h
+    JOIN post_hashtags ph ON ph.hashtag_id = h.id
+    JOIN posts p ON p.id = ph.post_id
+    WHERE h.tag = lower(_tag)
+  ) t
+  ORDER BY
+    CASE WHEN _sort = 'top' THEN t.likes_count + t.comments_count * 2 END DESC NULLS LAST,
+    t.created_at DESC
+  LIMIT LEAST(_limit, 60)
+$$;
+
+-- Per-user search history
+CREATE TABLE IF NOT EXISTS public.recent_searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('account', 'hashtag', 'keyword')),
+  value TEXT NOT NULL,
+  searched_profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(profile_id, kind, value)
+);
+
+CREATE INDEX IF NOT EXISTS recent_searches_profile_idx ON public.recent_searches (profile_id, created_at DESC);
+
+ALTER TABLE public.recent_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recent searches" ON public.recent_searches FOR SELECT USING (profile_id = get_my_profile_id());
+CREATE POLICY "Users can add recent searches" ON public.recent_searches FOR INSERT WITH CHECK (profile_id = get_my_profile_id());
+CREATE POLICY "Users can update own recent searches" ON public.recent_searches FOR UPDATE USING (profile_id = get_my_profile_id());
+CREATE POLICY "Users can delete own recent searches" ON public.recent_searches FOR DELETE USING (profile_id = get_my_profile_id());
@@ -0,0 +1,96 @@
+-- Explore: public posts from accounts the caller doesn't follow, ranked by
+-- likes and comments received within the last _window_days
+CREATE INDEX IF NOT EXISTS post_likes_post_created_idx ON public.post_likes (post_id, created_at);
+CREATE INDEX IF NOT EXISTS post_comments_post_created_idx ON public.post_comments (post_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.get_explore_posts(
+  _offset INTEGER DEFAULT 0,
+  _limit INTEGER DEFAULT 24,
+  _window_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  score BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT
+      p.id,
+      p.profile_id,
+      p.caption,
+      p.media_url,
+      p.media_type,
+      p.created_at,
+      jsonb_build_object(
+        'id', pr.id,
+        'username', pr.username,
+        'display_name', pr.display_name,
+        'avatar_url', pr.avatar_url,
+        'is_verified', pr.is_verified,
+        'verified_type', pr.verified_type
+      ) AS profile,
+      COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'media_url', m.media_url,
+            'media_type', m.media_type,
+            'alt_text', m.alt_text,
+            'placeholder', m.placeholder,
+            'width', m.width,
+            'height', m.height
+          )
+          ORDER BY m.position
+        )
+        FROM post_media m
+        WHERE m.post_id = p.id
+      ), '[]'::jsonb) AS media,
+      (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+      (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+      EXISTS (
+        SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+      ) AS is_liked,
+      EXISTS (
+        SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+      ) AS is_saved,
+      (
+        (SELECT count(*) FROM post_likes l
+          WHERE l.post_id = p.id AND l.created_at >= now() - make_interval(days => _window_days))
+        + 2 * (SELECT count(*) FROM post_comments c
+          WHERE c.post_id = p.id AND c.created_at >= now() - make_interval(days => _window_days))
+      ) AS score
+    FROM posts p
+    JOIN profiles pr ON pr.id = p.profile_id
+    WHERE NOT COALESCE(pr.is_private, false)
+      AND p.profile_id <> get_my_profile_id()
+      AND NOT EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+      -- Blocked in either direction
+      AND NOT EXISTS (
+        SELECT 1 FROM message_requests mr
+        WHERE mr.status = 'blocked'
+          AND (
+            (mr.sender_id = p.profile_id AND mr.receiver_id = get_my_profile_id())
+            OR (mr.sender_id = get_my_profile_id() AND mr.receiver_id = p.profile_id)
+          )
+      )
+  ) t
+  ORDER BY t.score DESC, t.created_at DESC, t.id
+  OFFSET GREATEST(_offset, 0)
+  LIMIT LEAST(_limit, 50)
+$$;
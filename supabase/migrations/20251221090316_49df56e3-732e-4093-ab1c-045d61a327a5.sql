@@ -0,0 +1,85 @@
+-- Single post for the /p/:postId permalink, same shape as get_feed_posts.
+-- Runs as the caller, so posts hidden by the privacy RLS return no row.
+CREATE OR REPLACE FUNCTION public.get_post(_post_id UUID)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.id = _post_id
+$$;
+
+-- Owner of a post the caller may not be able to see, so the permalink can
+-- tell "this account is private" apart from a post that doesn't exist.
+-- Only exposes what the owner's public profile already shows.
+CREATE OR REPLACE FUNCTION public.get_post_owner(_post_id UUID)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  is_private BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT pr.id, pr.username, pr.display_name, pr.avatar_url, COALESCE(pr.is_private, false)
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.id = _post_id
+$$;
@@ -0,0 +1,16 @@
+-- Structured share messages. Each references the shared content by id; the
+-- reference is cleared when the content is deleted so the chat keeps a
+-- "no longer available" card instead of losing the message.
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'file', 'post_share', 'story_reply', 'profile_share'));
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS shared_post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS shared_story_id UUID REFERENCES public.stories(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS shared_profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS messages_shared_post_idx ON public.messages (shared_post_id) WHERE shared_post_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS messages_shared_story_idx ON public.messages (shared_story_id) WHERE shared_story_id IS NOT NULL;
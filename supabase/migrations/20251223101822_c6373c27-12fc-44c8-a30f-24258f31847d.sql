@@ -0,0 +1,21 @@
+-- Attachments in direct messages. Files live in a private bucket under
+-- <conversation_id>/<auth uid>/..., and are only readable by participants of
+-- that conversation through signed URLs. messages.file_url keeps the storage
+-- path rather than a public URL.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-media', 'chat-media', false, 26214400)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+CREATE POLICY "Participants can view chat media" ON storage.objects FOR SELECT USING (bucket_id = 'chat-media' AND EXISTS (SELECT 1 FROM public.conversation_participants cp WHERE cp.conversation_id::text = (storage.foldername(name))[1] AND cp.profile_id = public.get_my_profile_id()));
+CREATE POLICY "Participants can upload chat media" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'chat-media' AND auth.uid()::text = (storage.foldername(name))[2] AND EXISTS (SELECT 1 FROM public.conversation_participants cp WHERE cp.conversation_id::text = (storage.foldername(name))[1] AND cp.profile_id = public.get_my_profile_id()));
+CREATE POLICY "Users can delete own chat media" ON storage.objects FOR DELETE USING (bucket_id = 'chat-media' AND auth.uid()::text = (storage.foldername(name))[2]);
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'video', 'file', 'post_share', 'story_reply', 'profile_share'));
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS file_size BIGINT,
+ADD COLUMN IF NOT EXISTS file_mime_type TEXT;
@@ -0,0 +1,12 @@
+-- Voice messages. The recording goes to chat-media like other attachments;
+-- duration and a downsampled waveform (0..1 levels) are kept on the message so
+-- the bubble can render without downloading the audio first.
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'video', 'file', 'audio', 'post_share', 'story_reply', 'profile_share'));
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS media_duration NUMERIC,
+ADD COLUMN IF NOT EXISTS waveform JSONB;
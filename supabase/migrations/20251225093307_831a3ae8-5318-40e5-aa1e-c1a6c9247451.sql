@@ -0,0 +1,75 @@
+-- Activity status. Live online/away state comes from Realtime presence; these
+-- functions cover the "Active 5m ago" fallback and enforce
+-- user_settings.show_active_status. Hiding your status is reciprocal: you
+-- don't see anyone else's either.
+CREATE OR REPLACE FUNCTION public.can_see_activity_status(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM user_settings s
+    WHERE s.profile_id IN (_profile_id, get_my_profile_id())
+      AND s.show_active_status = false
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_activity_status(_profile_ids UUID[])
+RETURNS TABLE (
+  profile_id UUID,
+  last_seen TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.last_seen
+  FROM profiles p
+  WHERE p.id = ANY(_profile_ids)
+    AND can_see_activity_status(p.id)
+$$;
+
+-- Replaces the client's once-a-minute UPDATE; called when the app connects and
+-- when it goes to the background. Skipped while the status is hidden so the
+-- column doesn't leak activity.
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE profiles
+  SET last_seen = now()
+  WHERE id = get_my_profile_id()
+    AND NOT EXISTS (
+      SELECT 1 FROM user_settings s
+      WHERE s.profile_id = profiles.id AND s.show_active_status = false
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_profiles(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE,
+  is_verified BOOLEAN,
+  verified_type TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.username, p.display_name, p.avatar_url,
+    CASE WHEN can_see_activity_status(p.id) THEN p.last_seen END,
+    p.is_verified, p.verified_type
+  FROM profiles p
+  WHERE _query <% p.username OR _query <% p.display_name
+  ORDER BY
+    (lower(p.username) = lower(_query)) DESC,
+    GREATEST(word_similarity(_query, p.username), word_similarity(_query, p.display_name)) DESC,
+    p.username
+  LIMIT LEAST(_limit, 50)
+$$;
@@ -0,0 +1,49 @@
+-- Per-participant read state. conversation_participants.last_read_at replaces
+-- messages.is_read, which can't describe more than two people. Other
+-- participants' read times are only exposed through get_conversation_read_state,
+-- and only when both sides have show_read_receipts on.
+
+-- Carry over what is_read already recorded
+UPDATE public.conversation_participants cp
+SET last_read_at = r.read_until
+FROM (
+  SELECT cp2.id, max(m.created_at) AS read_until
+  FROM public.conversation_participants cp2
+  JOIN public.messages m ON m.conversation_id = cp2.conversation_id
+  WHERE m.sender_id <> cp2.profile_id AND m.is_read = true
+  GROUP BY cp2.id
+) r
+WHERE cp.id = r.id AND cp.last_read_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS messages_conversation_created_idx ON public.messages (conversation_id, created_at DESC);
+
+-- Any participant could previously rewrite any message in the conversation
+DROP POLICY IF EXISTS "Users can update messages in their conversations" ON public.messages;
+CREATE POLICY "Senders can update own messages" ON public.messages FOR UPDATE USING (sender_id = get_my_profile_id()) WITH CHECK (sender_id = get_my_profile_id());
+
+CREATE OR REPLACE FUNCTION public.get_conversation_read_state(_conversation_id UUID)
+RETURNS TABLE (
+  profile_id UUID,
+  username TEXT,
+  last_read_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT cp.profile_id, p.username, cp.last_read_at
+  FROM conversation_participants cp
+  JOIN profiles p ON p.id = cp.profile_id
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.profile_id <> get_my_profile_id()
+    AND cp.last_read_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants me
+      WHERE me.conversation_id = _conversation_id AND me.profile_id = get_my_profile_id()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_settings s
+      WHERE s.profile_id IN (cp.profile_id, get_my_profile_id())
+        AND s.show_read_receipts = false
+    )
+$$;
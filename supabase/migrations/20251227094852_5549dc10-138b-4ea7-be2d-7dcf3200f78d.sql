@@ -0,0 +1,285 @@
+-- Group conversations: a name, photo and admin/member roles on top of the
+-- existing participants table. Membership changes go through the functions
+-- below, which also write the "alice added bob" system messages; clients can't
+-- insert system messages themselves.
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS is_group BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS name TEXT,
+ADD COLUMN IF NOT EXISTS avatar_url TEXT,
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member'));
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'video', 'file', 'audio', 'post_share', 'story_reply', 'profile_share', 'system'));
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id AND profile_id = get_my_profile_id()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id AND profile_id = get_my_profile_id() AND role = 'admin'
+  )
+$$;
+
+-- STABLE on purpose: it sees the table as of the start of the statement, so a
+-- single insert can add both people to a brand new 1:1 conversation
+CREATE OR REPLACE FUNCTION public.conversation_has_participants(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM conversation_participants WHERE conversation_id = _conversation_id)
+$$;
+
+-- Participants can see everyone in their conversations, not just their own row
+DROP POLICY IF EXISTS "Users can view conversation participants" ON public.conversation_participants;
+CREATE POLICY "Users can view conversation participants" ON public.conversation_participants FOR SELECT USING (is_conversation_participant(conversation_id));
+
+-- Anyone could previously add anyone to any conversation
+DROP POLICY IF EXISTS "Users can add participants" ON public.conversation_participants;
+CREATE POLICY "Users can start conversations" ON public.conversation_participants FOR INSERT WITH CHECK (NOT conversation_has_participants(conversation_id));
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND message_type <> 'system' AND is_conversation_participant(conversation_id));
+
+-- conversations has no UPDATE policy, so the client-side updated_at bump never
+-- applied; keep the inbox order from here instead
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversations SET updated_at = NEW.created_at WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_conversation_on_message ON public.messages;
+CREATE TRIGGER touch_conversation_on_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_conversation();
+
+CREATE OR REPLACE FUNCTION public.add_system_message(_conversation_id UUID, _content TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO messages (conversation_id, sender_id, content, message_type)
+  VALUES (_conversation_id, get_my_profile_id(), _content, 'system')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_system_message(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(_name TEXT, _member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _me UUID := get_my_profile_id();
+  _conversation_id UUID;
+  _my_username TEXT;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF coalesce(array_length(_member_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other people';
+  END IF;
+  IF array_length(_member_ids, 1) > 31 THEN
+    RAISE EXCEPTION 'Groups are limited to 32 people';
+  END IF;
+
+  INSERT INTO conversations (is_group, name, created_by)
+  VALUES (true, nullif(trim(_name), ''), _me)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, profile_id, role)
+  VALUES (_conversation_id, _me, 'admin');
+
+  INSERT INTO conversation_participants (conversation_id, profile_id, role)
+  SELECT _conversation_id, p.id, 'member'
+  FROM profiles p
+  WHERE p.id = ANY(_member_ids) AND p.id <> _me
+  ON CONFLICT (conversation_id, profile_id) DO NOTHING;
+
+  SELECT username INTO _my_username FROM profiles WHERE id = _me;
+  PERFORM add_system_message(_conversation_id, _my_username || ' created the group');
+
+  RETURN _conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(_conversation_id UUID, _member_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_username TEXT;
+  _added TEXT[];
+BEGIN
+  IF NOT is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Only group admins can add people';
+  END IF;
+  IF (SELECT count(*) FROM conversation_participants WHERE conversation_id = _conversation_id)
+     + coalesce(array_length(_member_ids, 1), 0) > 32 THEN
+    RAISE EXCEPTION 'Groups are limited to 32 people';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO conversation_participants (conversation_id, profile_id, role)
+    SELECT _conversation_id, p.id, 'member'
+    FROM profiles p
+    WHERE p.id = ANY(_member_ids)
+    ON CONFLICT (conversation_id, profile_id) DO NOTHING
+    RETURNING profile_id
+  )
+  SELECT array_agg(p.username ORDER BY p.username) INTO _added
+  FROM inserted i JOIN profiles p ON p.id = i.profile_id;
+
+  IF _added IS NOT NULL THEN
+    SELECT username INTO _my_username FROM profiles WHERE id = get_my_profile_id();
+    PERFORM add_system_message(_conversation_id, _my_username || ' added ' || array_to_string(_added, ', '));
+  END IF;
+END;
+$$;
+
+-- Removing yourself is leaving. If the last admin leaves, the longest-standing
+-- member takes over.
+CREATE OR REPLACE FUNCTION public.remove_group_member(_conversation_id UUID, _profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _me UUID := get_my_profile_id();
+  _my_username TEXT;
+  _removed_username TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM conversations WHERE id = _conversation_id AND is_group) THEN
+    RAISE EXCEPTION 'Not a group conversation';
+  END IF;
+  IF _profile_id <> _me AND NOT is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Only group admins can remove people';
+  END IF;
+
+  SELECT username INTO _my_username FROM profiles WHERE id = _me;
+  SELECT username INTO _removed_username FROM profiles WHERE id = _profile_id;
+
+  IF _profile_id = _me THEN
+    PERFORM add_system_message(_conversation_id, _my_username || ' left the group');
+  ELSE
+    PERFORM add_system_message(_conversation_id, _my_username || ' removed ' || _removed_username);
+  END IF;
+
+  DELETE FROM conversation_participants
+  WHERE conversation_id = _conversation_id AND profile_id = _profile_id;
+
+  IF NOT EXISTS (SELECT 1 FROM conversation_participants WHERE conversation_id = _conversation_id AND role = 'admin') THEN
+    UPDATE conversation_participants SET role = 'admin'
+    WHERE id = (
+      SELECT id FROM conversation_participants
+      WHERE conversation_id = _conversation_id
+      ORDER BY created_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_group_role(_conversation_id UUID, _profile_id UUID, _role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_username TEXT;
+  _target_username TEXT;
+BEGIN
+  IF NOT is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Only group admins can change roles';
+  END IF;
+  IF _role = 'member' AND NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = _conversation_id AND role = 'admin' AND profile_id <> _profile_id
+  ) THEN
+    RAISE EXCEPTION 'A group needs at least one admin';
+  END IF;
+
+  UPDATE conversation_participants SET role = _role
+  WHERE conversation_id = _conversation_id AND profile_id = _profile_id AND role <> _role;
+
+  IF FOUND THEN
+    SELECT username INTO _my_username FROM profiles WHERE id = get_my_profile_id();
+    SELECT username INTO _target_username FROM profiles WHERE id = _profile_id;
+    PERFORM add_system_message(
+      _conversation_id,
+      CASE WHEN _role = 'admin'
+        THEN _my_username || ' made ' || _target_username || ' an admin'
+        ELSE _my_username || ' removed ' || _target_username || ' as an admin'
+      END
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_group_details(_conversation_id UUID, _name TEXT, _avatar_url TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_username TEXT;
+  _old conversations%ROWTYPE;
+BEGIN
+  IF NOT is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Only group admins can edit the group';
+  END IF;
+
+  SELECT * INTO _old FROM conversations WHERE id = _conversation_id AND is_group;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a group conversation';
+  END IF;
+
+  UPDATE conversations
+  SET name = nullif(trim(_name), ''), avatar_url = _avatar_url
+  WHERE id = _conversation_id;
+
+  SELECT username INTO _my_username FROM profiles WHERE id = get_my_profile_id();
+  IF nullif(trim(_name), '') IS DISTINCT FROM _old.name THEN
+    PERFORM add_system_message(
+      _conversation_id,
+      CASE WHEN nullif(trim(_name), '') IS NULL
+        THEN _my_username || ' removed the group name'
+        ELSE _my_username || ' named the group ' || trim(_name)
+      END
+    );
+  END IF;
+  IF _avatar_url IS DISTINCT FROM _old.avatar_url THEN
+    PERFORM add_system_message(_conversation_id, _my_username || ' changed the group photo');
+  END IF;
+END;
+$$;
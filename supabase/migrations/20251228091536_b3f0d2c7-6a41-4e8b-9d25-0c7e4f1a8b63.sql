@@ -0,0 +1,104 @@
+-- Reactions, replies, edits and unsend for chat messages. Edits are limited to
+-- text messages in their first 15 minutes; unsending deletes the row for
+-- everyone, which also clears its reactions and the quote on any replies.
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS messages_reply_to_idx ON public.messages (reply_to_id);
+
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(message_id, profile_id)
+);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.can_access_message(_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM messages m
+    WHERE m.id = _message_id AND is_conversation_participant(m.conversation_id)
+  )
+$$;
+
+CREATE POLICY "Participants can view reactions" ON public.message_reactions FOR SELECT USING (can_access_message(message_id));
+CREATE POLICY "Participants can react" ON public.message_reactions FOR INSERT WITH CHECK (profile_id = get_my_profile_id() AND can_access_message(message_id));
+CREATE POLICY "Users can change own reactions" ON public.message_reactions FOR UPDATE USING (profile_id = get_my_profile_id()) WITH CHECK (profile_id = get_my_profile_id());
+CREATE POLICY "Users can remove own reactions" ON public.message_reactions FOR DELETE USING (profile_id = get_my_profile_id());
+
+-- There was no DELETE policy on messages at all
+CREATE POLICY "Senders can unsend own messages" ON public.messages FOR DELETE USING (sender_id = get_my_profile_id() AND message_type <> 'system');
+
+-- Replies must quote a message from the same conversation
+CREATE OR REPLACE FUNCTION public.validate_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages WHERE id = NEW.reply_to_id AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must be in the same conversation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_message_reply_on_insert ON public.messages;
+CREATE TRIGGER validate_message_reply_on_insert
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.validate_message_reply();
+
+-- The UPDATE policy only checks the sender, so pin everything except the text.
+-- reply_to_id may still go to NULL when the quoted message is unsent.
+CREATE OR REPLACE FUNCTION public.guard_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.message_type IS DISTINCT FROM OLD.message_type
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.file_url IS DISTINCT FROM OLD.file_url
+    OR (NEW.reply_to_id IS NOT NULL AND NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id) THEN
+    RAISE EXCEPTION 'Only the text of a message can be edited';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.message_type <> 'text' THEN
+      RAISE EXCEPTION 'Only text messages can be edited';
+    END IF;
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+    END IF;
+    IF NULLIF(btrim(NEW.content), '') IS NULL THEN
+      RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_message_edit_on_update ON public.messages;
+CREATE TRIGGER guard_message_edit_on_update
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_message_edit();
+
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
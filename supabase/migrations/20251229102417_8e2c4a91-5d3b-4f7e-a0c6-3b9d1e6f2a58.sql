@@ -0,0 +1,82 @@
+-- Follow requests for private accounts. Following a private account now has
+-- to go through a request the owner approves; approving creates the follow
+-- and notifies the requester. Going public approves everything pending.
+CREATE TABLE IF NOT EXISTS public.follow_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS follow_requests_target_created_idx ON public.follow_requests (target_id, created_at DESC);
+
+ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_private_profile(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT is_private FROM profiles WHERE id = _profile_id), false)
+$$;
+
+CREATE POLICY "Users can view own follow requests" ON public.follow_requests FOR SELECT USING (requester_id = get_my_profile_id() OR target_id = get_my_profile_id());
+CREATE POLICY "Users can request to follow private accounts" ON public.follow_requests FOR INSERT WITH CHECK (requester_id = get_my_profile_id() AND is_private_profile(target_id) AND NOT EXISTS (SELECT 1 FROM public.follows WHERE follower_id = requester_id AND following_id = target_id));
+-- Requesters cancel, owners decline
+CREATE POLICY "Users can remove own follow requests" ON public.follow_requests FOR DELETE USING (requester_id = get_my_profile_id() OR target_id = get_my_profile_id());
+
+-- Anyone could previously follow a private account directly
+DROP POLICY IF EXISTS "Users can follow others" ON public.follows;
+CREATE POLICY "Users can follow others" ON public.follows FOR INSERT TO authenticated WITH CHECK (follower_id = get_my_profile_id() AND NOT is_private_profile(following_id));
+
+CREATE OR REPLACE FUNCTION public.approve_follow_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _request follow_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO _request FROM follow_requests WHERE id = _request_id AND target_id = get_my_profile_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow request not found';
+  END IF;
+
+  INSERT INTO follows (follower_id, following_id)
+  VALUES (_request.requester_id, _request.target_id)
+  ON CONFLICT (follower_id, following_id) DO NOTHING;
+
+  INSERT INTO notifications (profile_id, type, actor_id)
+  VALUES (_request.requester_id, 'follow_accept', _request.target_id);
+
+  DELETE FROM follow_requests WHERE id = _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_pending_follow_requests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.is_private, false) AND NOT COALESCE(NEW.is_private, false) THEN
+    INSERT INTO follows (follower_id, following_id)
+    SELECT requester_id, target_id FROM follow_requests WHERE target_id = NEW.id
+    ON CONFLICT (follower_id, following_id) DO NOTHING;
+
+    INSERT INTO notifications (profile_id, type, actor_id)
+    SELECT requester_id, 'follow_accept', target_id FROM follow_requests WHERE target_id = NEW.id;
+
+    DELETE FROM follow_requests WHERE target_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS approve_follow_requests_on_public ON public.profiles;
+CREATE TRIGGER approve_follow_requests_on_public
+  AFTER UPDATE OF is_private ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.approve_pending_follow_requests();
@@ -0,0 +1,505 @@
+-- Blocking and muting. A block hides both accounts from each other
+-- everywhere (profiles, content, activity, DMs) and ends any follow between
+-- them; a mute only keeps someone's posts, stories and notes out of the feed.
+CREATE TABLE IF NOT EXISTS public.blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS blocks_blocked_idx ON public.blocks (blocked_id);
+
+CREATE TABLE IF NOT EXISTS public.mutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  muter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  muted_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(muter_id, muted_id),
+  CHECK (muter_id <> muted_id)
+);
+
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mutes ENABLE ROW LEVEL SECURITY;
+
+-- Only the blocker ever sees a block, so the blocked account can't tell
+CREATE POLICY "Users can view own blocks" ON public.blocks FOR SELECT USING (blocker_id = get_my_profile_id());
+CREATE POLICY "Users can block others" ON public.blocks FOR INSERT WITH CHECK (blocker_id = get_my_profile_id());
+CREATE POLICY "Users can unblock" ON public.blocks FOR DELETE USING (blocker_id = get_my_profile_id());
+
+CREATE POLICY "Users can view own mutes" ON public.mutes FOR SELECT USING (muter_id = get_my_profile_id());
+CREATE POLICY "Users can mute others" ON public.mutes FOR INSERT WITH CHECK (muter_id = get_my_profile_id());
+CREATE POLICY "Users can unmute" ON public.mutes FOR DELETE USING (muter_id = get_my_profile_id());
+
+CREATE OR REPLACE FUNCTION public.has_block_with(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = get_my_profile_id() AND blocked_id = _profile_id)
+       OR (blocker_id = _profile_id AND blocked_id = get_my_profile_id())
+  )
+$$;
+
+-- A 1:1 conversation with someone on the other side of a block. Groups stay
+-- usable; the blocked member's messages are filtered out instead.
+CREATE OR REPLACE FUNCTION public.is_blocked_conversation(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations c
+    JOIN conversation_participants cp ON cp.conversation_id = c.id
+    WHERE c.id = _conversation_id
+      AND NOT c.is_group
+      AND cp.profile_id <> get_my_profile_id()
+      AND has_block_with(cp.profile_id)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_follows_on_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  DELETE FROM follow_requests
+  WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+     OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+
+  DELETE FROM close_friends
+  WHERE (user_id = NEW.blocker_id AND friend_id = NEW.blocked_id)
+     OR (user_id = NEW.blocked_id AND friend_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS remove_follows_on_block ON public.blocks;
+CREATE TRIGGER remove_follows_on_block
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW EXECUTE FUNCTION public.remove_follows_on_block();
+
+-- Blocking used to be a message request status only
+INSERT INTO public.blocks (blocker_id, blocked_id)
+SELECT receiver_id, sender_id FROM public.message_requests WHERE status = 'blocked'
+ON CONFLICT (blocker_id, blocked_id) DO NOTHING;
+
+-- Admins still see both sides of a block for moderation
+DROP POLICY IF EXISTS "Profiles are viewable by authenticated users" ON public.profiles;
+CREATE POLICY "Profiles are viewable by authenticated users" ON public.profiles FOR SELECT TO authenticated USING (NOT has_block_with(id) OR has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Posts viewable based on privacy" ON public.posts;
+CREATE POLICY "Posts viewable based on privacy"
+ON public.posts
+FOR SELECT
+USING (
+  profile_id = get_my_profile_id() OR
+  (
+    NOT has_block_with(profile_id)
+    AND
+    (NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = posts.profile_id
+      AND profiles.is_private = true
+    ) OR EXISTS (
+      SELECT 1 FROM follows
+      WHERE follows.follower_id = get_my_profile_id()
+      AND follows.following_id = posts.profile_id
+    ))
+  )
+);
+
+DROP POLICY IF EXISTS "Stories viewable based on privacy and follows" ON public.stories;
+CREATE POLICY "Stories viewable based on privacy and follows"
+ON public.stories
+FOR SELECT
+USING (
+  profile_id = get_my_profile_id() OR
+  (
+    NOT has_block_with(profile_id)
+    AND
+    (NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = stories.profile_id
+      AND profiles.is_private = true
+    ) OR EXISTS (
+      SELECT 1 FROM follows
+      WHERE follows.follower_id = get_my_profile_id()
+      AND follows.following_id = stories.profile_id
+    ))
+    AND
+    (NOT is_close_friends_only OR EXISTS (
+      SELECT 1 FROM close_friends
+      WHERE close_friends.user_id = stories.profile_id
+      AND close_friends.friend_id = get_my_profile_id()
+    ))
+  )
+);
+
+-- Follows are removed on block, but this keeps it airtight if one slips in
+DROP POLICY IF EXISTS "Notes viewable based on privacy and follows" ON public.notes;
+CREATE POLICY "Notes viewable based on privacy and follows"
+ON public.notes
+FOR SELECT
+USING (
+  profile_id = get_my_profile_id() OR
+  (
+    NOT has_block_with(profile_id)
+    AND EXISTS (
+      SELECT 1 FROM follows
+      WHERE follows.follower_id = get_my_profile_id()
+      AND follows.following_id = notes.profile_id
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Post comments are viewable by everyone" ON public.post_comments;
+CREATE POLICY "Post comments are viewable by everyone" ON public.post_comments FOR SELECT USING (NOT has_block_with(profile_id));
+DROP POLICY IF EXISTS "Post likes are viewable by everyone" ON public.post_likes;
+CREATE POLICY "Post likes are viewable by everyone" ON public.post_likes FOR SELECT USING (NOT has_block_with(profile_id));
+DROP POLICY IF EXISTS "Comment likes are viewable by everyone" ON public.comment_likes;
+CREATE POLICY "Comment likes are viewable by everyone" ON public.comment_likes FOR SELECT USING (NOT has_block_with(profile_id));
+DROP POLICY IF EXISTS "Note likes are viewable" ON public.note_likes;
+CREATE POLICY "Note likes are viewable" ON public.note_likes FOR SELECT USING (NOT has_block_with(profile_id));
+
+-- Keeps a blocked account out of follower and following lists
+DROP POLICY IF EXISTS "Follows are viewable by authenticated users" ON public.follows;
+CREATE POLICY "Follows are viewable by authenticated users" ON public.follows FOR SELECT TO authenticated USING (NOT has_block_with(follower_id) AND NOT has_block_with(following_id));
+
+DROP POLICY IF EXISTS "Users can follow others" ON public.follows;
+CREATE POLICY "Users can follow others" ON public.follows FOR INSERT TO authenticated WITH CHECK (follower_id = get_my_profile_id() AND NOT is_private_profile(following_id) AND NOT has_block_with(following_id));
+
+DROP POLICY IF EXISTS "Users can request to follow private accounts" ON public.follow_requests;
+CREATE POLICY "Users can request to follow private accounts" ON public.follow_requests FOR INSERT WITH CHECK (requester_id = get_my_profile_id() AND is_private_profile(target_id) AND NOT has_block_with(target_id) AND NOT EXISTS (SELECT 1 FROM public.follows WHERE follower_id = requester_id AND following_id = target_id));
+
+DROP POLICY IF EXISTS "Users can view own conversations" ON public.conversations;
+CREATE POLICY "Users can view own conversations"
+ON public.conversations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_participants.conversation_id = conversations.id
+    AND conversation_participants.profile_id = get_my_profile_id()
+  )
+  AND NOT is_blocked_conversation(id)
+);
+
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON public.messages;
+CREATE POLICY "Users can view messages in their conversations" ON public.messages FOR SELECT TO authenticated USING (is_conversation_participant(conversation_id) AND NOT has_block_with(sender_id));
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND message_type <> 'system' AND is_conversation_participant(conversation_id) AND NOT is_blocked_conversation(conversation_id));
+
+DROP POLICY IF EXISTS "Users can view own message requests" ON public.message_requests;
+CREATE POLICY "Users can view own message requests" ON public.message_requests FOR SELECT USING ((sender_id = get_my_profile_id() OR receiver_id = get_my_profile_id()) AND NOT has_block_with(sender_id) AND NOT has_block_with(receiver_id));
+DROP POLICY IF EXISTS "Users can send message requests" ON public.message_requests;
+CREATE POLICY "Users can send message requests" ON public.message_requests FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND NOT has_block_with(receiver_id));
+
+CREATE OR REPLACE FUNCTION public.can_see_activity_status(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT NOT has_block_with(_profile_id) AND NOT EXISTS (
+    SELECT 1 FROM user_settings s
+    WHERE s.profile_id IN (_profile_id, get_my_profile_id())
+      AND s.show_active_status = false
+  )
+$$;
+
+-- Runs as definer to show the owner of a post the caller can't see, which
+-- must not reveal someone on the other side of a block
+CREATE OR REPLACE FUNCTION public.get_post_owner(_post_id UUID)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  is_private BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT pr.id, pr.username, pr.display_name, pr.avatar_url, COALESCE(pr.is_private, false)
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.id = _post_id
+    AND NOT has_block_with(pr.id)
+$$;
+
+-- Blocked accounts are hidden by the profiles policy, including from the
+-- blocker, so the settings list needs its own lookup
+CREATE OR REPLACE FUNCTION public.get_blocked_accounts()
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  blocked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT pr.id, pr.username, pr.display_name, pr.avatar_url, b.created_at
+  FROM blocks b
+  JOIN profiles pr ON pr.id = b.blocked_id
+  WHERE b.blocker_id = get_my_profile_id()
+  ORDER BY b.created_at DESC
+$$;
+
+-- Muted accounts drop out of the home feed, suggestions and explore
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  _profile_id UUID DEFAULT NULL,
+  _before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _before_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE
+    CASE
+      WHEN _profile_id IS NULL THEN
+        (
+          p.profile_id = get_my_profile_id()
+          OR p.profile_id IN (SELECT following_id FROM follows WHERE follower_id = get_my_profile_id())
+        )
+        AND p.profile_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = get_my_profile_id())
+      ELSE p.profile_id = _profile_id
+    END
+    AND (_before_created_at IS NULL OR (p.created_at, p.id) < (_before_created_at, _before_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_feed_candidates(
+  _since TIMESTAMP WITH TIME ZONE,
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  is_following BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved,
+    (
+      p.profile_id = get_my_profile_id()
+      OR EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+    ) AS is_following
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.created_at >= _since
+    AND p.profile_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = get_my_profile_id())
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(_limit, 500)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_explore_posts(
+  _offset INTEGER DEFAULT 0,
+  _limit INTEGER DEFAULT 24,
+  _window_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  score BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT
+      p.id,
+      p.profile_id,
+      p.caption,
+      p.media_url,
+      p.media_type,
+      p.created_at,
+      jsonb_build_object(
+        'id', pr.id,
+        'username', pr.username,
+        'display_name', pr.display_name,
+        'avatar_url', pr.avatar_url,
+        'is_verified', pr.is_verified,
+        'verified_type', pr.verified_type
+      ) AS profile,
+      COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'media_url', m.media_url,
+            'media_type', m.media_type,
+            'alt_text', m.alt_text,
+            'placeholder', m.placeholder,
+            'width', m.width,
+            'height', m.height
+          )
+          ORDER BY m.position
+        )
+        FROM post_media m
+        WHERE m.post_id = p.id
+      ), '[]'::jsonb) AS media,
+      (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+      (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+      EXISTS (
+        SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+      ) AS is_liked,
+      EXISTS (
+        SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+      ) AS is_saved,
+      (
+        (SELECT count(*) FROM post_likes l
+          WHERE l.post_id = p.id AND l.created_at >= now() - make_interval(days => _window_days))
+        + 2 * (SELECT count(*) FROM post_comments c
+          WHERE c.post_id = p.id AND c.created_at >= now() - make_interval(days => _window_days))
+      ) AS score
+    FROM posts p
+    JOIN profiles pr ON pr.id = p.profile_id
+    WHERE NOT COALESCE(pr.is_private, false)
+      AND p.profile_id <> get_my_profile_id()
+      AND NOT EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+      -- Blocks are already filtered out by the posts policy
+      AND p.profile_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = get_my_profile_id())
+  ) t
+  ORDER BY t.score DESC, t.created_at DESC, t.id
+  OFFSET GREATEST(_offset, 0)
+  LIMIT LEAST(_limit, 50)
+$$;
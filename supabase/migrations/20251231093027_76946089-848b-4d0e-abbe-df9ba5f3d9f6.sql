@@ -0,0 +1,63 @@
+-- Story replies are now direct messages (story_reply, pointing at the story).
+-- story_comments was only readable by the story owner and never shown
+-- anywhere, so move what's there into the 1:1 threads and drop it.
+ALTER TABLE public.conversations DISABLE TRIGGER update_conversations_updated_at;
+ALTER TABLE public.messages DISABLE TRIGGER touch_conversation_on_message;
+
+DO $$
+DECLARE
+  _pair RECORD;
+  _conversation_id UUID;
+BEGIN
+  FOR _pair IN
+    SELECT DISTINCT sc.profile_id AS sender_id, s.profile_id AS owner_id
+    FROM story_comments sc
+    JOIN stories s ON s.id = sc.story_id
+    WHERE sc.profile_id <> s.profile_id
+      AND NOT EXISTS (
+        SELECT 1 FROM blocks b
+        WHERE (b.blocker_id = sc.profile_id AND b.blocked_id = s.profile_id)
+           OR (b.blocker_id = s.profile_id AND b.blocked_id = sc.profile_id)
+      )
+  LOOP
+    SELECT c.id INTO _conversation_id
+    FROM conversations c
+    JOIN conversation_participants a ON a.conversation_id = c.id AND a.profile_id = _pair.sender_id
+    JOIN conversation_participants o ON o.conversation_id = c.id AND o.profile_id = _pair.owner_id
+    WHERE NOT c.is_group
+    LIMIT 1;
+
+    -- Same rules as findOrCreateConversation and needs_message_request
+    IF _conversation_id IS NULL THEN
+      INSERT INTO conversations DEFAULT VALUES RETURNING id INTO _conversation_id;
+
+      INSERT INTO conversation_participants (conversation_id, profile_id)
+      VALUES (_conversation_id, _pair.sender_id), (_conversation_id, _pair.owner_id);
+
+      IF COALESCE((SELECT require_message_requests FROM user_settings WHERE profile_id = _pair.owner_id), true)
+        AND NOT EXISTS (SELECT 1 FROM follows WHERE follower_id = _pair.owner_id AND following_id = _pair.sender_id)
+      THEN
+        INSERT INTO message_requests (sender_id, receiver_id, conversation_id)
+        VALUES (_pair.sender_id, _pair.owner_id, _conversation_id)
+        ON CONFLICT (sender_id, receiver_id) DO NOTHING;
+      END IF;
+    END IF;
+
+    INSERT INTO messages (conversation_id, sender_id, content, message_type, shared_story_id, created_at)
+    SELECT _conversation_id, sc.profile_id, sc.content, 'story_reply', sc.story_id, COALESCE(sc.created_at, now())
+    FROM story_comments sc
+    JOIN stories s ON s.id = sc.story_id
+    WHERE sc.profile_id = _pair.sender_id AND s.profile_id = _pair.owner_id;
+
+    -- Keep the inbox ordered by the real last message, not the migration time
+    UPDATE conversations
+    SET updated_at = (SELECT MAX(created_at) FROM messages WHERE conversation_id = _conversation_id)
+    WHERE id = _conversation_id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.messages ENABLE TRIGGER touch_conversation_on_message;
+ALTER TABLE public.conversations ENABLE TRIGGER update_conversations_updated_at;
+
+DROP TABLE IF EXISTS public.story_comments;
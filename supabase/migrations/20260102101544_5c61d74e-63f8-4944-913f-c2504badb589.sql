@@ -0,0 +1,36 @@
+-- Story navigation events for the owner's insights: tapping forward or back
+-- and leaving the viewer. Only the story owner can read them.
+CREATE TABLE IF NOT EXISTS public.story_interactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  interaction_type TEXT NOT NULL CHECK (interaction_type IN ('forward', 'back', 'exit')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS story_interactions_story_idx ON public.story_interactions (story_id, interaction_type);
+
+ALTER TABLE public.story_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Story owners can view interactions" ON public.story_interactions FOR SELECT USING (EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND profile_id = get_my_profile_id()));
+-- Owners watching their own story aren't counted
+CREATE POLICY "Viewers can record interactions" ON public.story_interactions FOR INSERT WITH CHECK (profile_id = get_my_profile_id() AND EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND profile_id <> get_my_profile_id()));
+
+-- Runs as the caller, so anyone but the owner gets zeros
+CREATE OR REPLACE FUNCTION public.get_story_interaction_counts(_story_id UUID)
+RETURNS TABLE (
+  forward_taps BIGINT,
+  back_taps BIGINT,
+  exits BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE interaction_type = 'forward'),
+    COUNT(*) FILTER (WHERE interaction_type = 'back'),
+    COUNT(*) FILTER (WHERE interaction_type = 'exit')
+  FROM story_interactions
+  WHERE story_id = _story_id
+$$;
@@ -0,0 +1,87 @@
+-- Story archive and highlights. Story rows are never deleted on expiry, so
+-- an expired story simply becomes part of its owner's archive: from now on
+-- only the owner can see it, unless it has been added to a highlight.
+-- Highlights point at story rows rather than copying media, so a highlight's
+-- media lives exactly as long as the story it came from; any cleanup of
+-- expired story media has to skip stories where is_highlighted_story is true.
+CREATE TABLE IF NOT EXISTS public.story_highlights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 30),
+  cover_story_id UUID REFERENCES public.stories(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.story_highlight_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  highlight_id UUID NOT NULL REFERENCES public.story_highlights(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(highlight_id, story_id)
+);
+
+CREATE INDEX IF NOT EXISTS story_highlights_profile_idx ON public.story_highlights (profile_id, created_at);
+CREATE INDEX IF NOT EXISTS story_highlight_items_story_idx ON public.story_highlight_items (story_id);
+
+ALTER TABLE public.story_highlights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_highlight_items ENABLE ROW LEVEL SECURITY;
+
+-- Definer so the stories policy can use it without recursing through the
+-- highlight policies, which look at stories themselves
+CREATE OR REPLACE FUNCTION public.is_highlighted_story(_story_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM story_highlight_items WHERE story_id = _story_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.owns_highlight(_highlight_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM story_highlights WHERE id = _highlight_id AND profile_id = get_my_profile_id())
+$$;
+
+-- Highlights follow the account's privacy; each item is additionally
+-- filtered by the stories policy, so close friends items stay hidden
+CREATE POLICY "Highlights viewable based on privacy" ON public.story_highlights FOR SELECT USING (profile_id = get_my_profile_id() OR (NOT has_block_with(profile_id) AND (NOT is_private_profile(profile_id) OR EXISTS (SELECT 1 FROM public.follows WHERE follower_id = get_my_profile_id() AND following_id = story_highlights.profile_id))));
+CREATE POLICY "Users can create own highlights" ON public.story_highlights FOR INSERT WITH CHECK (profile_id = get_my_profile_id() AND (cover_story_id IS NULL OR EXISTS (SELECT 1 FROM public.stories WHERE id = cover_story_id AND profile_id = get_my_profile_id())));
+CREATE POLICY "Users can update own highlights" ON public.story_highlights FOR UPDATE USING (profile_id = get_my_profile_id()) WITH CHECK (profile_id = get_my_profile_id() AND (cover_story_id IS NULL OR EXISTS (SELECT 1 FROM public.stories WHERE id = cover_story_id AND profile_id = get_my_profile_id())));
+CREATE POLICY "Users can delete own highlights" ON public.story_highlights FOR DELETE USING (profile_id = get_my_profile_id());
+
+CREATE POLICY "Highlight items viewable with their highlight" ON public.story_highlight_items FOR SELECT USING (EXISTS (SELECT 1 FROM public.story_highlights WHERE id = highlight_id));
+CREATE POLICY "Users can add own stories to own highlights" ON public.story_highlight_items FOR INSERT WITH CHECK (owns_highlight(highlight_id) AND EXISTS (SELECT 1 FROM public.stories WHERE id = story_id AND profile_id = get_my_profile_id()));
+CREATE POLICY "Users can remove items from own highlights" ON public.story_highlight_items FOR DELETE USING (owns_highlight(highlight_id));
+
+DROP POLICY IF EXISTS "Stories viewable based on privacy and follows" ON public.stories;
+CREATE POLICY "Stories viewable based on privacy and follows"
+ON public.stories
+FOR SELECT
+USING (
+  profile_id = get_my_profile_id() OR
+  (
+    NOT has_block_with(profile_id)
+    AND
+    (expires_at > now() OR is_highlighted_story(id))
+    AND
+    (NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = stories.profile_id
+      AND profiles.is_private = true
+    ) OR EXISTS (
+      SELECT 1 FROM follows
+      WHERE follows.follower_id = get_my_profile_id()
+      AND follows.following_id = stories.profile_id
+    ))
+    AND
+    (NOT is_close_friends_only OR EXISTS (
+      SELECT 1 FROM close_friends
+      WHERE close_friends.user_id = stories.profile_id
+      AND close_friends.friend_id = get_my_profile_id()
+    ))
+  )
+);
@@ -0,0 +1,109 @@
+-- Enforce message requests on the server instead of only in findOrCreateConversation.
+-- A one-to-one thread started through a request stays one-way until the
+-- receiver accepts it or replies, which counts as accepting. Without a request
+-- row, a thread is open once the other person has written in it themselves,
+-- or if no request would be needed to start it today.
+CREATE OR REPLACE FUNCTION public.can_message_in_conversation(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _me UUID := get_my_profile_id();
+  _other UUID;
+  _request RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM conversations WHERE id = _conversation_id AND is_group) THEN
+    RETURN true;
+  END IF;
+
+  SELECT sender_id, receiver_id, status INTO _request
+  FROM message_requests
+  WHERE conversation_id = _conversation_id;
+
+  IF FOUND THEN
+    RETURN _request.status <> 'declined' AND _me IN (_request.sender_id, _request.receiver_id);
+  END IF;
+
+  SELECT profile_id INTO _other
+  FROM conversation_participants
+  WHERE conversation_id = _conversation_id AND profile_id <> _me
+  LIMIT 1;
+
+  RETURN _other IS NULL
+    OR EXISTS (SELECT 1 FROM messages WHERE conversation_id = _conversation_id AND sender_id = _other)
+    OR NOT needs_message_request(_other);
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND message_type <> 'system' AND is_conversation_participant(conversation_id) AND NOT is_blocked_conversation(conversation_id) AND can_message_in_conversation(conversation_id));
+
+-- A reply from the receiver accepts the request, so the thread moves out of Requests
+CREATE OR REPLACE FUNCTION public.accept_request_on_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE message_requests
+  SET status = 'accepted'
+  WHERE conversation_id = NEW.conversation_id
+    AND receiver_id = NEW.sender_id
+    AND status = 'pending';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accept_request_on_reply ON public.messages;
+CREATE TRIGGER accept_request_on_reply
+AFTER INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.accept_request_on_reply();
+
+-- New requests always start out pending, on a conversation the sender is in
+DROP POLICY IF EXISTS "Users can send message requests" ON public.message_requests;
+CREATE POLICY "Users can send message requests" ON public.message_requests FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND status = 'pending' AND is_conversation_participant(conversation_id) AND NOT has_block_with(receiver_id));
+
+-- The receiver can only accept or block in place; declining goes through
+-- decline_message_request, and nothing else about a request can change
+REVOKE UPDATE ON public.message_requests FROM anon, authenticated;
+GRANT UPDATE (status) ON public.message_requests TO authenticated;
+
+DROP POLICY IF EXISTS "Receiver can update message request" ON public.message_requests;
+CREATE POLICY "Receiver can update message request" ON public.message_requests FOR UPDATE USING (receiver_id = get_my_profile_id()) WITH CHECK (status IN ('accepted', 'blocked'));
+
+-- Declining removes the thread for both people: the conversation goes, and
+-- its messages and the request with it. The sender is free to send a new
+-- request later, which lands in Requests again like any first message.
+CREATE OR REPLACE FUNCTION public.decline_message_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _conversation_id UUID;
+BEGIN
+  SELECT conversation_id INTO _conversation_id
+  FROM message_requests
+  WHERE id = _request_id
+    AND receiver_id = get_my_profile_id()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message request not found';
+  END IF;
+
+  IF _conversation_id IS NULL THEN
+    DELETE FROM message_requests WHERE id = _request_id;
+  ELSE
+    DELETE FROM conversations WHERE id = _conversation_id;
+  END IF;
+END;
+$$;
+
+-- Threads declined before this point were hidden from the receiver for good
+-- while the sender could keep writing into them; clear them the same way
+DELETE FROM public.conversations
+WHERE id IN (SELECT conversation_id FROM public.message_requests WHERE status = 'declined');
+DELETE FROM public.message_requests WHERE status = 'declined';
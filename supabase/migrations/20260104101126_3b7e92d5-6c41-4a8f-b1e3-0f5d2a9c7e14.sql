@@ -0,0 +1,28 @@
+-- Suspended accounts can still sign in and browse, but can't post, comment,
+-- share stories or send messages until the suspension runs out
+CREATE OR REPLACE FUNCTION public.is_suspended(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _profile_id
+      AND suspended_until > now()
+  )
+$$;
+
+DROP POLICY IF EXISTS "Users can create own posts" ON public.posts;
+CREATE POLICY "Users can create own posts" ON public.posts FOR INSERT WITH CHECK (profile_id = get_my_profile_id() AND NOT is_suspended(get_my_profile_id()));
+
+DROP POLICY IF EXISTS "Users can comment on posts" ON public.post_comments;
+CREATE POLICY "Users can comment on posts" ON public.post_comments FOR INSERT WITH CHECK (profile_id = get_my_profile_id() AND NOT is_suspended(get_my_profile_id()));
+
+DROP POLICY IF EXISTS "Users can create own stories" ON public.stories;
+CREATE POLICY "Users can create own stories"
+ON public.stories FOR INSERT TO authenticated
+WITH CHECK (profile_id = public.get_my_profile_id() AND NOT public.is_suspended(public.get_my_profile_id()));
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages FOR INSERT WITH CHECK (sender_id = get_my_profile_id() AND message_type <> 'system' AND NOT is_suspended(get_my_profile_id()) AND is_conversation_participant(conversation_id) AND NOT is_blocked_conversation(conversation_id) AND can_message_in_conversation(conversation_id));
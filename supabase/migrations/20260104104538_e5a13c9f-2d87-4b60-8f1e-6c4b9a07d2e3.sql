@@ -0,0 +1,111 @@
+-- For You candidates used to be the latest posts site-wide, so on a busy
+-- site they were mostly strangers' posts from the last hour and the people
+-- the viewer follows barely made it in. Fill two separate quotas instead:
+-- the newest posts from followed accounts (and the viewer's own), plus the
+-- most engaged recent posts from everyone else for discovery.
+DROP FUNCTION IF EXISTS public.get_feed_candidates(TIMESTAMP WITH TIME ZONE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_feed_candidates(
+  _since TIMESTAMP WITH TIME ZONE,
+  _following_limit INTEGER DEFAULT 150,
+  _discovery_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  is_following BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH eligible AS (
+    SELECT
+      p.id,
+      p.created_at,
+      (
+        p.profile_id = get_my_profile_id()
+        OR EXISTS (
+          SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+        )
+      ) AS is_following
+    FROM posts p
+    WHERE p.created_at >= _since
+      AND p.profile_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = get_my_profile_id())
+  ),
+  followed AS (
+    SELECT e.id FROM eligible e
+    WHERE e.is_following
+    ORDER BY e.created_at DESC
+    LIMIT LEAST(_following_limit, 400)
+  ),
+  discovery AS (
+    -- Comments weigh like commentValue in the client-side ranking
+    SELECT e.id FROM eligible e
+    WHERE NOT e.is_following
+    ORDER BY
+      (SELECT count(*) FROM post_likes l WHERE l.post_id = e.id)
+        + 3 * (SELECT count(*) FROM post_comments c WHERE c.post_id = e.id) DESC,
+      e.created_at DESC
+    LIMIT LEAST(_discovery_limit, 100)
+  )
+  SELECT
+    p.id,
+    p.profile_id,
+    p.caption,
+    p.media_url,
+    p.media_type,
+    p.created_at,
+    jsonb_build_object(
+      'id', pr.id,
+      'username', pr.username,
+      'display_name', pr.display_name,
+      'avatar_url', pr.avatar_url,
+      'is_verified', pr.is_verified,
+      'verified_type', pr.verified_type
+    ) AS profile,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'media_url', m.media_url,
+          'media_type', m.media_type,
+          'alt_text', m.alt_text,
+          'placeholder', m.placeholder,
+          'width', m.width,
+          'height', m.height
+        )
+        ORDER BY m.position
+      )
+      FROM post_media m
+      WHERE m.post_id = p.id
+    ), '[]'::jsonb) AS media,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    EXISTS (
+      SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+    ) AS is_liked,
+    EXISTS (
+      SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+    ) AS is_saved,
+    (
+      p.profile_id = get_my_profile_id()
+      OR EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+    ) AS is_following
+  FROM posts p
+  JOIN profiles pr ON pr.id = p.profile_id
+  WHERE p.id IN (SELECT id FROM followed UNION ALL SELECT id FROM discovery)
+  ORDER BY p.created_at DESC
+$$;
@@ -0,0 +1,25 @@
+-- The posts UPDATE policy lets the owner set pinned_comment_id to any comment
+-- id, including one from someone else's post. Only a top-level comment on
+-- the post itself can be pinned.
+CREATE OR REPLACE FUNCTION public.validate_pinned_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pinned_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM post_comments
+    WHERE id = NEW.pinned_comment_id
+      AND post_id = NEW.id
+      AND parent_comment_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only a top-level comment on this post can be pinned';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_posts_pinned_comment ON public.posts;
+CREATE TRIGGER validate_posts_pinned_comment
+  BEFORE INSERT OR UPDATE OF pinned_comment_id ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.validate_pinned_comment();
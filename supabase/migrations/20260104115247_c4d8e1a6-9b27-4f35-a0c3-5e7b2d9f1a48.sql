@@ -0,0 +1,90 @@
+-- Trigram matching (<%) needs at least three characters to produce anything,
+-- so one- and two-character searches came back empty. Short queries match
+-- by prefix instead, and short caption searches become prefix tsqueries.
+CREATE OR REPLACE FUNCTION public.search_profiles(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE,
+  is_verified BOOLEAN,
+  verified_type TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.username, p.display_name, p.avatar_url,
+    CASE WHEN can_see_activity_status(p.id) THEN p.last_seen END,
+    p.is_verified, p.verified_type
+  FROM profiles p
+  WHERE CASE
+    WHEN char_length(_query) < 3
+      THEN starts_with(lower(p.username), lower(_query)) OR starts_with(lower(p.display_name), lower(_query))
+    ELSE _query <% p.username OR _query <% p.display_name
+  END
+  ORDER BY
+    (lower(p.username) = lower(_query)) DESC,
+    GREATEST(word_similarity(_query, p.username), word_similarity(_query, p.display_name)) DESC,
+    p.username
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_hashtags(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  tag TEXT,
+  post_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT h.id, h.tag, h.post_count
+  FROM hashtags h
+  WHERE CASE
+    WHEN char_length(ltrim(_query, '#')) < 3 THEN starts_with(h.tag, lower(ltrim(_query, '#')))
+    ELSE lower(ltrim(_query, '#')) <% h.tag
+  END
+  ORDER BY
+    (h.tag = lower(ltrim(_query, '#'))) DESC,
+    word_similarity(lower(ltrim(_query, '#')), h.tag) DESC,
+    h.post_count DESC
+  LIMIT LEAST(_limit, 50)
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_posts(_query TEXT, _limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  id UUID,
+  media_url TEXT,
+  media_type TEXT,
+  media_count BIGINT,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN char_length(_query) < 3 THEN to_tsquery('simple', quote_literal(lower(_query)) || ':*')
+      ELSE websearch_to_tsquery('simple', _query)
+    END AS tsq
+  )
+  SELECT
+    p.id,
+    p.media_url,
+    p.media_type,
+    (SELECT count(*) FROM post_media m WHERE m.post_id = p.id) AS media_count,
+    (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+    (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+    p.created_at
+  FROM posts p, q
+  WHERE p.caption_tsv @@ q.tsq
+  ORDER BY ts_rank(p.caption_tsv, q.tsq) DESC, p.created_at DESC
+  LIMIT LEAST(_limit, 60)
+$$;
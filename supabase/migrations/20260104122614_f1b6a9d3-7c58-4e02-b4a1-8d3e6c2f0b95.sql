@@ -0,0 +1,89 @@
+-- get_explore_posts scored every post ever made on each page request. Its
+-- score only counts likes and comments from the last _window_days, so bound
+-- the candidates to posts created in that window before scoring them.
+CREATE OR REPLACE FUNCTION public.get_explore_posts(
+  _offset INTEGER DEFAULT 0,
+  _limit INTEGER DEFAULT 24,
+  _window_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  caption TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  profile JSONB,
+  media JSONB,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  is_liked BOOLEAN,
+  is_saved BOOLEAN,
+  score BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT
+      p.id,
+      p.profile_id,
+      p.caption,
+      p.media_url,
+      p.media_type,
+      p.created_at,
+      jsonb_build_object(
+        'id', pr.id,
+        'username', pr.username,
+        'display_name', pr.display_name,
+        'avatar_url', pr.avatar_url,
+        'is_verified', pr.is_verified,
+        'verified_type', pr.verified_type
+      ) AS profile,
+      COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', m.id,
+            'media_url', m.media_url,
+            'media_type', m.media_type,
+            'alt_text', m.alt_text,
+            'placeholder', m.placeholder,
+            'width', m.width,
+            'height', m.height
+          )
+          ORDER BY m.position
+        )
+        FROM post_media m
+        WHERE m.post_id = p.id
+      ), '[]'::jsonb) AS media,
+      (SELECT count(*) FROM post_likes l WHERE l.post_id = p.id) AS likes_count,
+      (SELECT count(*) FROM post_comments c WHERE c.post_id = p.id) AS comments_count,
+      EXISTS (
+        SELECT 1 FROM post_likes l WHERE l.post_id = p.id AND l.profile_id = get_my_profile_id()
+      ) AS is_liked,
+      EXISTS (
+        SELECT 1 FROM post_saves s WHERE s.post_id = p.id AND s.profile_id = get_my_profile_id()
+      ) AS is_saved,
+      (
+        (SELECT count(*) FROM post_likes l
+          WHERE l.post_id = p.id AND l.created_at >= now() - make_interval(days => _window_days))
+        + 2 * (SELECT count(*) FROM post_comments c
+          WHERE c.post_id = p.id AND c.created_at >= now() - make_interval(days => _window_days))
+      ) AS score
+    FROM posts p
+    JOIN profiles pr ON pr.id = p.profile_id
+    -- Keeps the scan on posts_created_at_idx instead of the whole table
+    WHERE p.created_at >= now() - make_interval(days => _window_days)
+      AND NOT COALESCE(pr.is_private, false)
+      AND p.profile_id <> get_my_profile_id()
+      AND NOT EXISTS (
+        SELECT 1 FROM follows f WHERE f.follower_id = get_my_profile_id() AND f.following_id = p.profile_id
+      )
+      -- Blocks are already filtered out by the posts policy
+      AND p.profile_id NOT IN (SELECT muted_id FROM mutes WHERE muter_id = get_my_profile_id())
+  ) t
+  ORDER BY t.score DESC, t.created_at DESC, t.id
+  OFFSET GREATEST(_offset, 0)
+  LIMIT LEAST(_limit, 50)
+$$;
@@ -0,0 +1,123 @@
+-- profiles is readable by everyone, so last_seen on it could be selected
+-- directly and show_active_status only hid it inside our own functions.
+-- Move it to a table nobody else can read; the activity functions below are
+-- the only way to see someone else's, and they respect the setting.
+CREATE TABLE IF NOT EXISTS public.profile_activity (
+  profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profile_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own activity" ON public.profile_activity FOR SELECT USING (profile_id = get_my_profile_id());
+CREATE POLICY "Admins can view all activity" ON public.profile_activity FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+-- Hidden statuses are not carried over
+INSERT INTO public.profile_activity (profile_id, last_seen)
+SELECT p.id, p.last_seen
+FROM public.profiles p
+WHERE p.last_seen IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.user_settings s
+    WHERE s.profile_id = p.id AND s.show_active_status = false
+  )
+ON CONFLICT (profile_id) DO NOTHING;
+
+-- Someone else's last_seen, or null when either side hides their status
+CREATE OR REPLACE FUNCTION public.visible_last_seen(_profile_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT last_seen FROM profile_activity
+  WHERE profile_id = _profile_id
+    AND can_see_activity_status(_profile_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_activity_status(_profile_ids UUID[])
+RETURNS TABLE (
+  profile_id UUID,
+  last_seen TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.profile_id, t.last_seen
+  FROM (
+    SELECT p.id AS profile_id, visible_last_seen(p.id) AS last_seen
+    FROM profiles p
+    WHERE p.id = ANY(_profile_ids)
+  ) t
+  WHERE t.last_seen IS NOT NULL
+$$;
+
+-- Definer now that clients can't write profile_activity themselves
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  INSERT INTO profile_activity (profile_id, last_seen)
+  SELECT get_my_profile_id(), now()
+  WHERE get_my_profile_id() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM user_settings s
+      WHERE s.profile_id = get_my_profile_id() AND s.show_active_status = false
+    )
+  ON CONFLICT (profile_id) DO UPDATE SET last_seen = EXCLUDED.last_seen
+$$;
+
+-- Turning the activity status off forgets the last one recorded, so nothing
+-- is left to leak and turning it back on starts fresh
+CREATE OR REPLACE FUNCTION public.clear_hidden_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.show_active_status = false THEN
+    DELETE FROM profile_activity WHERE profile_id = NEW.profile_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_hidden_activity ON public.user_settings;
+CREATE TRIGGER clear_hidden_activity
+  AFTER INSERT OR UPDATE OF show_active_status ON public.user_settings
+  FOR EACH ROW EXECUTE FUNCTION public.clear_hidden_activity();
+
+CREATE OR REPLACE FUNCTION public.search_profiles(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  display_name TEXT,
+  avatar_url TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE,
+  is_verified BOOLEAN,
+  verified_type TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    p.id, p.username, p.display_name, p.avatar_url,
+    visible_last_seen(p.id),
+    p.is_verified, p.verified_type
+  FROM profiles p
+  WHERE CASE
+    WHEN char_length(_query) < 3
+      THEN starts_with(lower(p.username), lower(_query)) OR starts_with(lower(p.display_name), lower(_query))
+    ELSE _query <% p.username OR _query <% p.display_name
+  END
+  ORDER BY
+    (lower(p.username) = lower(_query)) DESC,
+    GREATEST(word_similarity(_query, p.username), word_similarity(_query, p.display_name)) DESC,
+    p.username
+  LIMIT LEAST(_limit, 50)
+$$;
+
+ALTER TABLE public.profiles DROP COLUMN IF EXISTS last_seen;
@@ -0,0 +1,69 @@
+-- Participant rows are visible to everyone in the conversation, and the UPDATE
+-- policy on them let a member rewrite their own row: promote themselves to
+-- admin or move the row into another conversation. It also meant every member
+-- could read everyone's last_read_at directly, whatever show_read_receipts said.
+--
+-- Read times move to their own table that only the owner can read. They're
+-- written through mark_conversation_read, others' come from
+-- get_conversation_read_state as before, and participant rows are no longer
+-- updatable by clients at all; roles change through set_group_role.
+CREATE TABLE IF NOT EXISTS public.conversation_reads (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, profile_id)
+);
+
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own read state" ON public.conversation_reads FOR SELECT USING (profile_id = get_my_profile_id());
+
+INSERT INTO public.conversation_reads (conversation_id, profile_id, last_read_at)
+SELECT conversation_id, profile_id, last_read_at
+FROM public.conversation_participants
+WHERE last_read_at IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can update own participant record" ON public.conversation_participants;
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_conversation_participant(_conversation_id) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  INSERT INTO conversation_reads (conversation_id, profile_id, last_read_at)
+  VALUES (_conversation_id, get_my_profile_id(), now())
+  ON CONFLICT (conversation_id, profile_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_read_state(_conversation_id UUID)
+RETURNS TABLE (
+  profile_id UUID,
+  username TEXT,
+  last_read_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT cp.profile_id, p.username, r.last_read_at
+  FROM conversation_participants cp
+  JOIN conversation_reads r ON r.conversation_id = cp.conversation_id AND r.profile_id = cp.profile_id
+  JOIN profiles p ON p.id = cp.profile_id
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.profile_id <> get_my_profile_id()
+    AND is_conversation_participant(_conversation_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM user_settings s
+      WHERE s.profile_id IN (cp.profile_id, get_my_profile_id())
+        AND s.show_read_receipts = false
+    )
+$$;
+
+ALTER TABLE public.conversation_participants DROP COLUMN IF EXISTS last_read_at;
@@ -0,0 +1,101 @@
+-- create_group_conversation and add_group_members run as definer, so they
+-- went around blocks and message requests: anyone could be pulled into a
+-- group with someone they had blocked, or with a stranger they only take
+-- requests from. Adding someone to a group now needs the same standing as
+-- starting a one-to-one chat with them without a request.
+CREATE OR REPLACE FUNCTION public.can_add_to_group(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT NOT has_block_with(_profile_id) AND NOT needs_message_request(_profile_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_group_conversation(_name TEXT, _member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _me UUID := get_my_profile_id();
+  _conversation_id UUID;
+  _my_username TEXT;
+BEGIN
+  IF _me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF coalesce(array_length(_member_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other people';
+  END IF;
+  IF array_length(_member_ids, 1) > 31 THEN
+    RAISE EXCEPTION 'Groups are limited to 32 people';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(_member_ids) AS m(id) WHERE m.id <> _me AND NOT can_add_to_group(m.id)) THEN
+    RAISE EXCEPTION 'Some of these people can''t be added to a group by you';
+  END IF;
+
+  INSERT INTO conversations (is_group, name, created_by)
+  VALUES (true, nullif(trim(_name), ''), _me)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, profile_id, role)
+  VALUES (_conversation_id, _me, 'admin');
+
+  INSERT INTO conversation_participants (conversation_id, profile_id, role)
+  SELECT _conversation_id, p.id, 'member'
+  FROM profiles p
+  WHERE p.id = ANY(_member_ids) AND p.id <> _me
+  ON CONFLICT (conversation_id, profile_id) DO NOTHING;
+
+  SELECT username INTO _my_username FROM profiles WHERE id = _me;
+  PERFORM add_system_message(_conversation_id, _my_username || ' created the group');
+
+  RETURN _conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(_conversation_id UUID, _member_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _my_username TEXT;
+  _added TEXT[];
+BEGIN
+  IF NOT is_conversation_admin(_conversation_id) THEN
+    RAISE EXCEPTION 'Only group admins can add people';
+  END IF;
+  IF (SELECT count(*) FROM conversation_participants WHERE conversation_id = _conversation_id)
+     + coalesce(array_length(_member_ids, 1), 0) > 32 THEN
+    RAISE EXCEPTION 'Groups are limited to 32 people';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(_member_ids) AS m(id)
+    WHERE NOT can_add_to_group(m.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM conversation_participants cp
+        WHERE cp.conversation_id = _conversation_id AND cp.profile_id = m.id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Some of these people can''t be added to a group by you';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO conversation_participants (conversation_id, profile_id, role)
+    SELECT _conversation_id, p.id, 'member'
+    FROM profiles p
+    WHERE p.id = ANY(_member_ids)
+    ON CONFLICT (conversation_id, profile_id) DO NOTHING
+    RETURNING profile_id
+  )
+  SELECT array_agg(p.username ORDER BY p.username) INTO _added
+  FROM inserted i JOIN profiles p ON p.id = i.profile_id;
+
+  IF _added IS NOT NULL THEN
+    SELECT username INTO _my_username FROM profiles WHERE id = get_my_profile_id();
+    PERFORM add_system_message(_conversation_id, _my_username || ' added ' || array_to_string(_added, ', '));
+  END IF;
+END;
+$$;
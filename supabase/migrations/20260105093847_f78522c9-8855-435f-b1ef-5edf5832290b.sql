@@ -0,0 +1,46 @@
+-- guard_message_edit only pinned the columns that existed when edits were
+-- added, so a sender could still rewrite an attachment's name, size, type,
+-- duration or waveform, or point a shared post, story or profile somewhere
+-- else. Pin those too. Shared content may only go to NULL, which
+-- ON DELETE SET NULL does when it's deleted.
+CREATE OR REPLACE FUNCTION public.guard_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.message_type IS DISTINCT FROM OLD.message_type
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.file_url IS DISTINCT FROM OLD.file_url
+    OR NEW.file_name IS DISTINCT FROM OLD.file_name
+    OR NEW.file_size IS DISTINCT FROM OLD.file_size
+    OR NEW.file_mime_type IS DISTINCT FROM OLD.file_mime_type
+    OR NEW.media_duration IS DISTINCT FROM OLD.media_duration
+    OR NEW.waveform IS DISTINCT FROM OLD.waveform
+    OR (NEW.reply_to_id IS NOT NULL AND NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id)
+    OR (NEW.shared_post_id IS NOT NULL AND NEW.shared_post_id IS DISTINCT FROM OLD.shared_post_id)
+    OR (NEW.shared_story_id IS NOT NULL AND NEW.shared_story_id IS DISTINCT FROM OLD.shared_story_id)
+    OR (NEW.shared_profile_id IS NOT NULL AND NEW.shared_profile_id IS DISTINCT FROM OLD.shared_profile_id) THEN
+    RAISE EXCEPTION 'Only the text of a message can be edited';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF OLD.message_type <> 'text' THEN
+      RAISE EXCEPTION 'Only text messages can be edited';
+    END IF;
+    IF OLD.created_at < now() - interval '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+    END IF;
+    IF NULLIF(btrim(NEW.content), '') IS NULL THEN
+      RAISE EXCEPTION 'Message cannot be empty';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
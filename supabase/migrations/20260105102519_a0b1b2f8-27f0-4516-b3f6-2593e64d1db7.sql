@@ -0,0 +1,55 @@
+-- Opening a message request marked it read, so the sender saw "Seen" before
+-- the receiver had decided anything. While a request is pending the receiver's
+-- reads aren't recorded, and nobody's read state is shown in the thread.
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_conversation_participant(_conversation_id) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM message_requests
+    WHERE conversation_id = _conversation_id
+      AND receiver_id = get_my_profile_id()
+      AND status = 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO conversation_reads (conversation_id, profile_id, last_read_at)
+  VALUES (_conversation_id, get_my_profile_id(), now())
+  ON CONFLICT (conversation_id, profile_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_read_state(_conversation_id UUID)
+RETURNS TABLE (
+  profile_id UUID,
+  username TEXT,
+  last_read_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT cp.profile_id, p.username, r.last_read_at
+  FROM conversation_participants cp
+  JOIN conversation_reads r ON r.conversation_id = cp.conversation_id AND r.profile_id = cp.profile_id
+  JOIN profiles p ON p.id = cp.profile_id
+  WHERE cp.conversation_id = _conversation_id
+    AND cp.profile_id <> get_my_profile_id()
+    AND is_conversation_participant(_conversation_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM message_requests mr
+      WHERE mr.conversation_id = _conversation_id AND mr.status = 'pending'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM user_settings s
+      WHERE s.profile_id IN (cp.profile_id, get_my_profile_id())
+        AND s.show_read_receipts = false
+    )
+$$;
@@ -0,0 +1,10 @@
+-- Clients could still insert a conversation with is_group set, add anyone to
+-- it through "Users can start conversations" and make themselves admin, which
+-- skipped message requests, blocks and can_add_to_group. Groups are only made
+-- through create_group_conversation now; clients can start plain one-to-one
+-- conversations, and only as members.
+DROP POLICY IF EXISTS "Users can create conversations" ON public.conversations;
+CREATE POLICY "Users can create conversations" ON public.conversations FOR INSERT TO authenticated WITH CHECK (NOT is_group AND name IS NULL AND avatar_url IS NULL AND created_by IS NULL);
+
+DROP POLICY IF EXISTS "Users can start conversations" ON public.conversation_participants;
+CREATE POLICY "Users can start conversations" ON public.conversation_participants FOR INSERT WITH CHECK (role = 'member' AND NOT conversation_has_participants(conversation_id));